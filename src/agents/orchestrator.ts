@@ -32,7 +32,8 @@ export class AgentOrchestrator {
       currentAgent: 'ontologist',
       messages: [],
       graphPaths: [graphPath],
-      metadata: { startTime: new Date() },
+      // The sampling seed lets the path be reproduced
+      metadata: { startTime: new Date(), seed: graphPath.seed },
     };
 
     // Step 1: Ontologist analyzes the path
@@ -90,7 +91,7 @@ export class AgentOrchestrator {
       currentAgent: 'planner',
       messages: [],
       graphPaths,
-      metadata: { keywords, startTime: new Date() },
+      metadata: { keywords, startTime: new Date(), seed: graphPaths[0]?.seed },
     };
 
     // Step 1: Planner develops strategy
@@ -162,13 +163,42 @@ export class AgentOrchestrator {
 
     const pathDescription = graphPath.nodes.map(n => n.label).join(' → ');
     const edgeTypes = graphPath.edges.map(e => e.type).join(', ');
+    const evidence = graphPath.edges
+      .filter(e => e.evidenceSentences && e.evidenceSentences.length > 0)
+      .map(e => {
+        const source = graphPath.nodes.find(n => n.id === e.source)?.label || e.source;
+        const target = graphPath.nodes.find(n => n.id === e.target)?.label || e.target;
+        return `- ${source} ${e.type} ${target}: "${e.evidenceSentences![0]}"`;
+      })
+      .join('\n');
+    const predicted = graphPath.edges
+      .filter(e => e.predicted)
+      .map(e => {
+        const source = graphPath.nodes.find(n => n.id === e.source)?.label || e.source;
+        const target = graphPath.nodes.find(n => n.id === e.target)?.label || e.target;
+        const via = e.predicted!.via.length > 0 ? `, shared neighbours: ${e.predicted!.via.join(', ')}` : '';
+        return `- ${source} — ${target} (${e.predicted!.method} score ${e.predicted!.score.toFixed(3)}${via})`;
+      })
+      .join('\n');
+    const discovery = graphPath.discovery ? this.describeDiscovery(graphPath) : '';
+    const communities = graphPath.communities
+      ? graphPath.nodes.map((n, i) => `- ${n.label}: ${graphPath.communities![i]}`).join('\n')
+      : '';
+    const provenance = graphPath.edges.some(e => e.sourceCounts)
+      ? graphPath.edges
+          .map((e, i) => {
+            const sources = Object.keys(e.sourceCounts || {}).join(', ') || 'unknown';
+            return `- ${graphPath.nodes[i].label} → ${graphPath.nodes[i + 1].label}: ${sources}`;
+          })
+          .join('\n')
+      : '';
 
     const prompt = `Analyze this scientific concept path and describe the relationships:
 
 Path: ${pathDescription}
 
 Relationship types: ${edgeTypes}
-
+${communities ? `\nResearch communities (named by their most distinctive concepts):\n${communities}\n` : ''}${evidence ? `\nSupporting statements from the literature:\n${evidence}\n` : ''}${predicted ? `\nPredicted links not yet reported in the literature:\n${predicted}\n` : ''}${discovery ? `\n${discovery}\n` : ''}${provenance ? `\nSource datasets supporting each step:\n${provenance}\n` : ''}
 For each concept pair, describe:
 1. The nature of their relationship
 2. The strength of evidence for this relationship
@@ -180,6 +210,24 @@ Provide a structured ontological analysis.`;
     return await agent.chat(prompt);
   }
 
+  /**
+   * Helper: describe a Swanson A-B-C chain with the evidence for each half
+   */
+  private describeDiscovery(graphPath: GraphPath): string {
+    const discovery = graphPath.discovery!;
+    const [a, b, c] = graphPath.nodes.map(n => n.label);
+    const papers = (evidence: string[]) =>
+      evidence.length > 5
+        ? `${evidence.slice(0, 5).join(', ')} and ${evidence.length - 5} more`
+        : evidence.join(', ') || 'none recorded';
+    const others = discovery.linking.slice(1, 10);
+
+    return `Literature-based discovery (${discovery.mode} ABC): ${a} and ${c} have never been studied together, but both are linked to ${b}.
+- ${a} — ${b} evidence papers: ${papers(graphPath.edges[0].evidence)}
+- ${b} — ${c} evidence papers: ${papers(graphPath.edges[1].evidence)}
+Linking concepts: ${discovery.linkingTermCount} (average minimum weight ${discovery.averageMinimumWeight.toFixed(3)})${others.length > 0 ? `; others: ${others.join(', ')}` : ''}`;
+  }
+
   /**
    * Run scientist 1 agent (initial hypothesis)
    */
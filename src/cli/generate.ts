@@ -4,31 +4,401 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import SciHypothesisAgent from '../index.js';
+import type { BuildProgress, LabeledDataset } from '../graph/builder.js';
+import { CONCEPT_TYPES, VocabularyExtractor } from '../graph/extractors.js';
+import { StatisticalTermExtractor } from '../graph/terms.js';
+import { EDGE_WEIGHTINGS } from '../graph/weighting.js';
+import { LINK_PREDICTION_METHODS } from '../graph/links.js';
+import { DISCOVERY_RANKINGS } from '../graph/discovery.js';
+import { EDGE_TYPES } from '../graph/edges.js';
+import { NOVELTY_FACTORS } from '../graph/scoring.js';
+import {
+  EMBEDDING_PROVIDERS,
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from '../graph/embeddings.js';
+import { loadCorpus, writeCorpusJSONL } from '../data/loaders.js';
+import {
+  LocalCitations,
+  loadReferences,
+  snowball,
+  type CitationSource,
+} from '../data/citations.js';
+import { DataRetrieval } from '../data/retrieval.js';
+import { loadConfig } from '../config/default.js';
+import type {
+  ConceptEdge,
+  ConceptNode,
+  DiscoveryRanking,
+  EdgeWeighting,
+  LinkPredictionMethod,
+  PathConstraints,
+} from '../types/index.js';
+import { basename, extname } from 'path';
 
 const program = new Command();
 
+/**
+ * Create the agent, using a controlled vocabulary when one is given and
+ * statistical term ranking otherwise
+ */
+async function createAgent(
+  options: {
+    vocabulary?: string;
+    minDocFrequency?: string;
+    edgeWeighting?: string;
+    minEdgeWeight?: string;
+    entities?: boolean;
+    embeddings?: string;
+    noveltyWeights?: string[];
+    centralitySamples?: string;
+    centralityWorker?: boolean;
+  },
+  onBuildProgress?: (progress: BuildProgress) => void
+): Promise<SciHypothesisAgent> {
+  const conceptExtractor = options.vocabulary
+    ? await VocabularyExtractor.fromFile(options.vocabulary)
+    : new StatisticalTermExtractor({
+        minDocFrequency: parseInteger(options.minDocFrequency || '1', '--min-doc-frequency'),
+      });
+
+  const graphConfig: {
+    edgeWeighting?: EdgeWeighting;
+    minEdgeWeight?: number;
+    entityLayer?: boolean;
+    noveltyWeights?: Record<string, number>;
+    centralitySamples?: number;
+    centralityWorker?: boolean;
+  } = {};
+  if (options.edgeWeighting) {
+    if (!EDGE_WEIGHTINGS.includes(options.edgeWeighting as EdgeWeighting)) {
+      throw new Error(
+        `Unknown edge weighting "${options.edgeWeighting}" (expected one of: ${EDGE_WEIGHTINGS.join(', ')})`
+      );
+    }
+    graphConfig.edgeWeighting = options.edgeWeighting as EdgeWeighting;
+  }
+  if (options.minEdgeWeight) {
+    graphConfig.minEdgeWeight = parseNumber(options.minEdgeWeight, '--min-edge-weight');
+  }
+  if (options.entities) {
+    graphConfig.entityLayer = true;
+  }
+  if (options.noveltyWeights) {
+    graphConfig.noveltyWeights = parseNoveltyWeights(options.noveltyWeights);
+  }
+  if (options.centralitySamples) {
+    const samples = Number(options.centralitySamples);
+    if (!Number.isInteger(samples) || samples < 1) {
+      throw new Error(`Invalid centrality samples "${options.centralitySamples}" (expected a positive integer)`);
+    }
+    graphConfig.centralitySamples = samples;
+  }
+  if (options.centralityWorker) {
+    graphConfig.centralityWorker = true;
+  }
+
+  let embeddingProvider: EmbeddingProvider | undefined;
+  if (options.embeddings) {
+    if (!EMBEDDING_PROVIDERS.includes(options.embeddings as EmbeddingProviderName)) {
+      throw new Error(
+        `Unknown embedding provider "${options.embeddings}" (expected one of: ${EMBEDDING_PROVIDERS.join(', ')})`
+      );
+    }
+    embeddingProvider = createEmbeddingProvider(
+      options.embeddings as EmbeddingProviderName,
+      loadConfig().graphConfig.embeddingDimensions
+    );
+  }
+
+  return new SciHypothesisAgent({
+    conceptExtractor,
+    onBuildProgress,
+    graphConfig,
+    embeddingProvider,
+  });
+}
+
+/**
+ * Validate a --method / --link-prediction value
+ */
+function parseLinkPredictionMethod(method: string): LinkPredictionMethod {
+  if (!LINK_PREDICTION_METHODS.includes(method as LinkPredictionMethod)) {
+    throw new Error(
+      `Unknown link prediction method "${method}" (expected one of: ${LINK_PREDICTION_METHODS.join(', ')})`
+    );
+  }
+  return method as LinkPredictionMethod;
+}
+
+/**
+ * Parse --novelty-weights values given as factor=weight
+ */
+function parseNoveltyWeights(values: string[]): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const value of values) {
+    const [name, weight] = value.split('=');
+    if (!NOVELTY_FACTORS.includes(name)) {
+      throw new Error(
+        `Unknown novelty factor "${name}" (expected one of: ${NOVELTY_FACTORS.join(', ')})`
+      );
+    }
+    const parsed = Number(weight);
+    if (weight === undefined || !Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid weight in "${value}" (expected factor=weight with a non-negative number)`);
+    }
+    weights[name] = parsed;
+  }
+  return weights;
+}
+
+/**
+ * Validate a --seed value
+ */
+function parseSeed(seed: string): number {
+  const value = Number(seed);
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw new Error(`Invalid seed "${seed}" (expected an integer from 0 to ${0xffffffff})`);
+  }
+  return value;
+}
+
+/**
+ * Validate an integer option of at least `min`, such as --count
+ */
+function parseInteger(value: string, option: string, min = 1): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${option} "${value}" (expected an integer of at least ${min})`);
+  }
+  return parsed;
+}
+
+/**
+ * Validate a numeric option such as --min-edge-weight
+ */
+function parseNumber(value: string, option: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw new Error(`Invalid ${option} "${value}" (expected a number)`);
+  }
+  return parsed;
+}
+
+/**
+ * Validate a --ranking value
+ */
+function parseDiscoveryRanking(ranking: string): DiscoveryRanking {
+  if (!DISCOVERY_RANKINGS.includes(ranking as DiscoveryRanking)) {
+    throw new Error(
+      `Unknown discovery ranking "${ranking}" (expected one of: ${DISCOVERY_RANKINGS.join(', ')})`
+    );
+  }
+  return ranking as DiscoveryRanking;
+}
+
+/**
+ * Validate path constraint options (--max-hops, --require-type, --exclude,
+ * --min-crossings, --edge-types)
+ */
+function parsePathConstraints(options: {
+  maxHops?: string;
+  requireType?: string[];
+  exclude?: string[];
+  minCrossings?: string;
+  edgeTypes?: string[];
+}): PathConstraints {
+  const invalid = (values: string[] | undefined, allowed: string[]) =>
+    values?.find(value => !allowed.includes(value));
+
+  const type = invalid(options.requireType, CONCEPT_TYPES);
+  if (type) {
+    throw new Error(`Unknown concept type "${type}" (expected one of: ${CONCEPT_TYPES.join(', ')})`);
+  }
+  const edgeType = invalid(options.edgeTypes, EDGE_TYPES);
+  if (edgeType) {
+    throw new Error(`Unknown edge type "${edgeType}" (expected one of: ${EDGE_TYPES.join(', ')})`);
+  }
+
+  return {
+    ...(options.maxHops && { maxHops: parseInteger(options.maxHops, '--max-hops') }),
+    ...(options.requireType && { requireConceptTypes: options.requireType as ConceptNode['type'][] }),
+    ...(options.exclude && { excludeConcepts: options.exclude }),
+    ...(options.minCrossings && { minCommunityCrossings: parseInteger(options.minCrossings, '--min-crossings', 0) }),
+    ...(options.edgeTypes && { edgeTypes: options.edgeTypes as ConceptEdge['type'][] }),
+  };
+}
+
+/**
+ * Parse --dataset values: one plain path builds an unlabeled graph; several
+ * datasets, or any given as label=path, are merged under source labels
+ * (the file name when no label is given)
+ */
+function parseDatasets(values: string[]): string | LabeledDataset[] {
+  if (values.length === 1 && !values[0].includes('=')) return values[0];
+
+  return values.map(value => {
+    const separator = value.indexOf('=');
+    if (separator > 0) {
+      return { label: value.slice(0, separator), path: value.slice(separator + 1) };
+    }
+    return { label: basename(value, extname(value)), path: value };
+  });
+}
+
+/**
+ * Spinner text for a build progress update
+ */
+function formatBuildProgress(progress: BuildProgress): string {
+  const labels = {
+    loading: 'Loading papers',
+    extracting: 'Extracting concepts',
+    relationships: 'Building relationships',
+  };
+  const count = progress.total
+    ? `${progress.completed.toLocaleString()}/${progress.total.toLocaleString()} papers`
+    : `${progress.completed.toLocaleString()} records`;
+  return `${labels[progress.stage]}... (${count})`;
+}
+
+/**
+ * Initialize from a saved graph snapshot, or build the graph from a dataset
+ */
+async function initializeAgent(
+  agent: SciHypothesisAgent,
+  options: { dataset?: string; graph?: string }
+): Promise<void> {
+  if (options.graph) {
+    await agent.initializeFromSnapshot(options.graph);
+  } else if (options.dataset) {
+    await agent.initialize(options.dataset);
+  } else {
+    throw new Error('Either --dataset or --graph is required');
+  }
+}
+
 program
   .name('sci-hypothesis-generate')
   .description('Generate scientific hypotheses using AI agents')
   .version('1.0.0');
 
+program
+  .command('build-graph')
+  .description('Build the knowledge graph once and save it as a snapshot')
+  .requiredOption(
+    '-d, --dataset <paths...>',
+    'Dataset files (CSV, RIS, BibTeX, PubMed XML or JSONL); label=path merges several corpora by source'
+  )
+  .requiredOption('-o, --output <file>', 'Snapshot file to write')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .option('--entities', 'Also build the author/venue/paper layer')
+  .option('--embeddings <provider>', 'Store concept embeddings: lsa, ngram or http')
+  .option('--centrality-samples <number>', 'Pivots for approximate betweenness on large graphs (more is slower, more accurate)')
+  .option('--centrality-worker', 'Compute betweenness in a worker thread')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const agent = await createAgent(options, progress => {
+        spinner.text = formatBuildProgress(progress);
+      });
+
+      spinner.text = 'Loading dataset and building knowledge graph...';
+      await agent.initialize(parseDatasets(options.dataset));
+
+      spinner.text = 'Saving graph snapshot...';
+      await agent.saveSnapshot(options.output);
+      spinner.succeed(`Graph snapshot saved to ${options.output}`);
+
+    } catch (error) {
+      spinner.fail('Error building graph');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('update-graph')
+  .description('Add new papers to a saved graph snapshot without rebuilding it')
+  .requiredOption('-g, --graph <file>', 'Graph snapshot to update')
+  .requiredOption('-d, --dataset <path>', 'Dataset file with the new papers')
+  .option('--source <label>', 'Source label of the new papers (graphs merged from several corpora)')
+  .option('-o, --output <file>', 'Snapshot file to write (defaults to --graph)')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const agent = await createAgent(options);
+
+      spinner.text = 'Loading graph snapshot...';
+      await agent.initializeFromSnapshot(options.graph);
+
+      spinner.text = 'Adding new papers...';
+      await agent.addPapersFromFile(options.dataset, options.source);
+
+      spinner.text = 'Saving graph snapshot...';
+      await agent.saveSnapshot(options.output || options.graph);
+      spinner.succeed(`Graph snapshot updated: ${options.output || options.graph}`);
+
+    } catch (error) {
+      spinner.fail('Error updating graph');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
 program
   .command('single')
   .description('Generate a single hypothesis')
-  .requiredOption('-d, --dataset <path>', 'Path to CSV dataset')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
   .requiredOption('-k, --keywords <keywords...>', 'Keywords for hypothesis generation')
+  .option('--link-prediction <method>', 'Target the top predicted absent link instead of a sampled path')
+  .option('--discovery', 'Target a Swanson A-B-C chain instead of a sampled path')
+  .option('-t, --target <keywords...>', 'With --discovery: closed discovery towards these keywords')
+  .option('--ranking <ranking>', 'With --discovery: linking_terms or average_minimum_weight')
+  .option('--cross-source', 'Only sample paths that cross source datasets')
+  .option('--seed <number>', 'Path sampling seed, to reproduce an earlier run')
+  .option('--novelty-weights <factor=weight...>', 'Novelty factor weights, e.g. link_surprise=0.2 bridge=0')
+  .option('--centrality-samples <number>', 'Pivots for approximate betweenness on large graphs (more is slower, more accurate)')
+  .option('--centrality-worker', 'Compute betweenness in a worker thread')
   .option('-o, --output <dir>', 'Output directory', './output')
   .action(async (options) => {
     const spinner = ora('Initializing system...').start();
 
     try {
-      const agent = new SciHypothesisAgent();
+      const linkPrediction = options.linkPrediction
+        ? parseLinkPredictionMethod(options.linkPrediction)
+        : undefined;
+      const discovery = options.discovery
+        ? {
+            target: options.target,
+            ...(options.ranking && { ranking: parseDiscoveryRanking(options.ranking) }),
+          }
+        : undefined;
+      const agent = await createAgent(options);
 
-      spinner.text = 'Loading dataset and building knowledge graph...';
-      await agent.initialize(options.dataset);
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
 
       spinner.text = 'Generating hypothesis...';
-      const hypothesis = await agent.generateHypothesis(options.keywords);
+      const hypothesis = await agent.generateHypothesis(options.keywords, {
+        linkPrediction,
+        discovery,
+        crossSource: options.crossSource,
+        ...(options.seed && { seed: parseSeed(options.seed) }),
+      });
 
       spinner.succeed('Hypothesis generated successfully!');
 
@@ -58,24 +428,40 @@ program
 program
   .command('multiple')
   .description('Generate multiple hypotheses')
-  .requiredOption('-d, --dataset <path>', 'Path to CSV dataset')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
   .requiredOption('-k, --keywords <keywords...>', 'Keywords for hypothesis generation')
   .option('-n, --count <number>', 'Number of hypotheses to generate', '3')
+  .option('-t, --target <keywords...>', 'Work from alternative paths to the concept matching these keywords')
+  .option('--seed <number>', 'Path sampling seed, to reproduce an earlier run')
+  .option('--novelty-weights <factor=weight...>', 'Novelty factor weights, e.g. link_surprise=0.2 bridge=0')
+  .option('--centrality-samples <number>', 'Pivots for approximate betweenness on large graphs (more is slower, more accurate)')
+  .option('--centrality-worker', 'Compute betweenness in a worker thread')
   .option('-o, --output <dir>', 'Output directory', './output')
   .action(async (options) => {
     const spinner = ora('Initializing system...').start();
 
     try {
-      const agent = new SciHypothesisAgent();
-      const count = parseInt(options.count);
+      const count = parseInteger(options.count, '--count');
+      const agent = await createAgent(options);
 
-      spinner.text = 'Loading dataset and building knowledge graph...';
-      await agent.initialize(options.dataset);
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
 
       spinner.text = `Generating ${count} hypotheses...`;
       const hypotheses = await agent.generateMultipleHypotheses(
         options.keywords,
-        count
+        count,
+        {
+          ...(options.seed && { seed: parseSeed(options.seed) }),
+          target: options.target,
+        }
       );
 
       spinner.succeed(`Generated ${hypotheses.length} hypotheses!`);
@@ -110,16 +496,23 @@ program
 program
   .command('explore')
   .description('Explore concepts in the knowledge graph')
-  .requiredOption('-d, --dataset <path>', 'Path to CSV dataset')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
   .requiredOption('-k, --keywords <keywords...>', 'Keywords to search for')
   .action(async (options) => {
     const spinner = ora('Initializing system...').start();
 
     try {
-      const agent = new SciHypothesisAgent();
+      const agent = await createAgent(options);
 
-      spinner.text = 'Loading dataset and building knowledge graph...';
-      await agent.initialize(options.dataset);
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
       spinner.succeed('System ready!');
 
       agent.exploreConcepts(options.keywords);
@@ -131,22 +524,70 @@ program
     }
   });
 
+program
+  .command('related')
+  .description('Rank concepts by relevance to all keywords (personalized PageRank)')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .requiredOption('-k, --keywords <keywords...>', 'Keywords; every matching concept seeds the walk')
+  .option('-n, --count <number>', 'Number of concepts to show', '20')
+  .option('--restart <probability>', 'Probability of returning to the keyword matches at each step', '0.15')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const restart = parseNumber(options.restart, '--restart');
+      if (!(restart > 0 && restart < 1)) {
+        throw new Error(`Invalid restart probability "${options.restart}" (expected a number between 0 and 1)`);
+      }
+      const agent = await createAgent(options);
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      agent.findRelatedConcepts(options.keywords, count, { restart });
+
+    } catch (error) {
+      spinner.fail('Error ranking related concepts');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
 program
   .command('bridges')
   .description('Find bridge concepts (high centrality)')
-  .requiredOption('-d, --dataset <path>', 'Path to CSV dataset')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
   .option('-n, --count <number>', 'Number of bridge concepts to show', '10')
+  .option('--centrality-samples <number>', 'Pivots for approximate betweenness on large graphs (more is slower, more accurate)')
+  .option('--centrality-worker', 'Compute betweenness in a worker thread')
   .action(async (options) => {
     const spinner = ora('Initializing system...').start();
 
     try {
-      const agent = new SciHypothesisAgent();
+      const count = parseInteger(options.count, '--count');
+      const agent = await createAgent(options);
 
-      spinner.text = 'Loading dataset and building knowledge graph...';
-      await agent.initialize(options.dataset);
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
       spinner.succeed('System ready!');
 
-      agent.findBridgeConcepts(parseInt(options.count));
+      await agent.findBridgeConcepts(count);
 
     } catch (error) {
       spinner.fail('Error finding bridge concepts');
@@ -155,4 +596,436 @@ program
     }
   });
 
+program
+  .command('communities')
+  .description('List labeled concept communities at several resolutions')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .option('-r, --resolutions <numbers...>', 'Louvain resolutions; lower values give fewer, larger communities', ['0.5', '1', '2'])
+  .option('-n, --count <number>', 'Communities to show per resolution', '10')
+  .option('-l, --links <number>', 'Densest links between communities to show per resolution', '5')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const links = parseInteger(options.links, '--links', 0);
+      const resolutions = (options.resolutions as string[]).map(r => parseNumber(r, '--resolutions'));
+      if (resolutions.some(r => !(r > 0))) {
+        throw new Error('Resolutions must be positive numbers');
+      }
+      const agent = await createAgent(options);
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      agent.listCommunities({
+        resolutions,
+        limit: count,
+        links,
+      });
+
+    } catch (error) {
+      spinner.fail('Error listing communities');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('trends')
+  .description('Detect bursting concepts and newly forming connections')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .option('--method <method>', 'Detection method: kleinberg or zscore', 'kleinberg')
+  .option('--window <years>', 'Recent years compared against the earlier record', '3')
+  .option('--min-count <number>', 'Minimum supporting papers for a trend', '2')
+  .option('-n, --count <number>', 'Number of trends to show per section', '20')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const window = parseInteger(options.window, '--window');
+      const minCount = parseInteger(options.minCount, '--min-count');
+      const count = parseInteger(options.count, '--count');
+      if (!['kleinberg', 'zscore'].includes(options.method)) {
+        throw new Error(`Unknown trend method "${options.method}" (expected kleinberg or zscore)`);
+      }
+
+      const agent = await createAgent(options);
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      const { concepts } = agent.findTrends({
+        method: options.method,
+        window,
+        minCount,
+        limit: count,
+      });
+
+      if (concepts.length > 0) {
+        const seeds = concepts.slice(0, 3).map(t => `"${t.label}"`).join(' ');
+        console.log(chalk.gray(`\nTry: npm run generate single --keywords ${seeds}`));
+      }
+
+    } catch (error) {
+      spinner.fail('Error detecting trends');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('graph-report')
+  .description('Report graph health (degrees, components, generic concepts, communities) as JSON and Markdown')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .option('-n, --count <number>', 'Number of generic concepts to list', '20')
+  .option('-o, --output <dir>', 'Output directory', './output')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const agent = await createAgent(options);
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      const report = agent.diagnoseGraph({ topGeneric: count });
+      await agent.exportGraphReport(report, options.output);
+
+    } catch (error) {
+      spinner.fail('Error building graph report');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('collaborators')
+  .description('Find researchers already publishing on both ends of sampled paths')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph --entities')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .requiredOption('-k, --keywords <keywords...>', 'Keywords to start paths from')
+  .option('-n, --count <number>', 'Number of researchers to show per path', '10')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const agent = await createAgent({ ...options, entities: true });
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      agent.findCollaborators(options.keywords, count);
+
+    } catch (error) {
+      spinner.fail('Error finding collaborators');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('venues')
+  .description('Find venues whose papers span several concept communities')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph --entities')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('-n, --count <number>', 'Number of venues to show', '10')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const agent = await createAgent({ ...options, entities: true });
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      agent.findBridgingVenues(count);
+
+    } catch (error) {
+      spinner.fail('Error finding bridging venues');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('predict-links')
+  .description('Rank concept pairs that are not yet connected by how likely a link is')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .option(
+    '--method <method>',
+    'adamic_adar, resource_allocation, jaccard, katz or embedding',
+    'adamic_adar'
+  )
+  .option('--embeddings <provider>', 'Embedding provider for --method embedding: lsa, ngram or http')
+  .option('-k, --keywords <keywords...>', 'Only predict links from concepts matching these keywords')
+  .option('-n, --count <number>', 'Number of links to show', '20')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const method = parseLinkPredictionMethod(options.method);
+      const agent = await createAgent({
+        ...options,
+        embeddings: options.embeddings || (method === 'embedding' ? 'lsa' : undefined),
+      });
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      const links = agent.predictLinks({
+        method,
+        keywords: options.keywords,
+        limit: count,
+      });
+
+      if (links.length > 0 && options.keywords) {
+        console.log(
+          chalk.gray(
+            `\nTry: npm run generate single --keywords ${options.keywords.map((k: string) => `"${k}"`).join(' ')} --link-prediction ${method}`
+          )
+        );
+      }
+
+    } catch (error) {
+      spinner.fail('Error predicting links');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('discover')
+  .description('Swanson ABC discovery: concepts linked only through intermediates')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .requiredOption('-k, --keywords <keywords...>', 'Keywords naming the start concept A')
+  .option('-t, --target <keywords...>', 'Keywords naming the end concept C (closed discovery)')
+  .option('--ranking <ranking>', 'Open discovery ranking: linking_terms or average_minimum_weight', 'linking_terms')
+  .option('-n, --count <number>', 'Number of end concepts to show (open discovery)', '20')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const ranking = parseDiscoveryRanking(options.ranking);
+      const agent = await createAgent(options);
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      const results = agent.discover(options.keywords, {
+        target: options.target,
+        ranking,
+        limit: count,
+      });
+
+      if (results.length > 0) {
+        const target = options.target
+          ? ` --target ${options.target.map((k: string) => `"${k}"`).join(' ')}`
+          : ranking !== 'linking_terms'
+            ? ` --ranking ${ranking}`
+            : '';
+        console.log(
+          chalk.gray(
+            `\nTry: npm run generate single --keywords ${options.keywords.map((k: string) => `"${k}"`).join(' ')} --discovery${target}`
+          )
+        );
+      }
+
+    } catch (error) {
+      spinner.fail('Error running discovery');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('paths')
+  .description('Shortest alternative paths between two concepts, under constraints')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--edge-weighting <scheme>', 'Co-occurrence edge weighting: overlap, pmi, npmi or chi_square')
+  .option('--min-edge-weight <number>', 'Drop co-occurrence edges at or below this weight')
+  .requiredOption('-k, --keywords <keywords...>', 'Keywords naming the start concept')
+  .requiredOption('-t, --target <keywords...>', 'Keywords naming the end concept')
+  .option('-n, --count <number>', 'Number of paths to show', '10')
+  .option('--max-hops <number>', 'Longest path, in edges')
+  .option('--require-type <types...>', 'Paths must visit a concept of one of these types')
+  .option('--exclude <keywords...>', 'Avoid concepts matching these keywords')
+  .option('--min-crossings <number>', 'Steps between communities a path must take')
+  .option('--edge-types <types...>', 'Relations paths may follow (default: all)')
+  .option('--novelty-weights <factor=weight...>', 'Novelty factor weights, e.g. link_surprise=0.2 bridge=0')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const constraints = parsePathConstraints(options);
+      const agent = await createAgent(options);
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      agent.findConnectingPaths(options.keywords, options.target, {
+        ...constraints,
+        limit: count,
+      });
+
+    } catch (error) {
+      spinner.fail('Error finding paths');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('similar')
+  .description('Find concepts semantically similar to a keyword match')
+  .option('-d, --dataset <path>', 'Dataset file (CSV, RIS, BibTeX, PubMed XML or JSONL)')
+  .option('-g, --graph <file>', 'Load a graph snapshot written by build-graph')
+  .option('--vocabulary <path>', 'Controlled vocabulary TSV for concept extraction')
+  .option('--min-doc-frequency <number>', 'Minimum number of papers a term must appear in', '1')
+  .option('--embeddings <provider>', 'Embedding provider when the graph has none: lsa, ngram or http', 'lsa')
+  .requiredOption('-k, --keywords <keywords...>', 'Keywords naming the concept')
+  .option('-n, --count <number>', 'Number of similar concepts to show', '10')
+  .action(async (options) => {
+    const spinner = ora('Initializing system...').start();
+
+    try {
+      const count = parseInteger(options.count, '--count');
+      const agent = await createAgent(options);
+
+      spinner.text = options.graph
+        ? 'Loading graph snapshot...'
+        : 'Loading dataset and building knowledge graph...';
+      await initializeAgent(agent, options);
+      spinner.succeed('System ready!');
+
+      agent.findSimilarConcepts(options.keywords, count);
+
+    } catch (error) {
+      spinner.fail('Error finding similar concepts');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('snowball')
+  .description('Expand seed papers along citations into a corpus for build-graph')
+  .requiredOption('-s, --seeds <ids...>', 'Seed paper DOIs (or PMIDs)')
+  .requiredOption('-o, --output <file>', 'JSON Lines corpus file to write')
+  .option('--hops <number>', 'Citation steps away from the seeds', '1')
+  .option('--direction <direction>', 'backward (references), forward (citing papers) or both', 'both')
+  .option('--max-papers <number>', 'Stop collecting beyond this many papers', '500')
+  .option('--references <path>', 'Local references CSV (citing,cited) instead of Semantic Scholar')
+  .option('-d, --dataset <path>', 'Corpus with the metadata of the papers in --references')
+  .action(async (options) => {
+    const spinner = ora('Preparing citation source...').start();
+
+    try {
+      const hops = parseInteger(options.hops, '--hops');
+      const maxPapers = parseInteger(options.maxPapers, '--max-papers');
+      if (!['backward', 'forward', 'both'].includes(options.direction)) {
+        throw new Error(
+          `Unknown direction "${options.direction}" (expected backward, forward or both)`
+        );
+      }
+
+      let source: CitationSource | undefined;
+      if (options.references) {
+        if (!options.dataset) {
+          throw new Error('--references needs --dataset with the metadata of the cited papers');
+        }
+        const { papers } = await loadCorpus(options.dataset);
+        source = new LocalCitations(papers, await loadReferences(options.references));
+      } else {
+        source = new DataRetrieval(loadConfig().dataSources).citationSource();
+        if (!source) throw new Error('Semantic Scholar is not configured as a data source');
+      }
+
+      spinner.text = `Expanding ${options.seeds.length} seed papers...`;
+      const papers = await snowball(
+        options.seeds,
+        source,
+        {
+          hops,
+          direction: options.direction,
+          maxPapers,
+        },
+        (hop, collected) => {
+          spinner.text = `Hop ${hop}: ${collected.toLocaleString()} papers collected...`;
+        }
+      );
+
+      await writeCorpusJSONL(options.output, papers);
+      spinner.succeed(`Wrote ${papers.length} papers to ${options.output}`);
+      console.log(chalk.gray(`\nNext: npm run generate build-graph --dataset ${options.output} --entities`));
+
+    } catch (error) {
+      spinner.fail('Error expanding seed papers');
+      console.error(chalk.red('\n' + (error as Error).message));
+      process.exit(1);
+    }
+  });
+
 program.parse();
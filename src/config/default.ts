@@ -168,6 +168,23 @@ Be thorough and accurate in your information retrieval.`,
     minEdgeWeight: 0.1,
     maxPathLength: 5,
     embeddingDimensions: 384, // Standard sentence transformer dimension
+    edgeWeighting: 'overlap',
+    significanceLevel: 0.05,
+    entityLayer: false,
+    noveltyWeights: {
+      cross_community: 0.4,
+      edge_weakness: 0.3,
+      path_length: 0.2,
+      bridge: 0.1,
+      edge_recency: 0,
+      link_surprise: 0,
+      paper_scarcity: 0,
+      endpoint_distance: 0,
+    },
+    noveltyLengthScale: 6,
+    exactCentralityLimit: 5000,
+    centralitySamples: 500,
+    centralityWorker: false,
   },
 
   memoryConfig: {
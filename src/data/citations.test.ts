@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AxiosInstance } from 'axios';
+import type PQueue from 'p-queue';
+import {
+  LocalCitations,
+  SemanticScholarCitations,
+  parseReferences,
+  semanticScholarPaper,
+  snowball,
+  type CitationSource,
+} from './citations.js';
+import { loadCorpus, writeCorpusJSONL } from './loaders.js';
+import { testPaper } from '../test/fixtures.js';
+
+const paper = (doi: string) => testPaper(doi, { doi });
+
+// a cites b, b cites c, d cites a
+const corpus = () => ['10.1/a', '10.1/b', '10.1/c', '10.1/d'].map(paper);
+const links = parseReferences(
+  ['citing,cited', '10.1/a,10.1/b', '10.1/B,10.1/c', '10.1/d,10.1/a', '10.1/a,10.9/unknown'].join('\n')
+);
+
+describe('parseReferences', () => {
+  it('should read citing/cited pairs', () => {
+    expect(links).toHaveLength(4);
+    expect(links[0]).toEqual({ citing: '10.1/a', cited: '10.1/b' });
+  });
+});
+
+describe('snowball', () => {
+  it('should follow references backward for the requested hops', async () => {
+    const source = new LocalCitations(corpus(), links);
+
+    const oneHop = await snowball(['10.1/a'], source, { hops: 1, direction: 'backward' });
+    expect(oneHop.map(p => p.id)).toEqual(['10.1/a', '10.1/b']);
+    expect(oneHop[0].references).toEqual(['10.1/b']);
+
+    const twoHops = await snowball(['10.1/A'], new LocalCitations(corpus(), links), {
+      hops: 2,
+      direction: 'backward',
+    });
+    expect(twoHops.map(p => p.id)).toEqual(['10.1/a', '10.1/b', '10.1/c']);
+  });
+
+  it('should record forward citations on the citing papers', async () => {
+    const papers = await snowball(['10.1/a'], new LocalCitations(corpus(), links), {
+      direction: 'forward',
+    });
+
+    expect(papers.map(p => p.id)).toEqual(['10.1/a', '10.1/d']);
+    expect(papers[1].references).toEqual(['10.1/a']);
+  });
+
+  it('should stop at maxPapers', async () => {
+    const papers = await snowball(['10.1/a'], new LocalCitations(corpus(), links), {
+      hops: 3,
+      maxPapers: 2,
+    });
+
+    expect(papers).toHaveLength(2);
+  });
+
+  it('should write a corpus that loads back with its references', async () => {
+    const papers = await snowball(['10.1/a'], new LocalCitations(corpus(), links), { hops: 2 });
+    const filePath = join(tmpdir(), `snowball-${Date.now()}.jsonl`);
+
+    await writeCorpusJSONL(filePath, papers);
+    const loaded = await loadCorpus(filePath);
+    await rm(filePath);
+
+    expect(loaded.papers).toEqual(papers);
+  });
+
+  it('should skip a failed listing and keep the rest', async () => {
+    const local = new LocalCitations(corpus(), links);
+    const source: CitationSource = {
+      getPapers: ids => local.getPapers(ids),
+      getReferences: async () => {
+        throw new Error('Request failed with status code 429');
+      },
+      getCitations: id => local.getCitations(id),
+    };
+
+    const papers = await snowball(['10.1/a'], source, { direction: 'both' });
+
+    expect(papers.map(p => p.id)).toEqual(['10.1/a', '10.1/d']);
+  });
+
+  it('should load back snowballed papers without a year', async () => {
+    const papers = [semanticScholarPaper({ paperId: 'abc123', title: 'Undated preprint' })];
+    const filePath = join(tmpdir(), `snowball-undated-${Date.now()}.jsonl`);
+
+    await writeCorpusJSONL(filePath, papers);
+    const loaded = await loadCorpus(filePath);
+    await rm(filePath);
+
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.papers).toHaveLength(1);
+    expect(loaded.papers[0]).toMatchObject({ id: 'abc123', title: 'Undated preprint' });
+    expect(loaded.papers[0].year).toBeUndefined();
+  });
+});
+
+describe('SemanticScholarCitations', () => {
+  it('should keep the papers of batches that succeed', async () => {
+    let calls = 0;
+    const client = {
+      post: async (_url: string, body: { ids: string[] }) => {
+        if (calls++ === 0) throw new Error('Request failed with status code 500');
+        return { data: body.ids.map(id => ({ paperId: id, title: id })) };
+      },
+    } as unknown as AxiosInstance;
+    const queue = { add: (task: () => Promise<unknown>) => task() } as unknown as PQueue;
+    const ids = Array.from({ length: 501 }, (_, i) => `s2id${i}`);
+
+    const papers = await new SemanticScholarCitations(client, queue).getPapers(ids);
+
+    expect(papers.map(p => p.id)).toEqual(['s2id500']);
+  });
+});
+
+describe('semanticScholarPaper', () => {
+  it('should take IDs from PMID, then DOI, then the S2 paper ID', () => {
+    const item = {
+      paperId: 'abc123',
+      externalIds: { DOI: '10.1/x', PubMed: 31234567 },
+      title: 'Gut-brain axis',
+      abstract: null,
+      authors: [{ name: 'John Cryan' }],
+      year: 2019,
+      venue: 'Cell',
+      citationCount: 12,
+    };
+
+    expect(semanticScholarPaper(item)).toEqual({
+      id: '31234567',
+      title: 'Gut-brain axis',
+      abstract: '',
+      authors: ['John Cryan'],
+      year: 2019,
+      journal: 'Cell',
+      doi: '10.1/x',
+      pmid: '31234567',
+      citations: 12,
+    });
+    expect(semanticScholarPaper({ paperId: 'abc123', title: 'T' }).id).toBe('abc123');
+  });
+});
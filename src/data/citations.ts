@@ -0,0 +1,288 @@
+import { readFile } from 'fs/promises';
+import { parse } from 'csv-parse/sync';
+import type { AxiosInstance } from 'axios';
+import type PQueue from 'p-queue';
+import type { Paper } from '../types/index.js';
+
+/**
+ * Citation from one paper to another, by paper ID or DOI
+ */
+export interface CitationLink {
+  citing: string;
+  cited: string;
+}
+
+/**
+ * Source of paper metadata and reference lists
+ */
+export interface CitationSource {
+  /**
+   * Papers by DOI (or PMID); unknown IDs are left out
+   */
+  getPapers(ids: string[]): Promise<Paper[]>;
+
+  /**
+   * Papers cited by a paper (backward)
+   */
+  getReferences(id: string): Promise<Paper[]>;
+
+  /**
+   * Papers citing a paper (forward)
+   */
+  getCitations(id: string): Promise<Paper[]>;
+}
+
+/**
+ * Options for snowball expansion
+ */
+export interface SnowballOptions {
+  hops: number; // Citation steps away from the seeds
+  direction: 'backward' | 'forward' | 'both';
+  maxPapers: number; // Stop collecting beyond this many papers
+}
+
+export const DEFAULT_SNOWBALL_OPTIONS: SnowballOptions = {
+  hops: 1,
+  direction: 'both',
+  maxPapers: 500,
+};
+
+// Fields requested for every Semantic Scholar paper
+const S2_FIELDS = 'paperId,externalIds,title,abstract,authors,year,venue,citationCount';
+
+// Maximum IDs per Semantic Scholar batch request
+const S2_BATCH_SIZE = 500;
+
+// Maximum references or citations fetched per paper
+const S2_PAGE_SIZE = 1000;
+
+/**
+ * Semantic Scholar references and citations endpoints
+ * Requests go through the given rate-limited queue
+ */
+export class SemanticScholarCitations implements CitationSource {
+  private client: AxiosInstance;
+  private queue: PQueue;
+
+  constructor(client: AxiosInstance, queue: PQueue) {
+    this.client = client;
+    this.queue = queue;
+  }
+
+  /**
+   * Papers by DOI or PMID, fetched in batches
+   * A failed batch is reported and skipped; the other batches still return
+   */
+  async getPapers(ids: string[]): Promise<Paper[]> {
+    const papers: Paper[] = [];
+
+    for (let i = 0; i < ids.length; i += S2_BATCH_SIZE) {
+      const batch = ids.slice(i, i + S2_BATCH_SIZE);
+      let response;
+      try {
+        response = await this.queue.add(async () =>
+          this.client.post(
+            '/paper/batch',
+            { ids: batch.map(semanticScholarId) },
+            { params: { fields: S2_FIELDS } }
+          )
+        );
+      } catch (error) {
+        console.error(`Semantic Scholar batch lookup error (IDs ${i + 1}-${i + batch.length}):`, error);
+        continue;
+      }
+
+      for (const item of response?.data || []) {
+        if (item?.paperId) papers.push(semanticScholarPaper(item));
+      }
+    }
+
+    return papers;
+  }
+
+  async getReferences(id: string): Promise<Paper[]> {
+    return this.linked(id, 'references', 'citedPaper');
+  }
+
+  async getCitations(id: string): Promise<Paper[]> {
+    return this.linked(id, 'citations', 'citingPaper');
+  }
+
+  /**
+   * Helper: papers on the other end of a references/citations listing
+   */
+  private async linked(
+    id: string,
+    endpoint: 'references' | 'citations',
+    field: 'citedPaper' | 'citingPaper'
+  ): Promise<Paper[]> {
+    const response = await this.queue.add(async () =>
+      this.client.get(`/paper/${semanticScholarId(id)}/${endpoint}`, {
+        params: { fields: S2_FIELDS, limit: S2_PAGE_SIZE },
+      })
+    );
+
+    return (response?.data?.data || [])
+      .map((item: any) => item[field])
+      .filter((item: any) => item?.paperId)
+      .map(semanticScholarPaper);
+  }
+}
+
+/**
+ * Reference lists from a local CSV (`citing,cited` columns) over a corpus
+ * loaded with `loadCorpus`; only papers in the corpus are returned
+ */
+export class LocalCitations implements CitationSource {
+  private papers = new Map<string, Paper>();
+  private references = new Map<string, Set<string>>();
+  private citations = new Map<string, Set<string>>();
+
+  constructor(papers: Paper[], links: CitationLink[]) {
+    for (const paper of papers) {
+      this.papers.set(paper.id.toLowerCase(), paper);
+      if (paper.doi) this.papers.set(paper.doi.toLowerCase(), paper);
+      if (paper.pmid) this.papers.set(paper.pmid, paper);
+    }
+
+    for (const link of links) {
+      const citing = this.resolve(link.citing);
+      const cited = this.resolve(link.cited);
+      if (!citing || !cited) continue;
+
+      if (!this.references.has(citing.id)) this.references.set(citing.id, new Set());
+      this.references.get(citing.id)!.add(cited.id);
+      if (!this.citations.has(cited.id)) this.citations.set(cited.id, new Set());
+      this.citations.get(cited.id)!.add(citing.id);
+    }
+  }
+
+  async getPapers(ids: string[]): Promise<Paper[]> {
+    return ids.map(id => this.resolve(id)).filter((p): p is Paper => p !== undefined);
+  }
+
+  async getReferences(id: string): Promise<Paper[]> {
+    return this.getPapers(Array.from(this.references.get(this.resolve(id)?.id || '') || []));
+  }
+
+  async getCitations(id: string): Promise<Paper[]> {
+    return this.getPapers(Array.from(this.citations.get(this.resolve(id)?.id || '') || []));
+  }
+
+  /**
+   * Helper: paper by ID, DOI or PMID (DOIs are case-insensitive)
+   */
+  private resolve(id: string): Paper | undefined {
+    return this.papers.get(id.trim().toLowerCase());
+  }
+}
+
+/**
+ * Load citation links from a CSV with `citing` and `cited` columns
+ */
+export async function loadReferences(filePath: string): Promise<CitationLink[]> {
+  const content = await readFile(filePath, 'utf-8');
+  return parseReferences(content);
+}
+
+/**
+ * Parse citation links from CSV content with `citing` and `cited` columns
+ */
+export function parseReferences(content: string): CitationLink[] {
+  const records = parse(content, { columns: true, skip_empty_lines: true, trim: true });
+
+  return records
+    .map((record: any) => ({ citing: record.citing || '', cited: record.cited || '' }))
+    .filter((link: CitationLink) => link.citing && link.cited);
+}
+
+/**
+ * Expand seed papers along citations into a corpus
+ * Each hop adds the references (backward) and/or citing papers (forward) of
+ * the papers added in the previous hop. Collected papers carry the IDs of
+ * the papers they cite in `references`. A listing that fails (e.g. 404 or
+ * 429) is reported and skipped, keeping everything collected so far.
+ */
+export async function snowball(
+  seeds: string[],
+  source: CitationSource,
+  options: Partial<SnowballOptions> = {},
+  onHop?: (hop: number, collected: number) => void
+): Promise<Paper[]> {
+  const opts = { ...DEFAULT_SNOWBALL_OPTIONS, ...options };
+  const collected = new Map<string, Paper>();
+  const cite = (citing: Paper, citedId: string) => {
+    citing.references = Array.from(new Set([...(citing.references || []), citedId]));
+  };
+  const listing = async (paper: Paper, kind: 'references' | 'citations'): Promise<Paper[]> => {
+    try {
+      return kind === 'references' ? await source.getReferences(paper.id) : await source.getCitations(paper.id);
+    } catch (error) {
+      console.error(`Skipping ${kind} of ${paper.id}: ${(error as Error).message}`);
+      return [];
+    }
+  };
+
+  let frontier = (await source.getPapers(seeds)).slice(0, opts.maxPapers);
+  frontier.forEach(paper => collected.set(paper.id, paper));
+
+  for (let hop = 1; hop <= opts.hops && frontier.length > 0; hop++) {
+    const next: Paper[] = [];
+    const collect = (paper: Paper) => {
+      if (collected.has(paper.id) || collected.size >= opts.maxPapers) return;
+      collected.set(paper.id, paper);
+      next.push(paper);
+    };
+
+    for (const paper of frontier) {
+      if (opts.direction !== 'forward') {
+        for (const cited of await listing(paper, 'references')) {
+          cite(paper, cited.id);
+          collect(cited);
+        }
+      }
+
+      if (opts.direction !== 'backward') {
+        for (const citing of await listing(paper, 'citations')) {
+          cite(collected.get(citing.id) || citing, paper.id);
+          collect(citing);
+        }
+      }
+    }
+
+    onHop?.(hop, collected.size);
+    frontier = next;
+  }
+
+  return Array.from(collected.values());
+}
+
+/**
+ * Convert a Semantic Scholar paper object into a Paper
+ * IDs follow the corpus loaders: PMID, then DOI, then the S2 paper ID
+ */
+export function semanticScholarPaper(item: any): Paper {
+  const doi = item.externalIds?.DOI || undefined;
+  const pmid = item.externalIds?.PubMed ? String(item.externalIds.PubMed) : undefined;
+
+  return {
+    id: pmid || doi || item.paperId,
+    title: item.title || '',
+    abstract: item.abstract || '',
+    authors: item.authors?.map((a: any) => a.name).filter(Boolean) || [],
+    year: item.year || undefined,
+    journal: item.venue || undefined,
+    doi,
+    pmid,
+    citations: item.citationCount ?? undefined,
+  };
+}
+
+/**
+ * Helper: Semantic Scholar ID for a DOI, PMID or S2 paper ID
+ */
+function semanticScholarId(id: string): string {
+  if (/^10\.\d{4,}\//.test(id)) return `DOI:${id}`;
+  if (/^\d+$/.test(id)) return `PMID:${id}`;
+  return id;
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCorpus, detectFormat, loadCorpus } from './loaders.js';
+
+describe('detectFormat', () => {
+  it('should detect formats from extensions', () => {
+    expect(detectFormat('papers.ris', '')).toBe('ris');
+    expect(detectFormat('papers.bib', '')).toBe('bibtex');
+    expect(detectFormat('pubmed.xml', '')).toBe('pubmed_xml');
+    expect(detectFormat('papers.jsonl', '')).toBe('jsonl');
+  });
+
+  it('should fall back to content sniffing', () => {
+    expect(detectFormat('export.txt', 'TY  - JOUR\nTI  - A\nER  - ')).toBe('ris');
+    expect(detectFormat('export.txt', '@article{key, title={A}}')).toBe('bibtex');
+    expect(detectFormat('export.txt', 'title,abstract\nA,B')).toBe('csv');
+  });
+});
+
+describe('parseCorpus', () => {
+  it('should parse CSV and report records without a valid year', () => {
+    const csv = [
+      'title,abstract,authors,year,pmid,keywords,MeshHeadingList,citations',
+      '"Gut microbiome","Microbes and mood.","Smith, J.; Doe, A.",2021,123,"microbiome; mood","Depression",7',
+      '"No year","Abstract.","Roe, B.",,456,,,',
+    ].join('\n');
+
+    const { papers, errors } = parseCorpus(csv, 'csv');
+
+    expect(papers).toHaveLength(1);
+    expect(papers[0]).toMatchObject({
+      id: '123',
+      pmid: '123',
+      year: 2021,
+      authors: ['Smith, J.', 'Doe, A.'],
+      keywords: ['microbiome', 'mood'],
+      meshHeadings: ['Depression'],
+      citations: 7,
+    });
+    expect(errors).toEqual([{ record: 2, id: '456', message: 'missing year' }]);
+  });
+
+  it('should parse RIS records', () => {
+    const ris = [
+      'TY  - JOUR',
+      'TI  - Optogenetic control of circuits',
+      'AU  - Boyden, Ed',
+      'AU  - Zhang, Feng',
+      'PY  - 2005/08/14',
+      'JO  - Nature Neuroscience',
+      'AB  - Light-gated channels control neurons.',
+      'KW  - optogenetics',
+      'DO  - 10.1038/nn1525',
+      'ER  - ',
+    ].join('\n');
+
+    const { papers, errors } = parseCorpus(ris, 'ris');
+
+    expect(errors).toHaveLength(0);
+    expect(papers[0]).toMatchObject({
+      id: '10.1038/nn1525',
+      title: 'Optogenetic control of circuits',
+      authors: ['Boyden, Ed', 'Zhang, Feng'],
+      year: 2005,
+      journal: 'Nature Neuroscience',
+      keywords: ['optogenetics'],
+    });
+  });
+
+  it('should parse BibTeX entries with nested braces', () => {
+    const bib = `@comment{exported}
+@article{smith2020,
+  title = {A {CRISPR} screen for {N}eurodegeneration},
+  author = {Smith, Jane and Doe, Alex},
+  year = 2020,
+  journal = "Cell",
+  doi = {10.1016/j.cell.2020.01.001},
+  keywords = {CRISPR, neurodegeneration}
+}`;
+
+    const { papers } = parseCorpus(bib, 'bibtex');
+
+    expect(papers).toHaveLength(1);
+    expect(papers[0]).toMatchObject({
+      title: 'A CRISPR screen for Neurodegeneration',
+      authors: ['Smith, Jane', 'Doe, Alex'],
+      year: 2020,
+      journal: 'Cell',
+      doi: '10.1016/j.cell.2020.01.001',
+      keywords: ['CRISPR', 'neurodegeneration'],
+    });
+  });
+
+  it('should parse PubMed XML with MeSH headings', () => {
+    const xml = `<PubmedArticleSet>
+<PubmedArticle><MedlineCitation><PMID Version="1">31234567</PMID>
+<Article><Journal><Title>Brain Research</Title><JournalIssue><PubDate><Year>2019</Year><Month>Mar</Month></PubDate></JournalIssue></Journal>
+<ArticleTitle>Gut &amp; brain <i>axis</i></ArticleTitle>
+<Abstract><AbstractText Label="BACKGROUND">Microbes matter.</AbstractText><AbstractText>They signal.</AbstractText></Abstract>
+<AuthorList><Author><LastName>Cryan</LastName><ForeName>John</ForeName></Author></AuthorList></Article>
+<MeshHeadingList><MeshHeading><DescriptorName UI="D000069196">Gastrointestinal Microbiome</DescriptorName></MeshHeading></MeshHeadingList>
+</MedlineCitation><PubmedData><ArticleIdList><ArticleId IdType="doi">10.1/br.2019</ArticleId></ArticleIdList></PubmedData></PubmedArticle>
+</PubmedArticleSet>`;
+
+    const { papers } = parseCorpus(xml, 'pubmed_xml');
+
+    expect(papers[0]).toMatchObject({
+      id: '31234567',
+      title: 'Gut & brain axis',
+      abstract: 'Microbes matter. They signal.',
+      authors: ['Cryan, John'],
+      year: 2019,
+      journal: 'Brain Research',
+      doi: '10.1/br.2019',
+      meshHeadings: ['Gastrointestinal Microbiome'],
+    });
+  });
+
+  it('should parse JSON Lines and report malformed lines', () => {
+    const jsonl = [
+      JSON.stringify({ title: 'A', abstract: 'B', authors: [{ name: 'X' }], year: 2022, doi: '10.1/a', citationCount: 3 }),
+      '{not json',
+      JSON.stringify({ title: 'C', year: 1066 }),
+    ].join('\n');
+
+    const { papers, errors } = parseCorpus(jsonl, 'jsonl');
+
+    expect(papers).toEqual([
+      expect.objectContaining({ id: '10.1/a', authors: ['X'], year: 2022, citations: 3 }),
+    ]);
+    expect(errors.map(e => e.record)).toEqual([2, 3]);
+    expect(errors[1].message).toBe('invalid year "1066"');
+  });
+
+  it('should report JSON Lines values that are not objects', () => {
+    const jsonl = ['null', '3', '"x"', '[1]', JSON.stringify({ title: 'A', year: 2022 })].join('\n');
+
+    const { papers, errors } = parseCorpus(jsonl, 'jsonl');
+
+    expect(papers).toHaveLength(1);
+    expect(errors).toEqual([1, 2, 3, 4].map(record => ({ record, message: 'expected a JSON object' })));
+  });
+});
+
+describe('loadCorpus', () => {
+  it('should stream JSONL files and report progress', async () => {
+    const filePath = join(tmpdir(), `corpus-${Date.now()}.jsonl`);
+    const lines = Array.from({ length: 1500 }, (_, i) =>
+      JSON.stringify({ title: `Paper ${i}`, abstract: 'Text.', year: 2020, pmid: i + 1 })
+    );
+    await writeFile(filePath, [...lines, '{broken'].join('\n'));
+
+    const progress: number[] = [];
+    const { format, papers, errors } = await loadCorpus(filePath, undefined, n => progress.push(n));
+    await rm(filePath);
+
+    expect(format).toBe('jsonl');
+    expect(papers).toHaveLength(1500);
+    expect(papers[1499].id).toBe('1500');
+    expect(errors).toEqual([expect.objectContaining({ record: 1501 })]);
+    expect(progress).toEqual([1000, 1501]);
+  });
+});
@@ -0,0 +1,556 @@
+import { parse } from 'csv-parse/sync';
+import { parse as parseStream } from 'csv-parse';
+import { createReadStream } from 'fs';
+import { open, readFile, writeFile } from 'fs/promises';
+import { extname } from 'path';
+import { createInterface } from 'readline';
+import type { Paper } from '../types/index.js';
+
+/**
+ * Supported corpus file formats
+ */
+export type CorpusFormat = 'csv' | 'ris' | 'bibtex' | 'pubmed_xml' | 'jsonl';
+
+/**
+ * Validation problem with a single input record
+ */
+export interface RecordError {
+  record: number; // 1-based position in the file
+  id?: string;
+  message: string;
+}
+
+/**
+ * Result of loading a corpus file
+ */
+export interface CorpusLoadResult {
+  format: CorpusFormat;
+  papers: Paper[];
+  errors: RecordError[];
+}
+
+/**
+ * Format-neutral record produced by the individual parsers
+ */
+interface RawRecord {
+  id?: string; // Fallback when there is no PMID or DOI
+  title?: string;
+  abstract?: string;
+  authors?: string[];
+  year?: string;
+  unknownYear?: boolean; // Year given as null (JSON Lines): accepted as unknown
+  journal?: string;
+  doi?: string;
+  pmid?: string;
+  keywords?: string[];
+  meshHeadings?: string[];
+  citations?: string;
+  references?: string[];
+}
+
+// Records between progress callbacks
+const PROGRESS_INTERVAL = 1000;
+
+const CSV_OPTIONS = {
+  columns: true,
+  skip_empty_lines: true,
+  relax_column_count: true,
+};
+
+const EXTENSION_FORMATS: Record<string, CorpusFormat> = {
+  '.csv': 'csv',
+  '.ris': 'ris',
+  '.bib': 'bibtex',
+  '.bibtex': 'bibtex',
+  '.xml': 'pubmed_xml',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+};
+
+/**
+ * Detect the corpus format from the file extension, falling back to content
+ */
+export function detectFormat(filePath: string, content: string): CorpusFormat {
+  const byExtension = EXTENSION_FORMATS[extname(filePath).toLowerCase()];
+  if (byExtension) return byExtension;
+
+  const head = content.trimStart().slice(0, 1000);
+  if (head.startsWith('<')) return 'pubmed_xml';
+  if (head.startsWith('@')) return 'bibtex';
+  if (/^TY {2}- /m.test(head)) return 'ris';
+  if (head.startsWith('{')) return 'jsonl';
+  return 'csv';
+}
+
+/**
+ * Load papers from a corpus file in any supported format
+ * Invalid records are skipped and reported in `errors`. `onProgress` is
+ * called with the number of records read so far. Every paper is held in
+ * memory; use `streamCorpus` to handle records one at a time.
+ */
+export async function loadCorpus(
+  filePath: string,
+  format?: CorpusFormat,
+  onProgress?: (records: number) => void
+): Promise<CorpusLoadResult> {
+  const detected = format || detectFormat(filePath, await readHead(filePath));
+  const result: CorpusLoadResult = { format: detected, papers: [], errors: [] };
+  let count = 0;
+
+  for await (const item of streamCorpus(filePath, detected)) {
+    if ('message' in item) {
+      result.errors.push(item);
+    } else {
+      result.papers.push(item);
+    }
+    if (++count % PROGRESS_INTERVAL === 0) onProgress?.(count);
+  }
+  onProgress?.(count);
+
+  console.log(`Loaded ${result.papers.length} papers from ${filePath} (${detected})`);
+  if (result.errors.length > 0) {
+    console.warn(`  Skipped ${result.errors.length} invalid records:`);
+    result.errors.slice(0, 5).forEach(e => {
+      console.warn(`    - record ${e.record}${e.id ? ` (${e.id})` : ''}: ${e.message}`);
+    });
+    if (result.errors.length > 5) {
+      console.warn(`    ... and ${result.errors.length - 5} more`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stream papers (or validation errors) from a corpus file
+ * CSV and JSONL are parsed record by record without reading the whole file
+ * into memory; the other formats are parsed in one pass
+ */
+export async function* streamCorpus(
+  filePath: string,
+  format: CorpusFormat
+): AsyncGenerator<Paper | RecordError> {
+  let index = 0;
+
+  if (format === 'csv') {
+    const parser = createReadStream(filePath).pipe(parseStream(CSV_OPTIONS));
+    for await (const record of parser) {
+      yield toPaper(csvToRecord(record), index++);
+    }
+    return;
+  }
+
+  if (format === 'jsonl') {
+    const lines = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+    for await (const line of lines) {
+      const position = index++;
+      if (line.trim().length === 0) continue;
+
+      const record = jsonToRecord(line, position);
+      yield 'message' in record ? record : toPaper(record, position);
+    }
+    return;
+  }
+
+  const content = await readFile(filePath, 'utf-8');
+  const { papers, errors } = parseCorpus(content, format);
+  yield* papers;
+  yield* errors;
+}
+
+/**
+ * Parse corpus content in a known format
+ */
+export function parseCorpus(content: string, format: CorpusFormat): CorpusLoadResult {
+  const errors: RecordError[] = [];
+  let records: (RawRecord | RecordError)[];
+
+  switch (format) {
+    case 'csv':
+      records = parseCSVRecords(content);
+      break;
+    case 'ris':
+      records = parseRISRecords(content);
+      break;
+    case 'bibtex':
+      records = parseBibTeXRecords(content);
+      break;
+    case 'pubmed_xml':
+      records = parsePubMedXMLRecords(content);
+      break;
+    case 'jsonl':
+      records = parseJSONLRecords(content);
+      break;
+  }
+
+  const papers: Paper[] = [];
+  records.forEach((record, index) => {
+    if ('message' in record) {
+      errors.push(record);
+      return;
+    }
+
+    const paper = toPaper(record, index);
+    if ('message' in paper) {
+      errors.push(paper);
+    } else {
+      papers.push(paper);
+    }
+  });
+
+  return { format, papers, errors };
+}
+
+/**
+ * Validate a raw record and convert it into a Paper
+ */
+function toPaper(raw: RawRecord, index: number): Paper | RecordError {
+  const pmid = clean(raw.pmid);
+  const doi = clean(raw.doi);
+  const id = pmid || doi || clean(raw.id) || `paper_${index}`;
+  const title = clean(raw.title) || '';
+  const abstract = clean(raw.abstract) || '';
+
+  if (!title && !abstract) {
+    return { record: index + 1, id, message: 'missing both title and abstract' };
+  }
+
+  const year = parseYear(raw.year);
+  if (year === undefined && !raw.unknownYear) {
+    return {
+      record: index + 1,
+      id,
+      message: raw.year ? `invalid year "${raw.year}"` : 'missing year',
+    };
+  }
+
+  const citations = raw.citations ? parseInt(raw.citations) : undefined;
+
+  return {
+    id,
+    title,
+    abstract,
+    authors: raw.authors || [],
+    year,
+    journal: clean(raw.journal),
+    doi,
+    pmid,
+    keywords: raw.keywords && raw.keywords.length > 0 ? raw.keywords : undefined,
+    meshHeadings: raw.meshHeadings && raw.meshHeadings.length > 0 ? raw.meshHeadings : undefined,
+    citations: citations !== undefined && !isNaN(citations) ? citations : undefined,
+    references: raw.references && raw.references.length > 0 ? raw.references : undefined,
+  };
+}
+
+/**
+ * CSV with flexible column names (PubMed-style columns also recognized)
+ */
+function parseCSVRecords(content: string): RawRecord[] {
+  return parse(content, CSV_OPTIONS).map(csvToRecord);
+}
+
+function csvToRecord(record: any): RawRecord {
+  return {
+    title: record.title || record.ArticleTitle,
+    abstract: record.abstract || record.Abstract,
+    authors: splitAuthors(record.authors || record.AuthorList),
+    year: record.year || record.PubDate,
+    journal: record.journal || record.Journal,
+    doi: record.doi || record.DOI,
+    pmid: record.pmid || record.PMID,
+    keywords: splitList(record.keywords),
+    meshHeadings: splitList(record.mesh || record.MeshHeadingList),
+    citations: record.citations || record.citationCount,
+    references: splitList(record.references),
+  };
+}
+
+/**
+ * RIS (reference manager export)
+ */
+function parseRISRecords(content: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  let fields: Record<string, string[]> = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/);
+    if (!match) continue;
+
+    const [, tag, value = ''] = match;
+    if (tag === 'ER') {
+      records.push(risToRecord(fields));
+      fields = {};
+      continue;
+    }
+    if (!fields[tag]) fields[tag] = [];
+    fields[tag].push(value.trim());
+  }
+
+  return records;
+}
+
+function risToRecord(fields: Record<string, string[]>): RawRecord {
+  const first = (...tags: string[]) =>
+    tags.map(t => fields[t]?.[0]).find(v => v !== undefined && v.length > 0);
+  const pmid = first('AN', 'PM');
+
+  return {
+    title: first('TI', 'T1'),
+    abstract: first('AB', 'N2'),
+    authors: [...(fields.AU || []), ...(fields.A1 || [])],
+    year: first('PY', 'Y1', 'DA'),
+    journal: first('JO', 'JF', 'T2', 'JA'),
+    doi: first('DO'),
+    pmid: pmid && /^\d+$/.test(pmid) ? pmid : undefined,
+    keywords: fields.KW || [],
+  };
+}
+
+/**
+ * BibTeX entries (`@article{key, field = {value}, ...}`)
+ */
+function parseBibTeXRecords(content: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  const entryStart = /@(\w+)\s*\{/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(content)) !== null) {
+    const type = match[1].toLowerCase();
+    const bodyStart = entryStart.lastIndex;
+    const bodyEnd = findClosingBrace(content, bodyStart);
+    entryStart.lastIndex = bodyEnd;
+
+    if (['comment', 'preamble', 'string'].includes(type)) continue;
+
+    const fields = parseBibTeXFields(content.slice(bodyStart, bodyEnd));
+    records.push({
+      title: fields.title,
+      abstract: fields.abstract,
+      authors: fields.author ? fields.author.split(/\s+and\s+/).map(a => a.trim()) : [],
+      year: fields.year,
+      journal: fields.journal || fields.booktitle,
+      doi: fields.doi,
+      pmid: fields.pmid,
+      keywords: splitList(fields.keywords),
+      meshHeadings: splitList(fields.mesh),
+      citations: fields.citations,
+    });
+  }
+
+  return records;
+}
+
+function parseBibTeXFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  // Skip the citation key
+  let i = body.indexOf(',') + 1;
+
+  while (i > 0 && i < body.length) {
+    const nameMatch = /\s*([\w-]+)\s*=\s*/y;
+    nameMatch.lastIndex = i;
+    const m = nameMatch.exec(body);
+    if (!m) break;
+
+    const name = m[1].toLowerCase();
+    i = nameMatch.lastIndex;
+
+    let value: string;
+    if (body[i] === '{') {
+      const end = findClosingBrace(body, i + 1);
+      value = body.slice(i + 1, end - 1);
+      i = end;
+    } else if (body[i] === '"') {
+      const end = body.indexOf('"', i + 1);
+      value = body.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      const end = body.slice(i).search(/[,}]|$/);
+      value = body.slice(i, i + end);
+      i += end;
+    }
+
+    fields[name] = value.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+    const comma = body.indexOf(',', i);
+    i = comma === -1 ? body.length : comma + 1;
+  }
+
+  return fields;
+}
+
+/**
+ * Helper: index just past the brace closing the group opened before `start`
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}') depth--;
+    if (depth === 0) return i + 1;
+  }
+  return text.length;
+}
+
+/**
+ * MEDLINE/PubMed XML (efetch `PubmedArticleSet`)
+ */
+function parsePubMedXMLRecords(content: string): RawRecord[] {
+  const articles = content.match(/<PubmedArticle>[\s\S]*?<\/PubmedArticle>/g) || [];
+
+  return articles.map(article => {
+    const authors = (article.match(/<Author\b[^>]*>[\s\S]*?<\/Author>/g) || [])
+      .map(author => {
+        const last = xmlText(author, 'LastName');
+        const fore = xmlText(author, 'ForeName') || xmlText(author, 'Initials');
+        return last ? (fore ? `${last}, ${fore}` : last) : xmlText(author, 'CollectiveName');
+      })
+      .filter((a): a is string => !!a);
+
+    const pubDate = article.match(/<PubDate>[\s\S]*?<\/PubDate>/)?.[0] || '';
+
+    return {
+      title: xmlText(article, 'ArticleTitle'),
+      abstract: xmlTexts(article, 'AbstractText').join(' '),
+      authors,
+      year: xmlText(pubDate, 'Year') || xmlText(pubDate, 'MedlineDate'),
+      journal: xmlText(article, 'Title'),
+      doi: article.match(/<ArticleId IdType="doi">([\s\S]*?)<\/ArticleId>/)?.[1]?.trim(),
+      pmid: xmlText(article, 'PMID'),
+      keywords: xmlTexts(article, 'Keyword'),
+      meshHeadings: xmlTexts(article, 'DescriptorName'),
+    };
+  });
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  return xmlTexts(xml, tag)[0];
+}
+
+function xmlTexts(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern))
+    .map(m => decodeEntities(m[1].replace(/<[^>]+>/g, '')).trim())
+    .filter(t => t.length > 0);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_m, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * JSON Lines, one paper object per line
+ */
+function parseJSONLRecords(content: string): (RawRecord | RecordError)[] {
+  const records: (RawRecord | RecordError)[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length > 0) records.push(jsonToRecord(line, index));
+  });
+
+  return records;
+}
+
+function jsonToRecord(line: string, index: number): RawRecord | RecordError {
+  let item: any;
+  try {
+    item = JSON.parse(line);
+  } catch (error) {
+    return { record: index + 1, message: `invalid JSON: ${(error as Error).message}` };
+  }
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return { record: index + 1, message: 'expected a JSON object' };
+  }
+
+  return {
+    id: item.id ?? item.paperId,
+    title: item.title,
+    abstract: item.abstract,
+    authors: Array.isArray(item.authors)
+      ? item.authors.map((a: any) => (typeof a === 'string' ? a : a.name)).filter(Boolean)
+      : splitAuthors(item.authors),
+    year: item.year !== undefined && item.year !== null ? String(item.year) : undefined,
+    unknownYear: item.year === null,
+    journal: item.journal || item.venue,
+    doi: item.doi,
+    pmid: item.pmid !== undefined ? String(item.pmid) : undefined,
+    keywords: Array.isArray(item.keywords) ? item.keywords : splitList(item.keywords),
+    meshHeadings: Array.isArray(item.meshHeadings) ? item.meshHeadings : splitList(item.mesh),
+    citations: String(item.citations ?? item.citationCount ?? ''),
+    references: Array.isArray(item.references)
+      ? item.references.map((r: any) => (typeof r === 'string' ? r : r.id || r.doi || r.paperId)).filter(Boolean)
+      : splitList(item.references),
+  };
+}
+
+/**
+ * Write papers as JSON Lines that `loadCorpus` reads back unchanged
+ * An unknown year is written as null rather than left out, which the loader
+ * would reject as missing.
+ */
+export async function writeCorpusJSONL(filePath: string, papers: Paper[]): Promise<void> {
+  const lines = papers.map(paper => JSON.stringify({ ...paper, year: paper.year ?? null }));
+  await writeFile(filePath, lines.join('\n') + '\n');
+}
+
+/**
+ * Helper: extract a plausible publication year
+ */
+function parseYear(value?: string): number | undefined {
+  const match = value?.match(/\b(1[5-9]\d{2}|20\d{2})\b/);
+  if (!match) return undefined;
+
+  const year = parseInt(match[1]);
+  return year <= new Date().getFullYear() + 1 ? year : undefined;
+}
+
+/**
+ * Helper: first kilobyte of a file, for format sniffing
+ */
+async function readHead(filePath: string): Promise<string> {
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(1024);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).toString('utf-8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Helper: split a delimited list field
+ */
+function splitList(value?: string): string[] {
+  if (!value || typeof value !== 'string') return [];
+  return value
+    .split(/[;,]/)
+    .map(v => v.trim())
+    .filter(v => v.length > 0);
+}
+
+/**
+ * Helper: split an author list; with semicolons present, commas are part of
+ * "Last, First" names
+ */
+function splitAuthors(value?: string): string[] {
+  if (!value || typeof value !== 'string' || !value.includes(';')) return splitList(value);
+  return value
+    .split(';')
+    .map(v => v.trim())
+    .filter(v => v.length > 0);
+}
+
+/**
+ * Helper: trimmed string or undefined
+ */
+function clean(value?: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text.length > 0 ? text : undefined;
+}
@@ -2,6 +2,7 @@ import axios, { AxiosInstance } from 'axios';
 import PQueue from 'p-queue';
 import type { Paper, DataSource, NoveltyResult } from '../types/index.js';
 import { HealthcareMCPClient, type PubMedResult } from './healthcare-mcp-client.js';
+import { SemanticScholarCitations } from './citations.js';
 
 /**
  * External data retrieval service for scientific papers
@@ -363,22 +364,25 @@ export class DataRetrieval {
   }
 
   /**
-   * Retrieve papers by DOIs
+   * Retrieve papers by DOIs in batch requests
+   * A failed batch only loses its own DOIs
    */
   async getPapersByDOIs(dois: string[]): Promise<Paper[]> {
-    const papers: Paper[] = [];
+    const source = this.citationSource();
+    if (!source) return [];
 
-    for (const doi of dois) {
-      try {
-        const result = await this.searchSemanticScholar(`doi:${doi}`, 1);
-        if (result.length > 0) {
-          papers.push(result[0]);
-        }
-      } catch (error) {
-        console.error(`Error fetching DOI ${doi}:`, error);
-      }
-    }
+    return source.getPapers(dois);
+  }
+
+  /**
+   * Semantic Scholar references and citations, sharing this service's
+   * rate limit; undefined when Semantic Scholar is not configured
+   */
+  citationSource(): SemanticScholarCitations | undefined {
+    const client = this.clients.get('semantic_scholar');
+    const queue = this.queues.get('semantic_scholar');
+    if (!client || !queue) return undefined;
 
-    return papers;
+    return new SemanticScholarCitations(client, queue);
   }
 }
@@ -0,0 +1,57 @@
+import { bench, describe } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GraphBuilder } from './builder.js';
+
+// Corpus size; override with BENCH_PAPERS=10000 npm run bench for a quick run
+const PAPER_COUNT = parseInt(process.env.BENCH_PAPERS || '100000');
+const TERM_COUNT = 5000;
+
+/**
+ * Deterministic synthetic corpus: two-word pseudo-terms drawn from a skewed
+ * distribution, joined by relation cues and filler so that term ranking,
+ * co-occurrence and typed relations all do real work
+ */
+function writeSyntheticCorpus(filePath: string): void {
+  let state = 42;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+
+  const syllables = ['ka', 'lo', 'mi', 'ne', 'tor', 'vex', 'qua', 'zin', 'pra', 'sul', 'dre', 'fom'];
+  const word = () =>
+    Array.from({ length: 3 }, () => syllables[Math.floor(random() * syllables.length)]).join('');
+  const terms = Array.from({ length: TERM_COUNT }, () => `${word()} ${word()}`);
+  const term = () => terms[Math.floor(TERM_COUNT * random() ** 2)];
+  const templates = [
+    (a: string, b: string) => `The ${a} enables the ${b}.`,
+    (a: string, b: string) => `We studied ${a} and ${b} in vivo.`,
+    (a: string, b: string) => `Our ${a} inhibits ${b}.`,
+    (a: string, b: string) => `${a} was applied to ${b}.`,
+  ];
+
+  const rows = ['title,abstract,authors,year,pmid'];
+  for (let i = 0; i < PAPER_COUNT; i++) {
+    const sentences = Array.from({ length: 4 }, () =>
+      templates[Math.floor(random() * templates.length)](term(), term())
+    );
+    rows.push(`"${term()} and ${term()}","${sentences.join(' ')}","Author ${i % 997}",${2000 + (i % 25)},${i + 1}`);
+  }
+
+  writeFileSync(filePath, rows.join('\n'));
+}
+
+const corpusPath = join(mkdtempSync(join(tmpdir(), 'graph-bench-')), 'corpus.csv');
+writeSyntheticCorpus(corpusPath);
+
+describe('GraphBuilder', () => {
+  bench(
+    `buildGraph on a synthetic ${PAPER_COUNT}-paper corpus`,
+    async () => {
+      await new GraphBuilder().buildGraph(corpusPath);
+    },
+    { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 }
+  );
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { GraphBuilder } from './builder.js';
+import { writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GraphBuilder, type BuildProgress } from './builder.js';
+import { VocabularyExtractor } from './extractors.js';
+import { StatisticalTermExtractor } from './terms.js';
+import { saveSnapshot, loadSnapshot } from './snapshot.js';
+import { defaultConfig } from '../config/default.js';
+import { conceptNode } from '../test/fixtures.js';
 import type { Paper, ConceptNode } from '../types/index.js';
 
 describe('GraphBuilder', () => {
@@ -48,7 +56,7 @@ describe('GraphBuilder', () => {
         {
           id: 'paper1',
           title: 'A Novel Method for Quantum Computing',
-          abstract: 'We introduce a new algorithm for quantum state preparation.',
+          abstract: 'We introduce a variational algorithm for quantum state preparation.',
           authors: ['Researcher, A.'],
           year: 2024,
         },
@@ -62,6 +70,24 @@ describe('GraphBuilder', () => {
       expect(methodConcepts.length).toBeGreaterThan(0);
     });
 
+    it('should leave hedging words such as "new" out of concepts', () => {
+      const papers: Paper[] = [
+        {
+          id: 'paper1',
+          title: 'A Novel Method for Quantum Computing',
+          abstract: 'We introduce a new algorithm for quantum state preparation.',
+          authors: ['Researcher, A.'],
+          year: 2024,
+        },
+      ];
+
+      const labels = Array.from(builder.extractConcepts(papers).values()).map(c => c.label);
+
+      // "novel method" and "new algorithm" are generic phrasing, not concepts
+      expect(labels).toContain('quantum state preparation');
+      expect(labels.some(l => /\b(novel|new)\b/.test(l))).toBe(false);
+    });
+
     it('should track concept frequency across papers', () => {
       const papers: Paper[] = [
         {
@@ -90,6 +116,28 @@ describe('GraphBuilder', () => {
       expect(mlConcept).toBeDefined();
       expect(mlConcept!.papers.length).toBeGreaterThanOrEqual(1);
     });
+
+    it('should use the provided concept extractor', () => {
+      const vocabularyBuilder = new GraphBuilder(
+        new VocabularyExtractor([
+          { term: 'protein folding', synonyms: [], type: 'phenomenon' },
+        ])
+      );
+      const papers: Paper[] = [
+        {
+          id: 'paper1',
+          title: 'We present a model of protein folding',
+          abstract: 'We present a kinetic view of protein folding.',
+          authors: ['A'],
+          year: 2024,
+        },
+      ];
+
+      const concepts = vocabularyBuilder.extractConcepts(papers);
+
+      expect(Array.from(concepts.keys())).toEqual(['protein_folding']);
+      expect(concepts.get('protein_folding')!.type).toBe('phenomenon');
+    });
   });
 
   describe('buildRelationships', () => {
@@ -175,6 +223,314 @@ describe('GraphBuilder', () => {
     });
   });
 
+  describe('edge weighting', () => {
+    const concept = (id: string, papers: string[]) =>
+      conceptNode(id, { label: id, papers, frequency: papers.length });
+    const papers = Array.from({ length: 10 }, (_, i) => `p${i}`);
+    const concepts = new Map<string, ConceptNode>([
+      ['generic', concept('generic', papers)],
+      ['specific_a', concept('specific_a', ['p0', 'p1'])],
+      ['specific_b', concept('specific_b', ['p0', 'p1'])],
+    ]);
+
+    it('should take the scheme and threshold from graph config', () => {
+      const npmiBuilder = new GraphBuilder(undefined, {
+        ...defaultConfig.graphConfig,
+        edgeWeighting: 'npmi',
+        minEdgeWeight: 0.1,
+      });
+
+      const edges = npmiBuilder.buildRelationships(concepts);
+
+      // The concept present in every paper carries no information
+      expect(edges).toHaveLength(1);
+      expect(edges[0]).toMatchObject({
+        source: 'specific_a',
+        target: 'specific_b',
+        weight: 1,
+        weighting: 'npmi',
+      });
+    });
+
+    it('should keep overlap weighting by default', () => {
+      const edges = builder.buildRelationships(concepts);
+
+      expect(edges).toHaveLength(3);
+      expect(edges.every(e => e.weighting === 'overlap')).toBe(true);
+    });
+  });
+
+  describe('typed relations', () => {
+    it('should upgrade co-occurrence edges stated in a sentence', async () => {
+      const csvPath = join(tmpdir(), `typed-relations-${Date.now()}.csv`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Graphene oxide in cells","We show that graphene oxide enables electron transport in cells.","A",2024,p1',
+          '"Graphene oxide films","Graphene oxide films were studied alongside electron transport.","B",2024,p2',
+        ].join('\n')
+      );
+
+      const vocabularyBuilder = new GraphBuilder(
+        new VocabularyExtractor([
+          { term: 'graphene oxide', synonyms: [], type: 'material' },
+          { term: 'electron transport', synonyms: [], type: 'phenomenon' },
+        ])
+      );
+      const papers = await vocabularyBuilder.loadPapersFromCSV(csvPath);
+      await rm(csvPath);
+
+      const concepts = vocabularyBuilder.extractConcepts(papers);
+      const edges = vocabularyBuilder.buildRelationships(concepts);
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0]).toMatchObject({
+        source: 'graphene_oxide',
+        target: 'electron_transport',
+        type: 'enables',
+        evidence: ['p1', 'p2'],
+        confidence: 0.5,
+      });
+      expect(edges[0].evidenceSentences![0]).toContain('enables electron transport');
+    });
+  });
+
+  describe('buildGraph', () => {
+    it('should report progress for every stage', async () => {
+      const csvPath = join(tmpdir(), `build-progress-${Date.now()}.csv`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Gut microbiome","The gut microbiome shapes mood.","A",2021,p1',
+          '"Gut microbiome and sleep","The gut microbiome affects sleep quality.","B",2022,p2',
+        ].join('\n')
+      );
+
+      const progress: BuildProgress[] = [];
+      const graph = await builder.buildGraph(csvPath, p => progress.push(p));
+      await rm(csvPath);
+
+      expect(graph.metadata.paperCount).toBe(2);
+      expect(progress.map(p => p.stage)).toContain('loading');
+      expect(progress.map(p => p.stage)).toContain('relationships');
+      expect(progress.filter(p => p.stage === 'extracting').at(-1)).toEqual({
+        stage: 'extracting',
+        completed: 2,
+        total: 2,
+      });
+    });
+
+    it('should merge acronym concepts only where the acronym is written in capitals', async () => {
+      const csvPath = join(tmpdir(), `build-acronyms-${Date.now()}.csv`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Image classification","A convolutional neural network (CNN) classifies images.","A",2021,p1',
+          '"Pruning","The CNN was pruned for mobile devices.","B",2022,p2',
+          '"Search","Genetic algorithms (GAs) tune sensor layouts.","C",2022,p3',
+          '"Sensors","Sensors detect gas leaks in pipelines.","D",2023,p4',
+        ].join('\n')
+      );
+
+      const vocabularyBuilder = new GraphBuilder(
+        new VocabularyExtractor([
+          { term: 'convolutional neural network', synonyms: [], type: 'method' },
+          { term: 'CNN', synonyms: [], type: 'method' },
+          { term: 'genetic algorithm', synonyms: [], type: 'method' },
+          { term: 'gas', synonyms: [], type: 'material' },
+        ])
+      );
+      const graph = await vocabularyBuilder.buildGraph(csvPath);
+      await rm(csvPath);
+
+      expect(graph.nodes.has('cnn')).toBe(false);
+      expect(graph.nodes.get('convolutional_neural_network')!.papers.sort()).toEqual(['p1', 'p2']);
+      // "GAs" in p3 is the acronym, "gas" in p4 the word
+      expect(graph.nodes.get('genetic_algorithm')!.papers).toEqual(['p3']);
+      expect(graph.nodes.get('gas')!.papers).toEqual(['p4']);
+    });
+  });
+
+  describe('addPapers', () => {
+    it('should merge new papers into the existing graph', async () => {
+      const csvPath = join(tmpdir(), `add-papers-${Date.now()}.csv`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Microbes and mood","Gut microbiome and depression risk.","A",2020,p1',
+          '"Depression","Depression and inflammation markers.","B",2021,p2',
+        ].join('\n')
+      );
+
+      const vocabularyBuilder = new GraphBuilder(
+        new VocabularyExtractor([
+          { term: 'gut microbiome', synonyms: [], type: 'concept' },
+          { term: 'depression', synonyms: [], type: 'phenomenon' },
+          { term: 'inflammation', synonyms: [], type: 'phenomenon' },
+          { term: 'vagus nerve', synonyms: [], type: 'concept' },
+        ])
+      );
+      const knowledgeGraph = await vocabularyBuilder.buildGraph(csvPath);
+      await rm(csvPath);
+      const createdAt = knowledgeGraph.metadata.lastUpdated;
+
+      vocabularyBuilder.addPapers([
+        {
+          id: 'p3',
+          title: 'Vagus nerve signalling',
+          abstract: 'The gut microbiome reaches the brain through the vagus nerve.',
+          authors: ['C'],
+          year: 2024,
+        },
+      ]);
+
+      const graph = vocabularyBuilder.getGraph();
+      expect(knowledgeGraph.nodes.get('gut_microbiome')!.papers).toEqual(['p1', 'p3']);
+      expect(graph.getNodeAttribute('gut_microbiome', 'frequency')).toBe(2);
+      expect(graph.hasNode('vagus_nerve')).toBe(true);
+      expect(
+        graph.hasEdge('gut_microbiome', 'vagus_nerve') || graph.hasEdge('vagus_nerve', 'gut_microbiome')
+      ).toBe(true);
+      // Untouched edges keep their statistics
+      expect(graph.getEdgeAttributes('depression', 'inflammation').evidence).toEqual(['p2']);
+      expect(knowledgeGraph.edges).toHaveLength(graph.size);
+      expect(knowledgeGraph.metadata.paperCount).toBe(3);
+      expect(knowledgeGraph.metadata.lastUpdated.getTime()).toBeGreaterThanOrEqual(createdAt.getTime());
+    });
+
+    it('should extract terms new to a restored graph and count each paper once', async () => {
+      const csvPath = join(tmpdir(), `add-papers-restored-${Date.now()}.csv`);
+      const snapshotPath = join(tmpdir(), `add-papers-restored-${Date.now()}.json`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Gut microbiome","Gut microbiome and depression risk.","A",2020,p1',
+        ].join('\n')
+      );
+      const knowledgeGraph = await builder.buildGraph(csvPath);
+      await saveSnapshot(snapshotPath, builder.getGraph(), knowledgeGraph.metadata);
+      const snapshot = await loadSnapshot(snapshotPath);
+      await rm(csvPath);
+      await rm(snapshotPath);
+
+      const restored = new GraphBuilder();
+      restored.restoreGraph(snapshot.graph, snapshot.knowledgeGraph);
+      const paper: Paper = {
+        id: 'p2',
+        title: 'Vagus nerve stimulation',
+        abstract: 'Vagus nerve stimulation alters the gut microbiome.',
+        authors: ['B'],
+        year: 2024,
+      };
+      restored.addPapers([paper]);
+      restored.addPapers([paper]);
+
+      const updated = restored.getKnowledgeGraph()!;
+      expect(updated.nodes.get('vagus_nerve_stimulation')!.papers).toEqual(['p2']);
+      expect(updated.nodes.get('gut_microbiome')!.papers).toEqual(['p1', 'p2']);
+      expect(updated.metadata.paperCount).toBe(2);
+      expect(updated.metadata.yearCounts).toEqual({ 2020: 1, 2024: 1 });
+    });
+
+    it('should weight updates of a restored graph with the settings it was built with', async () => {
+      const csvPath = join(tmpdir(), `add-papers-settings-${Date.now()}.csv`);
+      const snapshotPath = join(tmpdir(), `add-papers-settings-${Date.now()}.json`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Gut microbiome","Gut microbiome and sleep quality.","A",2020,p1',
+          '"Sleep","Sleep quality and the gut microbiome.","B",2021,p2',
+          '"Depression","Depression risk in adolescents.","C",2022,p3',
+        ].join('\n')
+      );
+      const pmiBuilder = new GraphBuilder(new StatisticalTermExtractor({ minDocFrequency: 2 }), {
+        ...defaultConfig.graphConfig,
+        edgeWeighting: 'pmi',
+        minEdgeWeight: -10,
+      });
+      const knowledgeGraph = await pmiBuilder.buildGraph(csvPath);
+      await saveSnapshot(snapshotPath, pmiBuilder.getGraph(), knowledgeGraph.metadata);
+      const snapshot = await loadSnapshot(snapshotPath);
+      await rm(csvPath);
+      await rm(snapshotPath);
+
+      expect(snapshot.knowledgeGraph.metadata.buildSettings).toEqual({
+        edgeWeighting: 'pmi',
+        minEdgeWeight: -10,
+        significanceLevel: defaultConfig.graphConfig.significanceLevel,
+        minDocFrequency: 2,
+      });
+
+      const extractor = new StatisticalTermExtractor();
+      const restored = new GraphBuilder(extractor);
+      restored.restoreGraph(snapshot.graph, snapshot.knowledgeGraph);
+      restored.addPapers([
+        {
+          id: 'p4',
+          title: 'Gut microbiome and sleep quality',
+          abstract: 'Vagus nerve signals link the gut microbiome to sleep quality.',
+          authors: ['C'],
+          year: 2024,
+        },
+      ]);
+
+      const graph = restored.getGraph();
+      expect(graph.getEdgeAttributes('gut_microbiome', 'sleep_quality').weighting).toBe('pmi');
+      expect(extractor.getRankingOptions().minDocFrequency).toBe(2);
+      // Below the restored minimum document frequency
+      expect(graph.hasNode('vagus_nerve_signals')).toBe(false);
+    });
+
+    it('should re-add a paper stating a typed relation', async () => {
+      const csvPath = join(tmpdir(), `add-papers-relation-${Date.now()}.csv`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Graphene oxide in cells","We show that graphene oxide enables electron transport in cells.","A",2024,p1',
+        ].join('\n')
+      );
+      const vocabularyBuilder = new GraphBuilder(
+        new VocabularyExtractor([
+          { term: 'graphene oxide', synonyms: [], type: 'material' },
+          { term: 'electron transport', synonyms: [], type: 'phenomenon' },
+        ])
+      );
+      const snapshotPath = join(tmpdir(), `add-papers-relation-${Date.now()}.json`);
+      const [paper] = await vocabularyBuilder.loadPapersFromCSV(csvPath);
+      const built = await vocabularyBuilder.buildGraph(csvPath);
+      await saveSnapshot(snapshotPath, vocabularyBuilder.getGraph(), built.metadata);
+      const snapshot = await loadSnapshot(snapshotPath);
+      await rm(csvPath);
+      await rm(snapshotPath);
+
+      const restored = new GraphBuilder(
+        new VocabularyExtractor([{ term: 'graphene oxide', synonyms: [], type: 'material' }])
+      );
+      restored.restoreGraph(snapshot.graph, snapshot.knowledgeGraph);
+
+      for (const knowledgeGraph of [vocabularyBuilder.addPapers([paper]), restored.addPapers([paper])]) {
+        expect(knowledgeGraph.edges).toHaveLength(1);
+        expect(knowledgeGraph.edges[0]).toMatchObject({
+          source: 'graphene_oxide',
+          target: 'electron_transport',
+          type: 'enables',
+          evidence: ['p1'],
+        });
+      }
+    });
+
+    it('should require an existing graph', () => {
+      expect(() => builder.addPapers([])).toThrow(/No graph to update/);
+    });
+  });
+
   describe('getGraph', () => {
     it('should return a graphology instance', () => {
       const graph = builder.getGraph();
@@ -1,7 +1,50 @@
-import { parse } from 'csv-parse/sync';
-import { readFile } from 'fs/promises';
 import Graph from 'graphology';
-import type { Paper, ConceptNode, ConceptEdge, KnowledgeGraph } from '../types/index.js';
+import type {
+  Paper,
+  ConceptNode,
+  ConceptEdge,
+  KnowledgeGraph,
+  SystemConfig,
+  BuildSettings,
+} from '../types/index.js';
+import { defaultConfig } from '../config/default.js';
+import { loadCorpus, type CorpusFormat } from '../data/loaders.js';
+import { VocabularyExtractor, type ConceptExtractor } from './extractors.js';
+import { StatisticalTermExtractor } from './terms.js';
+import { RelationExtractor, type TypedRelation } from './relations.js';
+import { ConceptNormalizer, conceptSurfaceForms } from './normalize.js';
+import { edgeWeight } from './weighting.js';
+import { mergeYearCounts, yearHistogram } from './temporal.js';
+import { mergeSourceCounts, sourceHistogram } from './provenance.js';
+import { EntityLayer } from './entities.js';
+import { addConceptEdge, createConceptGraph, graphDensity } from './edges.js';
+import type { EmbeddingProvider } from './embeddings.js';
+
+// Supporting sentences kept per typed edge
+const MAX_EVIDENCE_SENTENCES = 5;
+
+// Papers between progress callbacks
+const PROGRESS_INTERVAL = 1000;
+
+/**
+ * Progress of a graph build, reported per stage
+ */
+export interface BuildProgress {
+  stage: 'loading' | 'extracting' | 'relationships';
+  completed: number;
+  total?: number; // Unknown while the corpus is still streaming
+}
+
+export type BuildProgressCallback = (progress: BuildProgress) => void;
+
+/**
+ * Corpus file merged into a graph under a source label
+ */
+export interface LabeledDataset {
+  label: string; // e.g. "materials" or "biology"
+  path: string;
+  format?: CorpusFormat; // Detected from the extension or content when omitted
+}
 
 /**
  * Knowledge graph builder from scientific literature
@@ -9,50 +52,109 @@ import type { Paper, ConceptNode, ConceptEdge, KnowledgeGraph } from '../types/i
 export class GraphBuilder {
   private graph: Graph;
   private papers: Map<string, Paper>;
-
-  constructor() {
-    this.graph = new Graph({ multi: false, type: 'directed' });
+  private knowledgeGraph?: KnowledgeGraph;
+  private entities?: EntityLayer;
+  private extractor: ConceptExtractor;
+  private relationExtractor: RelationExtractor;
+  private normalizer: ConceptNormalizer;
+  private config: SystemConfig['graphConfig'];
+
+  constructor(
+    extractor: ConceptExtractor = new StatisticalTermExtractor(),
+    config: SystemConfig['graphConfig'] = defaultConfig.graphConfig
+  ) {
+    this.graph = createConceptGraph();
     this.papers = new Map();
+    this.extractor = extractor;
+    this.config = config;
+    this.relationExtractor = new RelationExtractor();
+    this.normalizer = new ConceptNormalizer();
   }
 
   /**
-   * Load papers from CSV dataset
+   * Load papers from a corpus file (CSV, RIS, BibTeX, PubMed XML or JSONL)
+   * The format is detected from the extension or content unless given
    */
-  async loadPapersFromCSV(filePath: string): Promise<Paper[]> {
-    const content = await readFile(filePath, 'utf-8');
-    const records = parse(content, {
-      columns: true,
-      skip_empty_lines: true,
-      cast: true,
-    });
-
-    const papers: Paper[] = records.map((record: any, index: number) => ({
-      id: record.pmid || record.doi || `paper_${index}`,
-      title: record.title || record.ArticleTitle || '',
-      abstract: record.abstract || record.Abstract || '',
-      authors: this.parseAuthors(record.authors || record.AuthorList || ''),
-      year: parseInt(record.year || record.PubDate || '0'),
-      journal: record.journal || record.Journal || undefined,
-      doi: record.doi || record.DOI || undefined,
-      pmid: record.pmid || record.PMID || undefined,
-      keywords: this.parseKeywords(record.keywords || record.MeshHeadingList || ''),
-      citations: parseInt(record.citations || '0'),
-    }));
+  async loadPapers(
+    filePath: string,
+    format?: CorpusFormat,
+    onProgress?: BuildProgressCallback
+  ): Promise<Paper[]> {
+    const { papers } = await loadCorpus(filePath, format, completed =>
+      onProgress?.({ stage: 'loading', completed })
+    );
 
     papers.forEach(paper => this.papers.set(paper.id, paper));
-    console.log(`Loaded ${papers.length} papers from ${filePath}`);
     return papers;
   }
 
   /**
-   * Extract concepts from papers using NLP patterns
+   * Load several corpus files, labelling each paper with its dataset
+   * A paper found in an earlier dataset (same DOI or PMID) is kept once,
+   * under the first label; other ID clashes (e.g. row-number IDs of two CSV
+   * files) are resolved by prefixing the label
+   */
+  async loadLabeledPapers(
+    datasets: LabeledDataset[],
+    onProgress?: BuildProgressCallback
+  ): Promise<Paper[]> {
+    const papers: Paper[] = [];
+    let loaded = 0;
+
+    for (const dataset of datasets) {
+      const { papers: batch } = await loadCorpus(dataset.path, dataset.format, completed =>
+        onProgress?.({ stage: 'loading', completed: loaded + completed })
+      );
+      let duplicates = 0;
+
+      for (const paper of batch) {
+        paper.source = dataset.label;
+        const existing = this.papers.get(paper.id);
+        if (existing && existing.source !== dataset.label) {
+          if (paper.doi || paper.pmid) {
+            duplicates++;
+            continue;
+          }
+          paper.id = `${dataset.label}:${paper.id}`;
+        }
+
+        this.papers.set(paper.id, paper);
+        papers.push(paper);
+      }
+
+      loaded += batch.length;
+      if (duplicates > 0) {
+        console.log(`  Skipped ${duplicates} papers of ${dataset.label} already loaded from another dataset`);
+      }
+    }
+
+    return papers;
+  }
+
+  /**
+   * Load papers from CSV dataset
+   */
+  async loadPapersFromCSV(filePath: string): Promise<Paper[]> {
+    return this.loadPapers(filePath, 'csv');
+  }
+
+  /**
+   * Extract concepts from papers using the configured extractor
+   * Plural, hyphenation and acronym variants are merged into one concept
    */
-  extractConcepts(papers: Paper[]): Map<string, ConceptNode> {
+  extractConcepts(papers: Paper[], onProgress?: BuildProgressCallback): Map<string, ConceptNode> {
     const concepts = new Map<string, ConceptNode>();
 
-    for (const paper of papers) {
-      const text = `${paper.title} ${paper.abstract} ${paper.keywords?.join(' ') || ''}`;
-      const extractedConcepts = this.identifyConcepts(text, paper.id);
+    // Corpus-level pass (e.g. term ranking) before per-paper extraction
+    this.extractor.prepare?.(papers);
+
+    for (const [index, paper] of papers.entries()) {
+      if (index % PROGRESS_INTERVAL === 0) {
+        onProgress?.({ stage: 'extracting', completed: index, total: papers.length });
+      }
+
+      const text = this.paperText(paper);
+      const extractedConcepts = this.extractor.extract(text, paper.id);
 
       for (const concept of extractedConcepts) {
         if (!concepts.has(concept.id)) {
@@ -65,159 +167,238 @@ export class GraphBuilder {
       }
     }
 
-    console.log(`Extracted ${concepts.size} unique concepts from papers`);
-    return concepts;
+    onProgress?.({ stage: 'extracting', completed: papers.length, total: papers.length });
+
+    this.normalizer.learnAcronyms(papers);
+    const normalized = this.normalizer.normalize(concepts, papers);
+
+    const byId = new Map(papers.map(paper => [paper.id, paper]));
+    for (const concept of normalized.values()) {
+      concept.yearCounts = yearHistogram(concept.papers, byId);
+      concept.sourceCounts = sourceHistogram(concept.papers, byId);
+    }
+
+    console.log(`Extracted ${normalized.size} unique concepts from papers`);
+    return normalized;
   }
 
   /**
-   * Identify scientific concepts from text
-   * This uses pattern matching - can be enhanced with NER models
+   * Build concept relationships: co-occurrence edges, upgraded to typed,
+   * directed edges where a sentence states the relation explicitly
+   * Co-occurrence is counted from an inverted paper -> concepts index built
+   * from each concept's paper list, so the cost grows with the number of
+   * concept pairs per paper rather than papers x concepts
    */
-  private identifyConcepts(text: string, paperId: string): ConceptNode[] {
-    const concepts: ConceptNode[] = [];
-
-    // Common scientific term patterns
-    const patterns = {
-      method: /\b(method|technique|approach|algorithm|procedure|protocol|assay)\b/gi,
-      material: /\b(material|compound|protein|molecule|cell|tissue|polymer|composite)\b/gi,
-      theory: /\b(theory|model|hypothesis|framework|paradigm|principle)\b/gi,
-      phenomenon: /\b(effect|phenomenon|process|mechanism|pathway|interaction)\b/gi,
-    };
-
-    // Extract key phrases (2-4 word combinations)
-    const words = text.toLowerCase().match(/\b[a-z]+(?:-[a-z]+)?\b/g) || [];
-    const phrases: string[] = [];
+  buildRelationships(
+    concepts: Map<string, ConceptNode>,
+    onProgress?: BuildProgressCallback
+  ): ConceptEdge[] {
+    const edges: ConceptEdge[] = [];
+    const cooccurrence = new Map<string, Map<string, string[]>>();
+    const paperConcepts = this.indexPaperConcepts(concepts);
+    let completed = 0;
+
+    // Collect co-occurring papers for each concept pair
+    for (const [paperId, conceptIds] of paperConcepts) {
+      if (completed++ % PROGRESS_INTERVAL === 0) {
+        onProgress?.({ stage: 'relationships', completed, total: paperConcepts.size });
+      }
 
-    for (let i = 0; i < words.length - 1; i++) {
-      // Bigrams
-      phrases.push(`${words[i]} ${words[i + 1]}`);
-      // Trigrams
-      if (i < words.length - 2) {
-        phrases.push(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+      // Sorted IDs give each pair a single, stable direction
+      conceptIds.sort();
+      for (let i = 0; i < conceptIds.length; i++) {
+        const source = conceptIds[i];
+        if (!cooccurrence.has(source)) cooccurrence.set(source, new Map());
+        const targetMap = cooccurrence.get(source)!;
+
+        for (let j = i + 1; j < conceptIds.length; j++) {
+          const target = conceptIds[j];
+          if (!targetMap.has(target)) targetMap.set(target, []);
+          targetMap.get(target)!.push(paperId);
+        }
       }
     }
+    onProgress?.({ stage: 'relationships', completed, total: paperConcepts.size });
 
-    // Filter and classify phrases
-    const phraseFreq = new Map<string, number>();
-    phrases.forEach(phrase => {
-      phraseFreq.set(phrase, (phraseFreq.get(phrase) || 0) + 1);
-    });
+    // Concepts passed in directly may reference papers that were never loaded
+    const totalPapers = Math.max(this.papers.size, paperConcepts.size);
 
-    // Keep phrases that appear at least twice
-    for (const [phrase, freq] of phraseFreq) {
-      if (freq >= 2 && phrase.length > 5) {
-        const type = this.classifyConceptType(phrase, patterns);
-        const conceptId = this.normalizeConceptId(phrase);
-
-        concepts.push({
-          id: conceptId,
-          label: phrase,
-          type,
-          properties: {},
-          papers: [paperId],
-          frequency: freq,
-        });
+    // Create edges with weights
+    for (const [source, targets] of cooccurrence) {
+      const sourceConcept = concepts.get(source);
+      if (!sourceConcept) continue;
+
+      for (const [target, evidence] of targets) {
+        const targetConcept = concepts.get(target);
+        if (!targetConcept) continue;
+
+        const edge = this.cooccurrenceEdge(sourceConcept, targetConcept, evidence, totalPapers);
+        if (edge) edges.push(edge);
       }
     }
 
-    return concepts;
+    const relations = this.relationExtractor.extract(
+      Array.from(this.papers.values()),
+      concepts
+    );
+    const typedEdges = this.mergeTypedRelations(edges, relations, concepts);
+
+    console.log(`Built ${typedEdges.length} relationships between concepts`);
+    return typedEdges;
   }
 
   /**
-   * Classify concept type based on context
+   * Inverted index from paper ID to the concepts mentioned in it
    */
-  private classifyConceptType(
-    phrase: string,
-    patterns: Record<string, RegExp>
-  ): ConceptNode['type'] {
-    for (const [type, pattern] of Object.entries(patterns)) {
-      if (pattern.test(phrase)) {
-        return type as ConceptNode['type'];
+  private indexPaperConcepts(concepts: Map<string, ConceptNode>): Map<string, string[]> {
+    const paperConcepts = new Map<string, string[]>();
+
+    for (const concept of concepts.values()) {
+      for (const paperId of new Set(concept.papers)) {
+        if (!paperConcepts.has(paperId)) paperConcepts.set(paperId, []);
+        paperConcepts.get(paperId)!.push(concept.id);
       }
     }
-    return 'concept'; // default
+
+    return paperConcepts;
   }
 
   /**
-   * Build concept co-occurrence relationships
+   * Co-occurrence edge for a concept pair, weighted with the configured
+   * scheme, or undefined when the pair falls below `minEdgeWeight` (or fails
+   * the chi-square significance test)
    */
-  buildRelationships(concepts: Map<string, ConceptNode>): ConceptEdge[] {
-    const edges: ConceptEdge[] = [];
-    const cooccurrence = new Map<string, Map<string, number>>();
-
-    // Count co-occurrences in papers
-    for (const paper of this.papers.values()) {
-      const paperConcepts = Array.from(concepts.values())
-        .filter(c => c.papers.includes(paper.id))
-        .map(c => c.id);
-
-      // Create edges for all pairs
-      for (let i = 0; i < paperConcepts.length; i++) {
-        for (let j = i + 1; j < paperConcepts.length; j++) {
-          const source = paperConcepts[i];
-          const target = paperConcepts[j];
-
-          if (!cooccurrence.has(source)) {
-            cooccurrence.set(source, new Map());
-          }
-          const targetMap = cooccurrence.get(source)!;
-          targetMap.set(target, (targetMap.get(target) || 0) + 1);
-        }
-      }
-    }
-
-    // Create edges with weights
-    for (const [source, targets] of cooccurrence) {
-      const sourceConcept = concepts.get(source);
-      if (!sourceConcept) continue;
+  private cooccurrenceEdge(
+    source: ConceptNode,
+    target: ConceptNode,
+    evidence: string[],
+    totalPapers: number
+  ): ConceptEdge | undefined {
+    const { edgeWeighting, significanceLevel, minEdgeWeight } = this.config;
+    const count = evidence.length;
+    const weight = edgeWeight(
+      {
+        both: count,
+        source: new Set(source.papers).size,
+        target: new Set(target.papers).size,
+        total: totalPapers,
+      },
+      edgeWeighting,
+      significanceLevel
+    );
+    const confidence = count / Math.max(source.frequency, target.frequency);
+
+    if (weight === undefined || weight <= minEdgeWeight) return undefined;
+
+    return {
+      source: source.id,
+      target: target.id,
+      type: 'relates_to',
+      weight,
+      confidence,
+      evidence,
+      weighting: edgeWeighting,
+      yearCounts: yearHistogram(evidence, this.papers),
+      sourceCounts: sourceHistogram(evidence, this.papers),
+    };
+  }
 
-      for (const [target, count] of targets) {
-        const targetConcept = concepts.get(target);
-        if (!targetConcept) continue;
+  /**
+   * Replace co-occurrence edges with typed edges for pairs that have
+   * sentence-level relations; the best-supported relation type wins
+   */
+  private mergeTypedRelations(
+    edges: ConceptEdge[],
+    relations: TypedRelation[],
+    concepts: Map<string, ConceptNode>
+  ): ConceptEdge[] {
+    if (relations.length === 0) return edges;
+
+    const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+    // Group supporting sentences by pair, then by directed type
+    const grouped = new Map<string, Map<string, TypedRelation[]>>();
+    for (const relation of relations) {
+      const key = pairKey(relation.source, relation.target);
+      if (!grouped.has(key)) grouped.set(key, new Map());
+      const byType = grouped.get(key)!;
+      const typeKey = `${relation.source}|${relation.target}|${relation.type}`;
+      if (!byType.has(typeKey)) byType.set(typeKey, []);
+      byType.get(typeKey)!.push(relation);
+    }
 
-        // Calculate edge weight based on co-occurrence frequency
-        const weight = count / Math.min(sourceConcept.frequency, targetConcept.frequency);
-        const confidence = count / Math.max(sourceConcept.frequency, targetConcept.frequency);
-
-        if (weight > 0.1) {
-          // Threshold for significance
-          const evidence = Array.from(this.papers.values())
-            .filter(p =>
-              sourceConcept.papers.includes(p.id) &&
-              targetConcept.papers.includes(p.id)
-            )
-            .map(p => p.id);
-
-          edges.push({
-            source,
-            target,
-            type: 'relates_to',
-            weight,
-            confidence,
-            evidence,
-          });
-        }
+    const cooccurrence = new Map(edges.map(e => [pairKey(e.source, e.target), e]));
+    const merged = edges.filter(e => !grouped.has(pairKey(e.source, e.target)));
+
+    for (const [key, byType] of grouped) {
+      const base = cooccurrence.get(key);
+
+      // Already typed (incremental update): keep the type, add new statements
+      if (base && base.type !== 'relates_to') {
+        const same = byType.get(`${base.source}|${base.target}|${base.type}`) || [];
+        const sentences = new Set([
+          ...(base.evidenceSentences || []),
+          ...same.map(r => r.sentence),
+        ]);
+        merged.push({
+          ...base,
+          evidenceSentences: Array.from(sentences).slice(0, MAX_EVIDENCE_SENTENCES),
+        });
+        continue;
       }
+
+      const support = Array.from(byType.values()).sort((a, b) => b.length - a.length)[0];
+      const { source, target, type } = support[0];
+      const papers = Array.from(new Set(support.map(r => r.paperId)));
+      const sentences = Array.from(new Set(support.map(r => r.sentence)));
+      const minFrequency = Math.min(
+        concepts.get(source)?.frequency ?? 1,
+        concepts.get(target)?.frequency ?? 1
+      );
+
+      merged.push({
+        source,
+        target,
+        type,
+        // Explicitly stated relations are kept even below the co-occurrence threshold
+        weight: base?.weight ?? Math.min(papers.length / minFrequency, 1),
+        weighting: base?.weighting ?? 'overlap',
+        yearCounts: base?.yearCounts ?? yearHistogram(papers, this.papers),
+        sourceCounts: base ? base.sourceCounts : sourceHistogram(papers, this.papers),
+        // Share of co-occurring papers that state this relation
+        confidence: base ? Math.min(papers.length / base.evidence.length, 1) : 1,
+        evidence: base?.evidence ?? papers,
+        evidenceSentences: sentences.slice(0, MAX_EVIDENCE_SENTENCES),
+      });
     }
 
-    console.log(`Built ${edges.length} relationships between concepts`);
-    return edges;
+    return merged;
   }
 
   /**
    * Build the complete knowledge graph
+   * Several labeled datasets are merged into one graph whose concepts and
+   * edges count their supporting papers per source.
+   * `onProgress` is called periodically during loading, concept extraction
+   * and relationship building
    */
-  async buildGraph(csvPath: string): Promise<KnowledgeGraph> {
+  async buildGraph(
+    datasets: string | LabeledDataset[],
+    onProgress?: BuildProgressCallback
+  ): Promise<KnowledgeGraph> {
     console.log('Building knowledge graph...');
 
     // Load papers
-    const papers = await this.loadPapersFromCSV(csvPath);
+    const papers =
+      typeof datasets === 'string'
+        ? await this.loadPapers(datasets, undefined, onProgress)
+        : await this.loadLabeledPapers(datasets, onProgress);
 
     // Extract concepts
-    const concepts = this.extractConcepts(papers);
+    const concepts = this.extractConcepts(papers, onProgress);
 
     // Build relationships
-    const edges = this.buildRelationships(concepts);
+    const edges = this.buildRelationships(concepts, onProgress);
 
     // Add to graphology instance
     for (const concept of concepts.values()) {
@@ -226,13 +407,17 @@ export class GraphBuilder {
 
     for (const edge of edges) {
       try {
-        this.graph.addEdge(edge.source, edge.target, edge);
+        addConceptEdge(this.graph, edge);
       } catch (e) {
         // Edge might already exist, skip
       }
     }
 
-    const knowledgeGraph: KnowledgeGraph = {
+    if (this.config.entityLayer) {
+      this.entities = EntityLayer.build(papers, concepts);
+    }
+
+    this.knowledgeGraph = {
       nodes: concepts,
       edges,
       metadata: {
@@ -240,51 +425,308 @@ export class GraphBuilder {
         conceptCount: concepts.size,
         createdAt: new Date(),
         lastUpdated: new Date(),
+        yearCounts: yearHistogram(papers.map(p => p.id), this.papers),
+        sourceCounts: sourceHistogram(papers.map(p => p.id), this.papers),
+        buildSettings: this.buildSettings(),
       },
     };
 
     console.log('Knowledge graph built successfully!');
     console.log(`  Papers: ${papers.length}`);
+    if (this.knowledgeGraph.metadata.sourceCounts) {
+      const sources = Object.entries(this.knowledgeGraph.metadata.sourceCounts);
+      console.log(`  Sources: ${sources.map(([label, count]) => `${label} (${count})`).join(', ')}`);
+    }
     console.log(`  Concepts: ${concepts.size}`);
     console.log(`  Relationships: ${edges.length}`);
-    console.log(`  Graph density: ${(edges.length / (concepts.size * (concepts.size - 1))).toFixed(6)}`);
+    console.log(`  Graph density: ${graphDensity(this.graph).toFixed(6)}`);
+    if (this.entities) {
+      const counts = this.entities.counts();
+      console.log(`  Authors: ${counts.author}, Venues: ${counts.venue}`);
+    }
+
+    return this.knowledgeGraph;
+  }
+
+  /**
+   * Compute embeddings for every concept and store them on the nodes
+   * Corpus-based providers depend on the whole graph, so all concepts are
+   * re-embedded (e.g. after `addPapers`)
+   */
+  async embedConcepts(provider: EmbeddingProvider): Promise<void> {
+    const knowledgeGraph = this.knowledgeGraph;
+    if (!knowledgeGraph) {
+      throw new Error('No graph to embed. Build or restore a graph first.');
+    }
+
+    const concepts = Array.from(knowledgeGraph.nodes.values());
+    const vectors = await provider.embed(concepts);
+
+    concepts.forEach((concept, i) => {
+      concept.embedding = vectors[i];
+      if (this.graph.hasNode(concept.id)) {
+        this.graph.setNodeAttribute(concept.id, 'embedding', vectors[i]);
+      }
+    });
+
+    console.log(`Embedded ${concepts.length} concepts (${provider.name}, ${vectors[0]?.length ?? 0} dimensions)`);
+  }
+
+  /**
+   * Add new papers to the existing graph in place
+   * Concepts are matched against the labels already in the graph and with
+   * the configured extractor; corpus-level extractors rank terms again over
+   * every loaded paper, which after restoring a snapshot is the new batch.
+   * Only edges touching concepts found in the new papers are recomputed.
+   */
+  addPapers(papers: Paper[]): KnowledgeGraph {
+    const knowledgeGraph = this.knowledgeGraph;
+    if (!knowledgeGraph) {
+      throw new Error('No graph to update. Build or restore a graph first.');
+    }
+
+    const concepts = knowledgeGraph.nodes;
+    const existingLabels = new VocabularyExtractor(
+      Array.from(concepts.values()).map(c => ({
+        term: c.label,
+        synonyms: conceptSurfaceForms(c).slice(1),
+        type: c.type,
+      }))
+    );
+    const affected = new Set<string>();
+
+    // Papers already loaded are merged again but not counted twice
+    const newPaperIds = Array.from(new Set(papers.map(p => p.id))).filter(id => !this.papers.has(id));
+    papers.forEach(paper => this.papers.set(paper.id, paper));
+
+    this.normalizer.learnAcronyms(papers);
+    this.extractor.prepare?.(Array.from(this.papers.values()));
+
+    // Merge concepts into existing nodes or add new ones
+    for (const paper of papers) {
+      const text = this.paperText(paper);
+      const extracted = new Map<string, ConceptNode>();
+      const written = this.normalizer.writtenAcronyms(text);
+      for (const concept of [
+        ...existingLabels.extract(text, paper.id),
+        ...this.extractor.extract(text, paper.id),
+      ]) {
+        const label = this.normalizer.canonicalLabel(concept.label, written);
+        const id = this.normalizer.canonicalId(concept.label, written);
+        if (!extracted.has(id)) extracted.set(id, { ...concept, id, label });
+      }
+      for (const conceptId of this.normalizer.acronymMentions(text).keys()) {
+        const concept = concepts.get(conceptId);
+        if (concept && !extracted.has(conceptId)) {
+          extracted.set(conceptId, { ...concept, papers: [paper.id], frequency: 1 });
+        }
+      }
+
+      for (const concept of extracted.values()) {
+        const existing = concepts.get(concept.id);
+        if (!existing) {
+          concept.yearCounts = yearHistogram([paper.id], this.papers);
+          concept.sourceCounts = paper.source ? { [paper.source]: 1 } : undefined;
+          concepts.set(concept.id, concept);
+          this.graph.addNode(concept.id, concept);
+        } else if (!existing.papers.includes(paper.id)) {
+          existing.papers.push(paper.id);
+          existing.frequency++;
+          existing.yearCounts = mergeYearCounts(existing.yearCounts, yearHistogram([paper.id], this.papers));
+          existing.sourceCounts = mergeSourceCounts(
+            existing.sourceCounts,
+            paper.source ? { [paper.source]: 1 } : undefined
+          );
+          this.graph.replaceNodeAttributes(concept.id, existing);
+        } else {
+          continue;
+        }
+        affected.add(concept.id);
+      }
+
+      this.entities?.addPaper(
+        paper,
+        Array.from(extracted.keys()).map(id => concepts.get(id)!)
+      );
+    }
+
+    // Recompute co-occurrence for every pair involving an affected concept
+    const paperConcepts = this.indexPaperConcepts(concepts);
 
+    const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+    const recomputed = new Map<string, ConceptEdge | undefined>();
+    const totalPapers = knowledgeGraph.metadata.paperCount + newPaperIds.length;
+
+    for (const conceptId of affected) {
+      const concept = concepts.get(conceptId)!;
+      const evidence = new Map<string, string[]>();
+
+      for (const paperId of concept.papers) {
+        for (const other of paperConcepts.get(paperId) || []) {
+          if (other === conceptId) continue;
+          if (!evidence.has(other)) evidence.set(other, []);
+          evidence.get(other)!.push(paperId);
+        }
+      }
+
+      for (const [other, papersWithBoth] of evidence) {
+        const key = pairKey(conceptId, other);
+        if (recomputed.has(key)) continue;
+
+        const existing = this.findEdge(conceptId, other);
+        const edge = this.cooccurrenceEdge(
+          concept,
+          concepts.get(other)!,
+          papersWithBoth,
+          totalPapers
+        );
+
+        // Papers from earlier builds may not be loaded, so histories are extended
+        const previous = new Set(existing?.evidence || []);
+        const added = papersWithBoth.filter(id => !previous.has(id));
+        const yearCounts = mergeYearCounts(existing?.yearCounts, yearHistogram(added, this.papers));
+        const sourceCounts = mergeSourceCounts(existing?.sourceCounts, sourceHistogram(added, this.papers));
+
+        if (existing && existing.type !== 'relates_to') {
+          // Typed edges survive; only their co-occurrence statistics change
+          recomputed.set(key, {
+            ...existing,
+            weight: edge?.weight ?? existing.weight,
+            evidence: papersWithBoth,
+            yearCounts,
+            sourceCounts,
+          });
+        } else if (edge && existing) {
+          // Keep the original direction of existing co-occurrence edges
+          recomputed.set(key, {
+            ...edge,
+            source: existing.source,
+            target: existing.target,
+            yearCounts,
+            sourceCounts,
+          });
+        } else {
+          recomputed.set(key, edge);
+        }
+      }
+    }
+
+    // Typed relations stated in the new papers; papers already in the graph
+    // restate relations that their edges hold, on pairs not recomputed
+    const relations = this.relationExtractor
+      .extract(papers, concepts)
+      .filter(relation => recomputed.has(pairKey(relation.source, relation.target)));
+    const updatedEdges = this.mergeTypedRelations(
+      Array.from(recomputed.values()).filter((e): e is ConceptEdge => e !== undefined),
+      relations,
+      concepts
+    );
+
+    for (const key of recomputed.keys()) {
+      const [a, b] = key.split('|');
+      if (this.graph.hasEdge(a, b)) this.graph.dropEdge(a, b);
+      if (this.graph.hasEdge(b, a)) this.graph.dropEdge(b, a);
+    }
+    for (const edge of updatedEdges) {
+      addConceptEdge(this.graph, edge);
+    }
+
+    knowledgeGraph.edges = this.graph.mapEdges((_edgeId, attrs) => attrs as ConceptEdge);
+    knowledgeGraph.metadata.paperCount += newPaperIds.length;
+    knowledgeGraph.metadata.yearCounts = mergeYearCounts(
+      knowledgeGraph.metadata.yearCounts,
+      yearHistogram(newPaperIds, this.papers)
+    );
+    knowledgeGraph.metadata.sourceCounts = mergeSourceCounts(
+      knowledgeGraph.metadata.sourceCounts,
+      sourceHistogram(newPaperIds, this.papers)
+    );
+    knowledgeGraph.metadata.conceptCount = concepts.size;
+    knowledgeGraph.metadata.lastUpdated = new Date();
+
+    console.log(
+      `Added ${papers.length} papers: ${affected.size} concepts and ${updatedEdges.length} relationships updated`
+    );
     return knowledgeGraph;
   }
 
   /**
-   * Get the graphology instance for analysis
+   * Helper: edge between two concepts in either direction
    */
-  getGraph(): Graph {
-    return this.graph;
+  private findEdge(a: string, b: string): ConceptEdge | undefined {
+    if (this.graph.hasEdge(a, b)) return this.graph.getEdgeAttributes(a, b) as ConceptEdge;
+    if (this.graph.hasEdge(b, a)) return this.graph.getEdgeAttributes(b, a) as ConceptEdge;
+    return undefined;
+  }
+
+  /**
+   * Replace the builder's graph with a previously built one (e.g. a snapshot)
+   */
+  restoreGraph(graph: Graph, knowledgeGraph: KnowledgeGraph, entities?: EntityLayer): void {
+    this.graph = graph;
+    this.knowledgeGraph = knowledgeGraph;
+    this.entities = entities;
+
+    // Updates weight, prune and rank like the original build
+    const settings = knowledgeGraph.metadata.buildSettings;
+    if (settings) {
+      const { edgeWeighting, minEdgeWeight, significanceLevel, minDocFrequency } = settings;
+      this.config = { ...this.config, edgeWeighting, minEdgeWeight, significanceLevel };
+      if (minDocFrequency !== undefined && this.extractor instanceof StatisticalTermExtractor) {
+        this.extractor.setRankingOptions({ minDocFrequency });
+      }
+    }
+  }
+
+  /**
+   * Helper: settings recorded with a newly built graph
+   */
+  private buildSettings(): BuildSettings {
+    const { edgeWeighting, minEdgeWeight, significanceLevel } = this.config;
+    return {
+      edgeWeighting,
+      minEdgeWeight,
+      significanceLevel,
+      ...(this.extractor instanceof StatisticalTermExtractor && {
+        minDocFrequency: this.extractor.getRankingOptions().minDocFrequency,
+      }),
+    };
+  }
+
+  /**
+   * Get the knowledge graph built or restored most recently
+   */
+  getKnowledgeGraph(): KnowledgeGraph | undefined {
+    return this.knowledgeGraph;
+  }
+
+  /**
+   * Get the author/venue/paper layer, when `entityLayer` is enabled
+   */
+  getEntityLayer(): EntityLayer | undefined {
+    return this.entities;
   }
 
   /**
-   * Helper: parse author list
+   * Get the papers loaded in this session, by ID (none after `restoreGraph`
+   * until papers are added)
    */
-  private parseAuthors(authorStr: string): string[] {
-    if (!authorStr) return [];
-    return authorStr
-      .split(/[;,]/)
-      .map(a => a.trim())
-      .filter(a => a.length > 0);
+  getPapers(): Map<string, Paper> {
+    return this.papers;
   }
 
   /**
-   * Helper: parse keywords
+   * Get the graphology instance for analysis
    */
-  private parseKeywords(keywordStr: string): string[] {
-    if (!keywordStr) return [];
-    return keywordStr
-      .split(/[;,]/)
-      .map(k => k.trim())
-      .filter(k => k.length > 0);
+  getGraph(): Graph {
+    return this.graph;
   }
 
   /**
-   * Helper: normalize concept ID
+   * Helper: text used for concept extraction
    */
-  private normalizeConceptId(phrase: string): string {
-    return phrase.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
+  private paperText(paper: Paper): string {
+    const terms = [...(paper.keywords || []), ...(paper.meshHeadings || [])];
+    return `${paper.title} ${paper.abstract} ${terms.join(' ')}`;
   }
 }
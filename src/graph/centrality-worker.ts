@@ -0,0 +1,8 @@
+import { parentPort, workerData } from 'worker_threads';
+import { computeBetweenness, graphFromWorkerData } from './centrality.js';
+
+/**
+ * Worker thread entry for `computeBetweennessInWorker`
+ */
+const graph = graphFromWorkerData(workerData.graph);
+parentPort!.postMessage(computeBetweenness(graph, workerData.options));
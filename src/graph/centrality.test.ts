@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import betweennessCentrality from 'graphology-metrics/centrality/betweenness';
+import { approximateBetweenness, computeBetweenness, graphFromWorkerData } from './centrality.js';
+import { GraphReasoner } from './reasoner.js';
+import { defaultConfig } from '../config/default.js';
+import { conceptEdge, conceptGraph } from '../test/fixtures.js';
+import type { ConceptEdge } from '../types/index.js';
+
+/**
+ * Binary tree of `size` concepts (c0 at the root) with unequal weights and a
+ * few typed edges, so shortest paths depend on weight and direction
+ */
+function sampleGraph(size: number) {
+  const ids = Array.from({ length: size }, (_, i) => `c${i}`);
+  return conceptGraph(ids, [
+    ...ids.slice(1).map((id, index) =>
+      conceptEdge(`c${Math.floor(index / 2)}`, id, {
+        weight: 1 + ((index + 1) % 3),
+        type: (index + 1) % 7 === 0 ? 'enables' : 'relates_to',
+      })
+    ),
+    conceptEdge('c3', 'c4'),
+  ]);
+}
+
+describe('approximateBetweenness', () => {
+  it('should match exact betweenness when every concept is a pivot', () => {
+    const graph = sampleGraph(40);
+    const exact = betweennessCentrality(graph);
+    const approximate = approximateBetweenness(graph, 40);
+
+    for (const id of graph.nodes()) expect(approximate[id]).toBeCloseTo(exact[id], 10);
+  });
+
+  it('should estimate the scores of central concepts from a sample of pivots', () => {
+    const graph = sampleGraph(400);
+    const exact = betweennessCentrality(graph);
+    const approximate = approximateBetweenness(graph, 100, 7);
+
+    for (const id of ['c0', 'c1', 'c2']) expect(Math.abs(approximate[id] - exact[id])).toBeLessThan(0.1);
+    expect(approximateBetweenness(graph, 100, 7)).toEqual(approximate);
+  });
+});
+
+describe('computeBetweenness', () => {
+  it('should switch to sampling above the exact limit', () => {
+    const graph = sampleGraph(60);
+
+    expect(computeBetweenness(graph, { exactLimit: 100 })).toMatchObject({ approximate: false });
+    expect(computeBetweenness(graph, { exactLimit: 50, samples: 20 })).toMatchObject({ approximate: true, samples: 20 });
+    // Asking for at least as many pivots as concepts is the exact computation
+    expect(computeBetweenness(graph, { exactLimit: 50, samples: 60 }).approximate).toBe(false);
+  });
+
+  it('should give the same scores on the graph rebuilt in the worker', () => {
+    const graph = sampleGraph(60);
+    const rebuilt = graphFromWorkerData({
+      nodes: graph.nodes(),
+      edges: graph.mapEdges((_edge, attrs, source, target, _s, _t, undirected) => [
+        source,
+        target,
+        (attrs as ConceptEdge).weight,
+        undirected,
+      ]),
+    });
+    const options = { exactLimit: 50, samples: 20 };
+
+    expect(computeBetweenness(rebuilt, options)).toEqual(computeBetweenness(graph, options));
+  });
+});
+
+describe('GraphReasoner centrality in a worker thread', () => {
+  it('should report bridge concepts once the worker finishes', async () => {
+    const reasoner = new GraphReasoner(sampleGraph(30), { ...defaultConfig.graphConfig, centralityWorker: true });
+    reasoner.analyzeGraph();
+
+    expect(() => reasoner.findBridgeConcepts(3)).toThrow('still being computed');
+    await reasoner.centralityReady();
+    expect(reasoner.findBridgeConcepts(3)).toEqual(new GraphReasoner(sampleGraph(30)).findBridgeConcepts(3));
+  });
+});
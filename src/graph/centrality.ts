@@ -0,0 +1,186 @@
+import Graph from 'graphology';
+import { Worker } from 'worker_threads';
+import betweennessCentrality from 'graphology-metrics/centrality/betweenness';
+import { createDijkstraIndexedBrandes } from 'graphology-shortest-path/indexed-brandes';
+import type { ConceptEdge } from '../types/index.js';
+import { createConceptGraph } from './edges.js';
+import { seededRandom } from './random.js';
+
+/**
+ * Options for betweenness centrality
+ */
+export interface CentralityOptions {
+  exactLimit: number; // Largest graph, in concepts, that gets exact betweenness
+  samples: number; // Pivots for approximate betweenness; more is slower and more accurate
+  seed: number; // Pivot sampling seed
+}
+
+export const DEFAULT_CENTRALITY_OPTIONS: CentralityOptions = {
+  exactLimit: 5000,
+  samples: 500,
+  seed: 42,
+};
+
+/**
+ * Betweenness scores and how they were computed
+ */
+export interface CentralityResult {
+  scores: Record<string, number>; // Concept ID -> normalized betweenness
+  approximate: boolean;
+  samples?: number; // Pivots used, when approximate
+}
+
+/**
+ * Betweenness being computed in a worker thread
+ */
+export interface CentralityJob {
+  result: Promise<CentralityResult>;
+  keepAlive(): void; // Keep the process running until the result arrives
+  cancel(): void; // Stop the worker; `result` then rejects
+}
+
+/**
+ * Compact copy of the graph structure sent to the worker thread
+ * Concept and edge attributes other than the weight are left behind.
+ */
+export interface WorkerGraph {
+  nodes: string[];
+  edges: [string, string, number, boolean][]; // Source, target, weight, undirected
+}
+
+interface IndexedBrandes {
+  (sourceIndex: number): [
+    { size: number; pop(): number | undefined; forEach(callback: (item: number) => void): void },
+    number[][],
+    Uint32Array,
+  ];
+  index: { collect(results: Float64Array): Record<string, number> };
+}
+
+/**
+ * Approximate betweenness from shortest paths out of sampled pivots
+ * (Brandes & Pich). Dependencies accumulated from `samples` concepts drawn
+ * without replacement are scaled by N / samples, giving an unbiased estimate
+ * on the same normalized scale as the exact scores; with every concept as a
+ * pivot the result is exact. Edge weights are path lengths, as in the exact
+ * computation.
+ */
+export function approximateBetweenness(
+  graph: Graph,
+  samples: number,
+  seed: number = DEFAULT_CENTRALITY_OPTIONS.seed
+): Record<string, number> {
+  const n = graph.order;
+  if (n === 0) return {};
+
+  const brandes = createDijkstraIndexedBrandes(graph, 'weight') as unknown as IndexedBrandes;
+  const pivots = samplePivots(n, Math.max(1, Math.min(samples, n)), seed);
+
+  const delta = new Float64Array(n);
+  const centralities = new Float64Array(n);
+
+  for (const pivot of pivots) {
+    const [stack, predecessors, sigma] = brandes(pivot);
+    stack.forEach(v => (delta[v] = 0));
+
+    while (stack.size !== 0) {
+      const w = stack.pop()!;
+      const coefficient = (1 + delta[w]) / sigma[w];
+      for (const v of predecessors[w]) delta[v] += sigma[v] * coefficient;
+      if (w !== pivot) centralities[w] += delta[w];
+    }
+  }
+
+  const scale = (n / pivots.length) * (n > 2 ? 1 / ((n - 1) * (n - 2)) : 1);
+  for (let i = 0; i < n; i++) centralities[i] *= scale;
+
+  return brandes.index.collect(centralities);
+}
+
+/**
+ * Helper: `count` distinct node indices, by partial Fisher-Yates shuffle
+ */
+function samplePivots(n: number, count: number, seed: number): Uint32Array {
+  const random = seededRandom(seed);
+  const indices = new Uint32Array(n);
+  for (let i = 0; i < n; i++) indices[i] = i;
+
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (n - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.subarray(0, count);
+}
+
+/**
+ * Betweenness centrality, exact up to `exactLimit` concepts and sampled above
+ */
+export function computeBetweenness(graph: Graph, options: Partial<CentralityOptions> = {}): CentralityResult {
+  const opts = { ...DEFAULT_CENTRALITY_OPTIONS, ...options };
+
+  if (graph.order <= opts.exactLimit || opts.samples >= graph.order) {
+    return { scores: betweennessCentrality(graph), approximate: false };
+  }
+  return {
+    scores: approximateBetweenness(graph, opts.samples, opts.seed),
+    approximate: true,
+    samples: opts.samples,
+  };
+}
+
+/**
+ * Compute betweenness in a worker thread, leaving the caller's event loop free
+ * The worker does not keep the process alive unless `keepAlive` is called,
+ * so short commands can exit before it finishes.
+ */
+export function computeBetweennessInWorker(graph: Graph, options: Partial<CentralityOptions> = {}): CentralityJob {
+  const workerGraph: WorkerGraph = { nodes: graph.nodes(), edges: [] };
+  graph.forEachEdge((_edge, attrs, source, target, _sourceAttrs, _targetAttrs, undirected) => {
+    workerGraph.edges.push([source, target, (attrs as ConceptEdge).weight, undirected]);
+  });
+
+  // Worker threads do not inherit the tsx loader, so running from source
+  // registers it before loading the worker module
+  const fromSource = import.meta.url.endsWith('.ts');
+  const workerUrl = new URL(`./centrality-worker${fromSource ? '.ts' : '.js'}`, import.meta.url);
+  const workerData = { graph: workerGraph, options };
+  const worker = fromSource
+    ? new Worker(
+        `import('tsx/esm/api').then(tsx => { tsx.register(); return import(${JSON.stringify(workerUrl.href)}); })`,
+        { eval: true, workerData }
+      )
+    : new Worker(workerUrl, { workerData });
+
+  const result = new Promise<CentralityResult>((resolve, reject) => {
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', code => {
+      if (code !== 0) reject(new Error(`Centrality worker exited with code ${code}`));
+    });
+  });
+  // After the listeners, which would otherwise ref the worker again
+  worker.unref();
+
+  return {
+    result,
+    keepAlive: () => worker.ref(),
+    cancel: () => void worker.terminate(),
+  };
+}
+
+/**
+ * Rebuild the graph sent by `computeBetweennessInWorker`
+ * Concepts keep their order, so pivot sampling matches the main thread.
+ */
+export function graphFromWorkerData(data: WorkerGraph): Graph {
+  const graph = createConceptGraph();
+  data.nodes.forEach(id => graph.addNode(id));
+  for (const [source, target, weight, undirected] of data.edges) {
+    if (undirected) {
+      graph.addUndirectedEdge(source, target, { weight });
+    } else {
+      graph.addDirectedEdge(source, target, { weight });
+    }
+  }
+  return graph;
+}
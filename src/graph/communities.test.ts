@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { communityHierarchy, communityLinks, detectCommunities, summarizeCommunities } from './communities.js';
+import { GraphReasoner } from './reasoner.js';
+import { conceptEdge, conceptGraph, conceptNode } from '../test/fixtures.js';
+import type { ConceptEdge } from '../types/index.js';
+
+/**
+ * Two triangles joined by one edge (polymer - neuron): chemistry with four
+ * concepts, neuroscience with three
+ */
+function sampleGraph() {
+  const chemistry = ['materials_chemistry', 'catalyst', 'solvent', 'polymer'];
+  const neuroscience = ['neuroscience', 'synapse', 'neuron'];
+  const edges: ConceptEdge[] = [];
+  for (const group of [chemistry, neuroscience]) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) edges.push(conceptEdge(group[i], group[j], { weight: 1 }));
+    }
+  }
+  edges.push(conceptEdge('polymer', 'neuron', { weight: 1 }));
+
+  return conceptGraph(
+    [
+      ...chemistry.map((id, i) => conceptNode(id, { frequency: i === 0 ? 10 : 2, papers: ['p1', 'p2'] })),
+      ...neuroscience.map((id, i) => conceptNode(id, { frequency: i === 0 ? 10 : 2, papers: ['p3'] })),
+    ],
+    edges
+  );
+}
+
+describe('community detection', () => {
+  const graph = sampleGraph();
+  const assignments = detectCommunities(graph);
+
+  it('should number communities by size', () => {
+    expect(assignments.catalyst).toBe(0);
+    expect(assignments.synapse).toBe(1);
+  });
+
+  it('should label communities by their most distinctive concepts', () => {
+    const [chemistry, neuroscience] = summarizeCommunities(graph, assignments, { labelConcepts: 1 });
+
+    expect(chemistry).toMatchObject({
+      label: 'materials chemistry',
+      size: 4,
+      papers: 2,
+      internalEdges: 6,
+      externalEdges: 1,
+      density: 1,
+    });
+    expect(neuroscience.label).toBe('neuroscience');
+    // The bridging concept is the least distinctive
+    expect(chemistry.topConcepts[3]).toBe('polymer');
+  });
+
+  it('should report edge densities between communities', () => {
+    expect(communityLinks(graph, assignments)).toEqual([{ source: 0, target: 1, edges: 1, density: 1 / 12 }]);
+  });
+
+  it('should link each community to its parent one level coarser', () => {
+    const levels = communityHierarchy(graph, { resolutions: [4, 0.01] });
+
+    expect(levels.map(l => l.resolution)).toEqual([0.01, 4]);
+    expect(levels[0].communities).toHaveLength(1);
+    expect(levels[1].communities.length).toBeGreaterThan(1);
+    expect(levels[1].communities.every(c => c.parent === 0)).toBe(true);
+  });
+});
+
+describe('GraphReasoner community labels', () => {
+  it('should name communities in path summaries', () => {
+    const reasoner = new GraphReasoner(sampleGraph());
+    reasoner.analyzeGraph();
+
+    const [path] = reasoner.findPaths('catalyst', 'synapse', { maxResults: 1 });
+
+    expect(path.communities).toEqual([
+      'materials chemistry / catalyst',
+      'materials chemistry / catalyst',
+      'neuroscience / synapse',
+      'neuroscience / synapse',
+    ]);
+    expect(reasoner.summarizePath(path)).toContain('[community 1: neuroscience / synapse]');
+  });
+});
@@ -0,0 +1,214 @@
+import Graph from 'graphology';
+import louvain from 'graphology-communities-louvain';
+import modularity from 'graphology-metrics/graph/modularity';
+import type { ConceptEdge, ConceptNode } from '../types/index.js';
+import { undirectedProjection } from './edges.js';
+import { seededRandom } from './random.js';
+
+/**
+ * Options for multi-resolution community detection
+ */
+export interface CommunityOptions {
+  resolutions: number[]; // Louvain resolutions; lower values give fewer, larger communities
+  labelConcepts: number; // Concepts named in a community label
+  topConcepts: number; // Distinctive concepts listed per community
+  seed: number; // Louvain seed
+}
+
+export const DEFAULT_COMMUNITY_OPTIONS: CommunityOptions = {
+  resolutions: [0.5, 1, 2],
+  labelConcepts: 2,
+  topConcepts: 5,
+  seed: 42,
+};
+
+/**
+ * Label and statistics of one community
+ */
+export interface CommunitySummary {
+  id: number;
+  label: string; // Most distinctive concepts, e.g. "gut microbiome / probiotics"
+  size: number;
+  topConcepts: string[]; // Labels, most distinctive first
+  papers: number; // Papers mentioning any member
+  internalEdges: number;
+  externalEdges: number;
+  density: number; // Internal edges / member pairs
+  parent?: number; // Community one level coarser holding most of the members
+}
+
+/**
+ * Partition of the graph at one resolution
+ */
+export interface CommunityLevel {
+  resolution: number;
+  assignments: Record<string, number>; // Concept ID -> community ID
+  communities: CommunitySummary[]; // Largest first
+  modularity: number;
+}
+
+/**
+ * Edges between two communities
+ */
+export interface CommunityLink {
+  source: number;
+  target: number;
+  edges: number;
+  density: number; // Edges / (size of source * size of target)
+}
+
+/**
+ * Louvain communities at one resolution, numbered by size (0 = largest)
+ * Louvain cannot run on mixed graphs, so edge direction is ignored.
+ */
+export function detectCommunities(
+  graph: Graph,
+  resolution: number = 1,
+  seed: number = DEFAULT_COMMUNITY_OPTIONS.seed
+): Record<string, number> {
+  if (graph.order === 0) return {};
+  const raw = louvain(undirectedProjection(graph), { resolution, rng: seededRandom(seed) });
+
+  const sizes = new Map<number, number>();
+  Object.values(raw).forEach(c => sizes.set(c, (sizes.get(c) || 0) + 1));
+  const order = Array.from(sizes.keys()).sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const renumbered = new Map(order.map((c, i) => [c, i]));
+
+  return Object.fromEntries(Object.entries(raw).map(([id, c]) => [id, renumbered.get(c)!]));
+}
+
+/**
+ * Labels and statistics for each community of a partition, largest first
+ * A concept is distinctive for its community when most of its edge weight
+ * stays inside it and it is frequent: (internal weight / total weight) *
+ * log(1 + frequency).
+ */
+export function summarizeCommunities(
+  graph: Graph,
+  assignments: Record<string, number>,
+  options: Partial<CommunityOptions> = {}
+): CommunitySummary[] {
+  const opts = { ...DEFAULT_COMMUNITY_OPTIONS, ...options };
+  const members = new Map<number, string[]>();
+  graph.forEachNode(id => {
+    const community = assignments[id];
+    if (community === undefined) return;
+    if (!members.has(community)) members.set(community, []);
+    members.get(community)!.push(id);
+  });
+
+  const internalWeight = new Map<string, number>();
+  const totalWeight = new Map<string, number>();
+  const internalEdges = new Map<number, number>();
+  const externalEdges = new Map<number, number>();
+  const projection = undirectedProjection(graph);
+  projection.forEachEdge((_edge, attrs, source, target) => {
+    const weight = (attrs as ConceptEdge).weight || 0;
+    const [a, b] = [assignments[source], assignments[target]];
+    for (const id of [source, target]) totalWeight.set(id, (totalWeight.get(id) || 0) + weight);
+
+    if (a === b) {
+      internalEdges.set(a, (internalEdges.get(a) || 0) + 1);
+      for (const id of [source, target]) internalWeight.set(id, (internalWeight.get(id) || 0) + weight);
+    } else {
+      externalEdges.set(a, (externalEdges.get(a) || 0) + 1);
+      externalEdges.set(b, (externalEdges.get(b) || 0) + 1);
+    }
+  });
+
+  const summaries = Array.from(members, ([id, conceptIds]) => {
+    const ranked = conceptIds
+      .map(conceptId => {
+        const node = graph.getNodeAttributes(conceptId) as ConceptNode;
+        const total = totalWeight.get(conceptId) || 0;
+        const share = total > 0 ? (internalWeight.get(conceptId) || 0) / total : 0;
+        return { label: node.label, frequency: node.frequency, score: share * Math.log(1 + node.frequency) };
+      })
+      .sort((a, b) => b.score - a.score || b.frequency - a.frequency || a.label.localeCompare(b.label));
+
+    const papers = new Set<string>();
+    conceptIds.forEach(conceptId =>
+      (graph.getNodeAttributes(conceptId) as ConceptNode).papers.forEach(p => papers.add(p))
+    );
+    const size = conceptIds.length;
+    const internal = internalEdges.get(id) || 0;
+
+    return {
+      id,
+      label: ranked
+        .slice(0, opts.labelConcepts)
+        .map(c => c.label)
+        .join(' / '),
+      size,
+      topConcepts: ranked.slice(0, opts.topConcepts).map(c => c.label),
+      papers: papers.size,
+      internalEdges: internal,
+      externalEdges: externalEdges.get(id) || 0,
+      density: size > 1 ? internal / ((size * (size - 1)) / 2) : 0,
+    };
+  });
+
+  return summaries.sort((a, b) => b.size - a.size || a.id - b.id);
+}
+
+/**
+ * Edge counts and densities between pairs of communities, densest first
+ */
+export function communityLinks(graph: Graph, assignments: Record<string, number>): CommunityLink[] {
+  const sizes = new Map<number, number>();
+  Object.values(assignments).forEach(c => sizes.set(c, (sizes.get(c) || 0) + 1));
+
+  const counts = new Map<string, number>();
+  undirectedProjection(graph).forEachEdge((_edge, _attrs, source, target) => {
+    const [a, b] = [assignments[source], assignments[target]].sort((x, y) => x - y);
+    if (a === b || a === undefined || b === undefined) return;
+    const key = `${a}-${b}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return Array.from(counts, ([key, edges]) => {
+    const [source, target] = key.split('-').map(Number);
+    return { source, target, edges, density: edges / (sizes.get(source)! * sizes.get(target)!) };
+  }).sort((a, b) => b.density - a.density || b.edges - a.edges || a.source - b.source || a.target - b.target);
+}
+
+/**
+ * Communities at several resolutions, coarsest first
+ * Louvain partitions at different resolutions need not nest, so each
+ * community's parent is the coarser community holding most of its members.
+ */
+export function communityHierarchy(graph: Graph, options: Partial<CommunityOptions> = {}): CommunityLevel[] {
+  const opts = { ...DEFAULT_COMMUNITY_OPTIONS, ...options };
+  const projection = undirectedProjection(graph);
+  const levels: CommunityLevel[] = [];
+
+  for (const resolution of [...opts.resolutions].sort((a, b) => a - b)) {
+    const assignments = detectCommunities(graph, resolution, opts.seed);
+    const communities = summarizeCommunities(graph, assignments, opts);
+
+    const coarser = levels[levels.length - 1];
+    if (coarser) {
+      const overlap = new Map<number, Map<number, number>>();
+      for (const [id, community] of Object.entries(assignments)) {
+        const parent = coarser.assignments[id];
+        if (!overlap.has(community)) overlap.set(community, new Map());
+        const counts = overlap.get(community)!;
+        counts.set(parent, (counts.get(parent) || 0) + 1);
+      }
+      communities.forEach(c => {
+        const counts = Array.from(overlap.get(c.id) || []);
+        c.parent = counts.sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]?.[0];
+      });
+    }
+
+    levels.push({
+      resolution,
+      assignments,
+      communities,
+      modularity:
+        projection.size > 0 ? modularity(projection, { getNodeCommunity: id => assignments[id] }) : 0,
+    });
+  }
+
+  return levels;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import Graph from 'graphology';
+import { connectedComponents, diagnoseGraph, formatDiagnosticsMarkdown } from './diagnostics.js';
+import { conceptEdge, conceptNode } from '../test/fixtures.js';
+
+/**
+ * Two components (a-b-c triangle with d hanging off c, and e-f) plus an
+ * isolated concept g; a appears in every paper
+ */
+function sampleGraph(): Graph {
+  const graph = new Graph({ multi: false, type: 'directed' });
+  const papers: Record<string, string[]> = {
+    a: ['p1', 'p2', 'p3', 'p4'],
+    b: ['p1', 'p2'],
+    c: ['p2', 'p3'],
+    d: ['p3'],
+    e: ['p4'],
+    f: ['p4'],
+    g: ['p4'],
+  };
+  for (const [id, ids] of Object.entries(papers)) {
+    graph.addNode(id, conceptNode(id, { papers: ids, frequency: ids.length }));
+  }
+  for (const [source, target] of [
+    ['a', 'b'],
+    ['b', 'a'],
+    ['b', 'c'],
+    ['c', 'a'],
+    ['c', 'd'],
+    ['e', 'f'],
+  ]) {
+    graph.addEdge(source, target, conceptEdge(source, target, { weight: 1 }));
+  }
+  return graph;
+}
+
+describe('connectedComponents', () => {
+  it('should ignore edge direction', () => {
+    expect(connectedComponents(sampleGraph()).map(c => c.sort())).toEqual([
+      ['a', 'b', 'c', 'd'],
+      ['e', 'f'],
+      ['g'],
+    ]);
+  });
+});
+
+describe('diagnoseGraph', () => {
+  it('should report degrees, components, isolated and generic concepts', () => {
+    const report = diagnoseGraph(sampleGraph(), { topGeneric: 2 });
+
+    expect(report).toMatchObject({ concepts: 7, edges: 6, papers: 4 });
+    // Distinct neighbours: a 2, b 2, c 3, d 1, e 1, f 1, g 0
+    expect(report.degree).toMatchObject({ min: 0, max: 3, median: 1 });
+    expect(report.degree.mean).toBeCloseTo(10 / 7);
+    expect(report.degree.histogram).toEqual([
+      { range: '0', count: 1 },
+      { range: '1', count: 3 },
+      { range: '2-3', count: 3 },
+    ]);
+    expect(report.components).toEqual({ count: 3, largestSize: 4, largestShare: 4 / 7, sizes: [4, 2, 1] });
+    expect(report.isolated).toEqual({ count: 1, concepts: ['g'] });
+    expect(report.genericConcepts).toEqual([
+      { id: 'a', label: 'a', documentFrequency: 4, share: 1 },
+      { id: 'b', label: 'b', documentFrequency: 2, share: 0.5 },
+    ]);
+    expect(report.communities).toBeUndefined();
+  });
+
+  it('should report community sizes and modularity', () => {
+    const communities = { a: 0, b: 0, c: 0, d: 0, e: 1, f: 1, g: 2 };
+
+    const report = diagnoseGraph(sampleGraph(), { communities });
+
+    expect(report.communities).toMatchObject({ count: 3, singletons: 1, sizes: [4, 2, 1] });
+    // Directed modularity: (5/6 - 5*5/36) + (1/6 - 1*1/36)
+    expect(report.communities!.modularity).toBeCloseTo(5 / 18);
+  });
+
+  it('should warn about generic and isolated concepts', () => {
+    const report = diagnoseGraph(sampleGraph());
+
+    expect(report.warnings).toHaveLength(2);
+    expect(report.warnings[0]).toContain('isolated');
+    expect(report.warnings[1]).toContain('Generic concepts appear in over half of all papers: a');
+    expect(formatDiagnosticsMarkdown(report)).toContain('| a | 4 | 100.0% |');
+  });
+});
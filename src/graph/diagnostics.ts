@@ -0,0 +1,268 @@
+import Graph from 'graphology';
+import modularity from 'graphology-metrics/graph/modularity';
+import type { ConceptNode } from '../types/index.js';
+import { graphDensity, undirectedProjection } from './edges.js';
+
+/**
+ * Options for graph diagnostics
+ */
+export interface DiagnosticsOptions {
+  communities?: Record<string, number>; // Community per concept, e.g. from GraphReasoner
+  paperCount?: number; // Papers in the corpus (default: papers mentioning any concept)
+  topGeneric: number; // Generic concepts to list
+  isolatedLimit: number; // Isolated concepts to list
+}
+
+export const DEFAULT_DIAGNOSTICS_OPTIONS: DiagnosticsOptions = {
+  topGeneric: 20,
+  isolatedLimit: 50,
+};
+
+/**
+ * Health report of a concept graph
+ */
+export interface GraphDiagnostics {
+  concepts: number;
+  edges: number;
+  papers: number;
+  density: number; // Edges / ordered concept pairs, undirected edges counted twice
+  degree: {
+    // Distinct neighbours per concept, ignoring edge direction
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    histogram: { range: string; count: number }[]; // Power-of-two bins
+  };
+  components: {
+    count: number;
+    largestSize: number;
+    largestShare: number; // Concepts in the largest component / all concepts
+    sizes: number[]; // Largest first, at most 10
+  };
+  isolated: { count: number; concepts: string[] }; // Labels of concepts without edges
+  genericConcepts: { id: string; label: string; documentFrequency: number; share: number }[];
+  communities?: {
+    count: number;
+    modularity: number;
+    singletons: number;
+    sizes: number[]; // Largest first, at most 20
+  };
+  warnings: string[];
+}
+
+// Thresholds behind the warnings
+const MIN_LARGEST_SHARE = 0.5;
+const MAX_ISOLATED_SHARE = 0.1;
+const MAX_GENERIC_SHARE = 0.5;
+const MIN_MODULARITY = 0.3;
+
+/**
+ * Degree distribution, connectivity, generic concepts and community structure
+ * of a concept graph, with warnings for properties that usually make path
+ * sampling unproductive
+ */
+export function diagnoseGraph(graph: Graph, options: Partial<DiagnosticsOptions> = {}): GraphDiagnostics {
+  const opts = { ...DEFAULT_DIAGNOSTICS_OPTIONS, ...options };
+  const concepts = graph.order;
+  const label = (id: string) => (graph.getNodeAttributes(id) as ConceptNode).label;
+
+  const degrees = graph.nodes().map(id => graph.neighbors(id).length);
+  const sortedDegrees = [...degrees].sort((a, b) => a - b);
+  const isolated = graph.nodes().filter((_id, i) => degrees[i] === 0);
+
+  const componentSizes = connectedComponents(graph)
+    .map(component => component.length)
+    .sort((a, b) => b - a);
+  const largestSize = componentSizes[0] || 0;
+
+  const mentioned = new Set<string>();
+  graph.forEachNode((_id, attrs) => (attrs as ConceptNode).papers.forEach(p => mentioned.add(p)));
+  const papers = opts.paperCount ?? mentioned.size;
+
+  const genericConcepts = graph
+    .mapNodes((id, attrs) => {
+      const node = attrs as ConceptNode;
+      return { id, label: node.label, documentFrequency: node.papers.length };
+    })
+    .sort((a, b) => b.documentFrequency - a.documentFrequency || a.id.localeCompare(b.id))
+    .slice(0, opts.topGeneric)
+    .map(c => ({ ...c, share: papers > 0 ? c.documentFrequency / papers : 0 }));
+
+  const report: GraphDiagnostics = {
+    concepts,
+    edges: graph.size,
+    papers,
+    density: graphDensity(graph),
+    degree: {
+      min: sortedDegrees[0] || 0,
+      max: sortedDegrees[sortedDegrees.length - 1] || 0,
+      mean: concepts > 0 ? degrees.reduce((sum, d) => sum + d, 0) / concepts : 0,
+      median: median(sortedDegrees),
+      histogram: degreeHistogram(degrees),
+    },
+    components: {
+      count: componentSizes.length,
+      largestSize,
+      largestShare: concepts > 0 ? largestSize / concepts : 0,
+      sizes: componentSizes.slice(0, 10),
+    },
+    isolated: { count: isolated.length, concepts: isolated.slice(0, opts.isolatedLimit).map(label) },
+    genericConcepts,
+    warnings: [],
+  };
+
+  if (opts.communities) {
+    const communities = opts.communities;
+    const sizes = new Map<number, number>();
+    graph.forEachNode(id => sizes.set(communities[id], (sizes.get(communities[id]) || 0) + 1));
+    const communitySizes = Array.from(sizes.values()).sort((a, b) => b - a);
+
+    report.communities = {
+      count: communitySizes.length,
+      modularity:
+        graph.size > 0
+          ? modularity(undirectedProjection(graph), { getNodeCommunity: id => communities[id] })
+          : 0,
+      singletons: communitySizes.filter(size => size === 1).length,
+      sizes: communitySizes.slice(0, 20),
+    };
+  }
+
+  report.warnings = diagnosticWarnings(report);
+  return report;
+}
+
+/**
+ * Render a diagnostics report as Markdown
+ */
+export function formatDiagnosticsMarkdown(report: GraphDiagnostics): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  let md = `# Graph Report\n\n`;
+  md += `| Metric | Value |\n|---|---|\n`;
+  md += `| Concepts | ${report.concepts} |\n`;
+  md += `| Edges | ${report.edges} |\n`;
+  md += `| Papers | ${report.papers} |\n`;
+  md += `| Density | ${report.density.toFixed(6)} |\n\n`;
+
+  md += `## Warnings\n\n`;
+  md += report.warnings.length > 0 ? report.warnings.map(w => `- ${w}`).join('\n') : 'None';
+  md += '\n\n';
+
+  md += `## Degree Distribution\n\n`;
+  md += `Min ${report.degree.min}, median ${report.degree.median}, mean ${report.degree.mean.toFixed(2)}, max ${report.degree.max}\n\n`;
+  md += `| Degree | Concepts |\n|---|---|\n`;
+  report.degree.histogram.forEach(bin => {
+    md += `| ${bin.range} | ${bin.count} |\n`;
+  });
+  md += '\n';
+
+  md += `## Connected Components\n\n`;
+  md += `${report.components.count} components; the largest holds ${report.components.largestSize} concepts (${percent(report.components.largestShare)}).\n\n`;
+  md += `Largest sizes: ${report.components.sizes.join(', ')}\n\n`;
+
+  md += `## Isolated Concepts\n\n`;
+  md += `${report.isolated.count} concepts have no edges.`;
+  if (report.isolated.concepts.length > 0) {
+    md += ` ${report.isolated.concepts.join(', ')}${report.isolated.count > report.isolated.concepts.length ? ', ...' : ''}`;
+  }
+  md += '\n\n';
+
+  md += `## Most Generic Concepts\n\n`;
+  md += `| Concept | Papers | Share |\n|---|---|---|\n`;
+  report.genericConcepts.forEach(c => {
+    md += `| ${c.label} | ${c.documentFrequency} | ${percent(c.share)} |\n`;
+  });
+  md += '\n';
+
+  if (report.communities) {
+    md += `## Communities\n\n`;
+    md += `${report.communities.count} communities (${report.communities.singletons} singletons), modularity ${report.communities.modularity.toFixed(3)}\n\n`;
+    md += `Largest sizes: ${report.communities.sizes.join(', ')}\n`;
+  }
+
+  return md;
+}
+
+/**
+ * Weakly connected components, as lists of concept IDs
+ */
+export function connectedComponents(graph: Graph): string[][] {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+
+  graph.forEachNode(start => {
+    if (seen.has(start)) return;
+    seen.add(start);
+
+    const component = [start];
+    for (let i = 0; i < component.length; i++) {
+      for (const neighbour of graph.neighbors(component[i])) {
+        if (seen.has(neighbour)) continue;
+        seen.add(neighbour);
+        component.push(neighbour);
+      }
+    }
+    components.push(component);
+  });
+
+  return components;
+}
+
+/**
+ * Helper: power-of-two degree bins (0, 1, 2-3, 4-7, ...) up to the maximum
+ */
+function degreeHistogram(degrees: number[]): { range: string; count: number }[] {
+  const max = degrees.reduce((a, b) => Math.max(a, b), 0);
+  const histogram = [{ range: '0', count: 0 }];
+  for (let low = 1; low <= max; low *= 2) {
+    const high = low * 2 - 1;
+    histogram.push({ range: low === high ? `${low}` : `${low}-${high}`, count: 0 });
+  }
+
+  for (const degree of degrees) {
+    histogram[degree === 0 ? 0 : Math.floor(Math.log2(degree)) + 1].count++;
+  }
+  return histogram;
+}
+
+/**
+ * Helper: median of sorted values
+ */
+function median(sorted: number[]): number {
+  if (sorted.length === 0) return 0;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Helper: warnings for a graph that is likely not ready for hypothesis generation
+ */
+function diagnosticWarnings(report: GraphDiagnostics): string[] {
+  const warnings: string[] = [];
+
+  if (report.concepts > 0 && report.components.largestShare < MIN_LARGEST_SHARE) {
+    warnings.push(
+      `The largest component holds only ${(report.components.largestShare * 100).toFixed(1)}% of concepts; paths cannot cross between components`
+    );
+  }
+  if (report.concepts > 0 && report.isolated.count / report.concepts > MAX_ISOLATED_SHARE) {
+    warnings.push(
+      `${report.isolated.count} concepts (${((report.isolated.count / report.concepts) * 100).toFixed(1)}%) are isolated; consider a lower --min-edge-weight or a larger corpus`
+    );
+  }
+  const generic = report.genericConcepts.filter(c => c.share > MAX_GENERIC_SHARE);
+  if (generic.length > 0) {
+    warnings.push(
+      `Generic concepts appear in over half of all papers: ${generic.map(c => c.label).join(', ')}; consider leaving them out of the vocabulary`
+    );
+  }
+  if (report.communities && report.edges > 0 && report.communities.modularity < MIN_MODULARITY) {
+    warnings.push(
+      `Modularity ${report.communities.modularity.toFixed(3)} is low; cross-community novelty scores will be weak`
+    );
+  }
+
+  return warnings;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { SwansonDiscovery } from './discovery.js';
+import { GraphReasoner } from './reasoner.js';
+import { conceptEdge, conceptGraph, conceptNode } from '../test/fixtures.js';
+
+/**
+ * Swanson's fish oil / Raynaud's example: the two never co-occur, but both
+ * are linked to blood viscosity and platelet aggregation
+ *   fish_oil - blood_viscosity - raynaud
+ *   fish_oil - platelet_aggregation - raynaud
+ *   fish_oil - platelet_aggregation - thrombosis
+ *   raynaud - vasoconstriction (shares p9 with fish_oil, but the edge was pruned)
+ */
+function sampleGraph() {
+  const papers: Record<string, string[]> = {
+    fish_oil: ['p1', 'p2', 'p9'],
+    blood_viscosity: ['p1', 'p3'],
+    platelet_aggregation: ['p2', 'p4', 'p5'],
+    raynaud: ['p3', 'p4'],
+    thrombosis: ['p5'],
+    vasoconstriction: ['p6', 'p9'],
+  };
+  const edges: [string, string, number, string[]][] = [
+    ['fish_oil', 'blood_viscosity', 0.5, ['p1']],
+    ['raynaud', 'blood_viscosity', 0.5, ['p3']],
+    ['fish_oil', 'platelet_aggregation', 0.4, ['p2']],
+    ['platelet_aggregation', 'raynaud', 0.3, ['p4']],
+    ['platelet_aggregation', 'thrombosis', 0.9, ['p5']],
+    ['vasoconstriction', 'raynaud', 0.2, ['p6']],
+  ];
+
+  return conceptGraph(
+    Object.entries(papers).map(([id, ids]) => conceptNode(id, { papers: ids, frequency: ids.length })),
+    edges.map(([source, target, weight, evidence]) => conceptEdge(source, target, { weight, evidence }))
+  );
+}
+
+describe('SwansonDiscovery', () => {
+  const discovery = new SwansonDiscovery(sampleGraph());
+
+  it('should find the linking concepts of a closed discovery, strongest first', () => {
+    const result = discovery.closed('fish_oil', 'raynaud');
+
+    expect(result).toMatchObject({
+      source: 'fish_oil',
+      target: 'raynaud',
+      linkingTermCount: 2,
+      linking: [
+        { id: 'blood_viscosity', weight: 0.5, sourceEvidence: ['p1'], targetEvidence: ['p3'] },
+        { id: 'platelet_aggregation', weight: 0.3, sourceEvidence: ['p2'], targetEvidence: ['p4'] },
+      ],
+    });
+    expect(result!.averageMinimumWeight).toBeCloseTo(0.4);
+  });
+
+  it('should reject pairs that already co-occur', () => {
+    expect(discovery.closed('fish_oil', 'blood_viscosity')).toBeUndefined();
+    // No edge, but both appear in p9
+    expect(discovery.closed('fish_oil', 'vasoconstriction')).toBeUndefined();
+  });
+
+  it('should rank open discoveries by linking term count or average minimum weight', () => {
+    const byCount = discovery.open('fish_oil');
+    expect(byCount.map(r => [r.target, r.linkingTermCount])).toEqual([
+      ['raynaud', 2],
+      ['thrombosis', 1],
+    ]);
+
+    const byWeight = discovery.open('fish_oil', { ranking: 'average_minimum_weight' });
+    expect(byWeight.map(r => r.target)).toEqual(['raynaud', 'thrombosis']);
+    expect(byWeight[1].averageMinimumWeight).toBeCloseTo(0.4);
+  });
+
+  it('should require evidence on both halves', () => {
+    expect(discovery.open('fish_oil', { minEvidence: 2 })).toEqual([]);
+  });
+});
+
+describe('GraphReasoner.discoveryPath', () => {
+  it('should build an A-B-C path with the evidence of each half', () => {
+    const reasoner = new GraphReasoner(sampleGraph());
+    const result = reasoner.discoverClosed('fish_oil', 'raynaud')!;
+
+    const path = reasoner.discoveryPath(result, 'closed');
+
+    expect(path.nodes.map(n => n.id)).toEqual(['fish_oil', 'blood_viscosity', 'raynaud']);
+    expect(path.edges.map(e => e.evidence)).toEqual([['p1'], ['p3']]);
+    expect(path.totalWeight).toBeCloseTo(1);
+    expect(path.discovery).toEqual({
+      mode: 'closed',
+      linkingTermCount: 2,
+      averageMinimumWeight: result.averageMinimumWeight,
+      linking: ['blood viscosity', 'platelet aggregation'],
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import Graph from 'graphology';
+import type { ConceptEdge, ConceptNode, DiscoveryRanking } from '../types/index.js';
+
+export const DISCOVERY_RANKINGS: DiscoveryRanking[] = ['linking_terms', 'average_minimum_weight'];
+
+/**
+ * Options for ABC discovery
+ */
+export interface DiscoveryOptions {
+  ranking: DiscoveryRanking; // Open discovery: how C concepts are ranked
+  limit: number; // Keep at most this many C concepts (open discovery)
+  minEvidence: number; // Papers required on each half of a chain
+}
+
+export const DEFAULT_DISCOVERY_OPTIONS: DiscoveryOptions = {
+  ranking: 'linking_terms',
+  limit: 20,
+  minEvidence: 1,
+};
+
+/**
+ * Intermediate B concept joining A and C
+ */
+export interface LinkingConcept {
+  id: string;
+  weight: number; // Weaker of the A-B and B-C edge weights
+  sourceEvidence: string[]; // Papers supporting A-B
+  targetEvidence: string[]; // Papers supporting B-C
+}
+
+/**
+ * A-C pair that never co-occurs, with the B concepts linking it
+ */
+export interface DiscoveryResult {
+  source: string; // A
+  target: string; // C
+  linking: LinkingConcept[]; // Strongest first
+  linkingTermCount: number; // Number of B concepts
+  averageMinimumWeight: number; // Mean of the B weights
+}
+
+/**
+ * Swanson's ABC model of literature-based discovery
+ *
+ * Closed discovery starts from A and C and collects the B concepts
+ * co-occurring with both; open discovery starts from A alone and ranks every
+ * C reachable through some B. A pair only qualifies when A and C share no
+ * paper and no edge. C concepts are ranked by linking term count (LTC) or
+ * average minimum weight (AMW), the statistics used by Arrowsmith-style
+ * tools. Edge direction is ignored.
+ */
+export class SwansonDiscovery {
+  private graph: Graph;
+
+  constructor(graph: Graph) {
+    this.graph = graph;
+  }
+
+  /**
+   * Rank C concepts reachable from A only through intermediates
+   */
+  open(source: string, options: Partial<DiscoveryOptions> = {}): DiscoveryResult[] {
+    const opts = { ...DEFAULT_DISCOVERY_OPTIONS, ...options };
+    if (!this.graph.hasNode(source)) return [];
+
+    const linkingByTarget = new Map<string, LinkingConcept[]>();
+    for (const b of this.graph.neighbors(source)) {
+      const ab = this.half(source, b);
+      if (ab.evidence.length < opts.minEvidence) continue;
+
+      for (const c of this.graph.neighbors(b)) {
+        if (c === source || this.coOccur(source, c)) continue;
+        const bc = this.half(b, c);
+        if (bc.evidence.length < opts.minEvidence) continue;
+
+        const linking = linkingByTarget.get(c) || [];
+        linking.push({
+          id: b,
+          weight: Math.min(ab.weight, bc.weight),
+          sourceEvidence: ab.evidence,
+          targetEvidence: bc.evidence,
+        });
+        linkingByTarget.set(c, linking);
+      }
+    }
+
+    const results = Array.from(linkingByTarget, ([target, linking]) =>
+      this.result(source, target, linking)
+    );
+    const byCount = (a: DiscoveryResult, b: DiscoveryResult) => b.linkingTermCount - a.linkingTermCount;
+    const byWeight = (a: DiscoveryResult, b: DiscoveryResult) =>
+      b.averageMinimumWeight - a.averageMinimumWeight;
+    const [first, second] = opts.ranking === 'linking_terms' ? [byCount, byWeight] : [byWeight, byCount];
+
+    return results
+      .sort((a, b) => first(a, b) || second(a, b) || a.target.localeCompare(b.target))
+      .slice(0, opts.limit);
+  }
+
+  /**
+   * B concepts linking A and C, or undefined when A and C already co-occur or
+   * nothing links them
+   */
+  closed(
+    source: string,
+    target: string,
+    options: Partial<DiscoveryOptions> = {}
+  ): DiscoveryResult | undefined {
+    const opts = { ...DEFAULT_DISCOVERY_OPTIONS, ...options };
+    if (!this.graph.hasNode(source) || !this.graph.hasNode(target)) return undefined;
+    if (source === target || this.coOccur(source, target)) return undefined;
+
+    const targetNeighbours = new Set(this.graph.neighbors(target));
+    const linking: LinkingConcept[] = [];
+    for (const b of this.graph.neighbors(source)) {
+      if (!targetNeighbours.has(b)) continue;
+      const ab = this.half(source, b);
+      const bc = this.half(b, target);
+      if (ab.evidence.length < opts.minEvidence || bc.evidence.length < opts.minEvidence) continue;
+
+      linking.push({
+        id: b,
+        weight: Math.min(ab.weight, bc.weight),
+        sourceEvidence: ab.evidence,
+        targetEvidence: bc.evidence,
+      });
+    }
+
+    return linking.length > 0 ? this.result(source, target, linking) : undefined;
+  }
+
+  /**
+   * Helper: result with linking concepts sorted and summarized
+   */
+  private result(source: string, target: string, linking: LinkingConcept[]): DiscoveryResult {
+    linking.sort(
+      (a, b) =>
+        b.weight - a.weight ||
+        Math.min(b.sourceEvidence.length, b.targetEvidence.length) -
+          Math.min(a.sourceEvidence.length, a.targetEvidence.length) ||
+        a.id.localeCompare(b.id)
+    );
+
+    return {
+      source,
+      target,
+      linking,
+      linkingTermCount: linking.length,
+      averageMinimumWeight: linking.reduce((sum, b) => sum + b.weight, 0) / linking.length,
+    };
+  }
+
+  /**
+   * Helper: weight and evidence of the edges joining two concepts either way
+   */
+  private half(a: string, b: string): { weight: number; evidence: string[] } {
+    const edges = [
+      this.graph.hasEdge(a, b) ? this.graph.getEdgeAttributes(a, b) : undefined,
+      this.graph.hasEdge(b, a) ? this.graph.getEdgeAttributes(b, a) : undefined,
+    ].filter((edge): edge is ConceptEdge => edge !== undefined);
+
+    return {
+      weight: Math.max(...edges.map(edge => edge.weight)),
+      evidence: Array.from(new Set(edges.flatMap(edge => edge.evidence))),
+    };
+  }
+
+  /**
+   * Helper: whether two concepts share an edge or a paper
+   * Edges below the weight threshold are pruned, so shared papers are checked
+   * as well
+   */
+  private coOccur(a: string, b: string): boolean {
+    if (this.graph.hasEdge(a, b) || this.graph.hasEdge(b, a)) return true;
+
+    const papers = new Set((this.graph.getNodeAttributes(a) as ConceptNode).papers);
+    return (this.graph.getNodeAttributes(b) as ConceptNode).papers.some(p => papers.has(p));
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { addConceptEdge, graphDensity, undirectedProjection } from './edges.js';
+import { GraphReasoner } from './reasoner.js';
+import { saveSnapshot, loadSnapshot } from './snapshot.js';
+import { conceptEdge, conceptGraph } from '../test/fixtures.js';
+
+/**
+ * a - b co-occur (stored from a to b), b enables c
+ */
+function sampleGraph() {
+  return conceptGraph(['a', 'b', 'c'], [conceptEdge('a', 'b'), conceptEdge('b', 'c', { type: 'enables' })]);
+}
+
+describe('addConceptEdge', () => {
+  it('should store co-occurrence undirected and typed relations directed', () => {
+    const graph = sampleGraph();
+
+    expect(graph.hasUndirectedEdge('b', 'a')).toBe(true);
+    expect(graph.hasDirectedEdge('b', 'c')).toBe(true);
+    expect(graph.hasDirectedEdge('c', 'b')).toBe(false);
+  });
+});
+
+describe('graphDensity', () => {
+  it('should count undirected edges in both directions', () => {
+    const graph = sampleGraph();
+    expect(graphDensity(graph)).toBeCloseTo(3 / 6);
+
+    addConceptEdge(graph, conceptEdge('a', 'c'));
+    expect(graphDensity(graph)).toBeCloseTo(5 / 6);
+  });
+});
+
+describe('undirectedProjection', () => {
+  it('should flatten a mixed graph for community detection', () => {
+    const projection = undirectedProjection(sampleGraph());
+
+    expect(projection.type).toBe('undirected');
+    expect(projection.size).toBe(2);
+    expect(projection.getEdgeAttribute('c', 'b', 'weight')).toBe(0.5);
+  });
+});
+
+describe('GraphReasoner on mixed graphs', () => {
+  it('should walk co-occurrence edges both ways and typed edges forward only', () => {
+    const reasoner = new GraphReasoner(sampleGraph());
+    reasoner.analyzeGraph();
+
+    const fromB = reasoner.findPaths('b', undefined, { pathLength: 2, maxResults: 5 });
+    expect(fromB.map(p => p.nodes.map(n => n.id)).sort()).toEqual([
+      ['b', 'a'],
+      ['b', 'c'],
+    ]);
+    // c only has an incoming typed edge
+    expect(reasoner.findPaths('c', undefined, { pathLength: 3 })).toEqual([]);
+    expect(reasoner.findPaths('c', 'a')).toEqual([]);
+    expect(reasoner.findPaths('a', 'c')[0].nodes.map(n => n.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep edge directions through snapshots', async () => {
+    const filePath = join(tmpdir(), `mixed-snapshot-${Date.now()}.json`);
+    const now = new Date();
+
+    await saveSnapshot(filePath, sampleGraph(), {
+      paperCount: 0,
+      conceptCount: 3,
+      createdAt: now,
+      lastUpdated: now,
+    });
+    const { graph } = await loadSnapshot(filePath);
+    await rm(filePath);
+
+    expect(graph.hasUndirectedEdge('b', 'a')).toBe(true);
+    expect(graph.hasDirectedEdge('b', 'c')).toBe(true);
+  });
+});
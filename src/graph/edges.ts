@@ -0,0 +1,66 @@
+import Graph from 'graphology';
+import type { ConceptEdge } from '../types/index.js';
+
+export const EDGE_TYPES: ConceptEdge['type'][] = [
+  'relates_to',
+  'enables',
+  'contradicts',
+  'derives_from',
+  'applied_in',
+];
+
+/**
+ * Empty concept graph: co-occurrence edges are undirected, typed relation
+ * edges directed
+ */
+export function createConceptGraph(): Graph {
+  return new Graph({ multi: false, type: 'mixed' });
+}
+
+/**
+ * Whether an edge only records co-occurrence, which has no direction
+ */
+export function isCooccurrenceEdge(edge: ConceptEdge): boolean {
+  return edge.type === 'relates_to';
+}
+
+/**
+ * Add a concept edge, undirected for co-occurrence in mixed graphs
+ * Directed graphs (e.g. older snapshots) keep every edge directed
+ */
+export function addConceptEdge(graph: Graph, edge: ConceptEdge): void {
+  if (graph.type === 'mixed' && isCooccurrenceEdge(edge)) {
+    graph.addUndirectedEdge(edge.source, edge.target, edge);
+  } else {
+    graph.addDirectedEdge(edge.source, edge.target, edge);
+  }
+}
+
+/**
+ * Edges per ordered concept pair; an undirected edge links both orders
+ */
+export function graphDensity(graph: Graph): number {
+  const n = graph.order;
+  return n > 1 ? (2 * graph.undirectedSize + graph.directedSize) / (n * (n - 1)) : 0;
+}
+
+/**
+ * Undirected copy of a mixed graph's structure, for algorithms that cannot
+ * run on mixed graphs (Louvain, modularity)
+ * Nodes keep no attributes; a pair joined by several edges keeps the
+ * heaviest weight. Other graphs are returned as they are.
+ */
+export function undirectedProjection(graph: Graph): Graph {
+  if (graph.type !== 'mixed') return graph;
+
+  const projection = new Graph({ multi: false, type: 'undirected' });
+  graph.forEachNode(nodeId => projection.addNode(nodeId));
+  graph.forEachEdge((_edgeId, attrs, source, target) => {
+    const weight = (attrs as ConceptEdge).weight;
+    projection.updateUndirectedEdge(source, target, current => ({
+      weight: current.weight === undefined ? weight : Math.max(current.weight, weight),
+    }));
+  });
+
+  return projection;
+}
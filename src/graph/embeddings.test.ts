@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios from 'axios';
+import {
+  HashedNgramEmbeddings,
+  HttpEmbeddings,
+  LatentSemanticEmbeddings,
+  cosineSimilarity,
+} from './embeddings.js';
+import { conceptNode } from '../test/fixtures.js';
+
+const concept = (label: string, papers: string[], aliases: string[] = []) =>
+  conceptNode(label.replace(/ /g, '_'), {
+    papers,
+    frequency: papers.length,
+    properties: aliases.length > 0 ? { aliases } : {},
+  });
+
+describe('LatentSemanticEmbeddings', () => {
+  it('should preserve cosine similarities of the TF-IDF rows at full rank', async () => {
+    // Every paper holds two concepts, so all TF-IDF weights are equal
+    const vectors = await new LatentSemanticEmbeddings(3).embed([
+      concept('a', ['p1', 'p2', 'p3']),
+      concept('b', ['p1', 'p4']),
+      concept('c', ['p2', 'p3', 'p4']),
+    ]);
+
+    expect(cosineSimilarity(vectors[0], vectors[1])).toBeCloseTo(1 / Math.sqrt(6), 6);
+    expect(cosineSimilarity(vectors[0], vectors[2])).toBeCloseTo(2 / 3, 6);
+    expect(cosineSimilarity(vectors[1], vectors[2])).toBeCloseTo(1 / Math.sqrt(6), 6);
+  });
+
+  it('should place synonyms used in similar papers together', async () => {
+    const vectors = await new LatentSemanticEmbeddings(2).embed([
+      concept('heart attack', ['p1', 'p2']),
+      concept('myocardial infarction', ['p3', 'p4']),
+      concept('troponin', ['p1', 'p2', 'p3', 'p4']),
+      concept('gut microbiome', ['p5', 'p6']),
+      concept('probiotics', ['p5', 'p6']),
+    ]);
+
+    const synonyms = cosineSimilarity(vectors[0], vectors[1]);
+    expect(synonyms).toBeGreaterThan(0.9);
+    expect(cosineSimilarity(vectors[0], vectors[3])).toBeLessThan(0.1);
+  });
+
+  it('should be deterministic', async () => {
+    const concepts = [concept('a', ['p1', 'p2']), concept('b', ['p2', 'p3']), concept('c', ['p3'])];
+
+    expect(await new LatentSemanticEmbeddings(2).embed(concepts)).toEqual(
+      await new LatentSemanticEmbeddings(2).embed(concepts)
+    );
+  });
+});
+
+describe('HashedNgramEmbeddings', () => {
+  it('should score spelling variants above unrelated terms', async () => {
+    const [tumour, tumor, heart] = await new HashedNgramEmbeddings(256).embed([
+      concept('tumour suppression', []),
+      concept('tumor suppressor', []),
+      concept('heart failure', []),
+    ]);
+
+    expect(tumour).toHaveLength(256);
+    expect(cosineSimilarity(tumour, tumor)).toBeGreaterThan(0.4);
+    expect(cosineSimilarity(tumour, tumor)).toBeGreaterThan(cosineSimilarity(tumour, heart) + 0.3);
+  });
+
+  it('should use aliases', async () => {
+    const provider = new HashedNgramEmbeddings(256);
+    const [withAlias, alias] = await provider.embed([
+      concept('convolutional neural network', [], ['CNN']),
+      concept('CNN', []),
+    ]);
+
+    expect(cosineSimilarity(withAlias, alias)).toBeGreaterThan(0);
+  });
+});
+
+describe('HttpEmbeddings', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should post labels to an OpenAI-compatible endpoint', async () => {
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({
+      data: { data: [{ index: 1, embedding: [0, 2] }, { index: 0, embedding: [3, 4] }] },
+    });
+
+    const vectors = await new HttpEmbeddings({ url: 'http://localhost/v1/embeddings', model: 'm' }).embed([
+      concept('gut microbiome', [], ['gut flora']),
+      concept('depression', []),
+    ]);
+
+    expect(post).toHaveBeenCalledWith(
+      'http://localhost/v1/embeddings',
+      { model: 'm', input: ['gut microbiome; gut flora', 'depression'] },
+      expect.anything()
+    );
+    expect(vectors).toEqual([[0.6, 0.8], [0, 1]]);
+  });
+
+  it('should reject responses with a wrong number of vectors', async () => {
+    vi.spyOn(axios, 'post').mockResolvedValue({ data: { data: [] } });
+
+    await expect(
+      new HttpEmbeddings({ url: 'http://localhost/v1/embeddings' }).embed([concept('a', [])])
+    ).rejects.toThrow('returned 0 vectors for 1 inputs');
+  });
+});
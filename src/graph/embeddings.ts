@@ -0,0 +1,423 @@
+import axios from 'axios';
+import type { ConceptNode } from '../types/index.js';
+import { conceptSurfaceForms } from './normalize.js';
+import { seededRandom } from './random.js';
+
+/**
+ * Computes concept embeddings
+ * Providers see whole concepts, so corpus-based ones can use the papers a
+ * concept appears in and text-based ones its label and aliases
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+
+  /**
+   * One vector per concept, in input order
+   */
+  embed(concepts: ConceptNode[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'lsa' | 'ngram' | 'http';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['lsa', 'ngram', 'http'];
+
+// LSA rarely gains from more dimensions, and orthogonalization cost grows
+// with their square
+const MAX_LSA_DIMENSIONS = 100;
+
+/**
+ * Create a provider by name; `dimensions` is `graphConfig.embeddingDimensions`
+ */
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName,
+  dimensions: number
+): EmbeddingProvider {
+  switch (name) {
+    case 'lsa':
+      return new LatentSemanticEmbeddings(Math.min(dimensions, MAX_LSA_DIMENSIONS));
+    case 'ngram':
+      return new HashedNgramEmbeddings(dimensions);
+    case 'http':
+      return HttpEmbeddings.fromEnv();
+  }
+}
+
+/**
+ * Latent semantic analysis over the concept x paper matrix
+ *
+ * Concepts are weighted by log TF-IDF per paper and projected onto the top
+ * singular vectors (randomized truncated SVD, Halko et al. 2011). Concepts
+ * used in similar papers end up close even when they never co-occur, which
+ * is how synonyms from different subfields are found. Deterministic for a
+ * given graph.
+ */
+export class LatentSemanticEmbeddings implements EmbeddingProvider {
+  readonly name = 'lsa';
+  private dimensions: number;
+  private powerIterations: number;
+
+  constructor(dimensions: number = MAX_LSA_DIMENSIONS, powerIterations: number = 2) {
+    this.dimensions = dimensions;
+    this.powerIterations = powerIterations;
+  }
+
+  async embed(concepts: ConceptNode[]): Promise<number[][]> {
+    const matrix = tfidfMatrix(concepts);
+    const rank = Math.min(this.dimensions, concepts.length, matrix.columns);
+    if (rank === 0) return concepts.map(() => []);
+
+    const { vectors } = truncatedSVD(matrix, rank, this.powerIterations);
+    return vectors.map(normalize);
+  }
+}
+
+/**
+ * Signed feature hashing of character 3- and 4-grams of the label and aliases
+ * Catches spelling, inflection and word-order variants ("tumour"/"tumor",
+ * "cell death"/"death of cells") without any corpus
+ */
+export class HashedNgramEmbeddings implements EmbeddingProvider {
+  readonly name = 'ngram';
+  private dimensions: number;
+
+  constructor(dimensions: number = 384) {
+    this.dimensions = dimensions;
+  }
+
+  async embed(concepts: ConceptNode[]): Promise<number[][]> {
+    return concepts.map(concept => this.embedText(conceptSurfaceForms(concept)));
+  }
+
+  /**
+   * Vector for a set of surface forms of one concept
+   */
+  embedText(forms: string[]): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const form of forms) {
+      for (const word of form.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+        const padded = ` ${word} `;
+        for (const n of [3, 4]) {
+          for (let i = 0; i + n <= padded.length; i++) {
+            const hash = fnv1a(padded.slice(i, i + n));
+            vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+          }
+        }
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Options for an OpenAI-compatible embeddings endpoint
+ */
+export interface HttpEmbeddingOptions {
+  url: string; // e.g. http://localhost:11434/v1/embeddings
+  model?: string;
+  apiKey?: string;
+  batchSize?: number;
+}
+
+/**
+ * Embeddings from an OpenAI-compatible HTTP endpoint (OpenAI, Ollama,
+ * text-embeddings-inference, ...), embedding each concept's label and aliases
+ */
+export class HttpEmbeddings implements EmbeddingProvider {
+  readonly name = 'http';
+  private options: HttpEmbeddingOptions;
+
+  constructor(options: HttpEmbeddingOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Configure from EMBEDDINGS_URL, EMBEDDINGS_MODEL and EMBEDDINGS_API_KEY
+   */
+  static fromEnv(): HttpEmbeddings {
+    const url = process.env.EMBEDDINGS_URL;
+    if (!url) {
+      throw new Error('EMBEDDINGS_URL must be set to use the http embedding provider');
+    }
+    return new HttpEmbeddings({
+      url,
+      model: process.env.EMBEDDINGS_MODEL,
+      apiKey: process.env.EMBEDDINGS_API_KEY,
+    });
+  }
+
+  async embed(concepts: ConceptNode[]): Promise<number[][]> {
+    const { url, model, apiKey, batchSize = 64 } = this.options;
+    const texts = concepts.map(concept => conceptSurfaceForms(concept).join('; '));
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const input = texts.slice(i, i + batchSize);
+      const response = await axios.post(
+        url,
+        { model, input },
+        { headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, timeout: 60000 }
+      );
+
+      const data: { embedding: number[]; index?: number }[] = response.data?.data || [];
+      if (data.length !== input.length) {
+        throw new Error(
+          `Embedding endpoint returned ${data.length} vectors for ${input.length} inputs`
+        );
+      }
+      data
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .forEach(item => vectors.push(normalize(item.embedding)));
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Sparse concept x paper matrix, stored by row
+ */
+interface SparseMatrix {
+  rows: { column: number; value: number }[][];
+  columns: number;
+}
+
+/**
+ * Helper: log TF-IDF weighted concept x paper matrix
+ */
+function tfidfMatrix(concepts: ConceptNode[]): SparseMatrix {
+  const paperIndex = new Map<string, number>();
+  const documentFrequency: number[] = [];
+  const counts = concepts.map(concept => {
+    const perPaper = new Map<number, number>();
+    for (const paperId of concept.papers) {
+      if (!paperIndex.has(paperId)) {
+        paperIndex.set(paperId, paperIndex.size);
+        documentFrequency.push(0);
+      }
+      const column = paperIndex.get(paperId)!;
+      if (!perPaper.has(column)) documentFrequency[column]++;
+      perPaper.set(column, (perPaper.get(column) || 0) + 1);
+    }
+    return perPaper;
+  });
+
+  // Paper "document frequency" here is the number of concepts in the paper,
+  // so papers mentioning everything count for little
+  const columns = paperIndex.size;
+  const rows = counts.map(perPaper =>
+    Array.from(perPaper.entries()).map(([column, count]) => ({
+      column,
+      value: (1 + Math.log(count)) * Math.log(1 + concepts.length / documentFrequency[column]),
+    }))
+  );
+
+  return { rows, columns };
+}
+
+/**
+ * Randomized truncated SVD; returns the rows of U * Sigma for the top `rank`
+ * singular values
+ */
+function truncatedSVD(
+  matrix: SparseMatrix,
+  rank: number,
+  powerIterations: number = 2
+): { vectors: number[][]; singularValues: number[] } {
+  const n = matrix.rows.length;
+  const m = matrix.columns;
+  const width = Math.min(rank + 10, n, m); // Oversampled sketch width
+
+  // Column-major dense blocks: block[c] is column c
+  const random = seededRandom(42);
+  let sketch: Float64Array[] = Array.from({ length: width }, () => {
+    const column = new Float64Array(m);
+    for (let j = 0; j < m; j++) column[j] = gaussian(random);
+    return column;
+  });
+
+  let basis = orthonormalize(multiply(matrix, sketch, n));
+  for (let i = 0; i < powerIterations; i++) {
+    sketch = orthonormalize(multiplyTransposed(matrix, basis, m));
+    basis = orthonormalize(multiply(matrix, sketch, n));
+  }
+
+  // Small problem: eigendecomposition of (Q^T A)(Q^T A)^T = W^T W
+  const projected = multiplyTransposed(matrix, basis, m);
+  const gram = projected.map(a => projected.map(b => dot(a, b)));
+  const { values, vectors: eigenvectors } = jacobiEigen(gram);
+
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, rank);
+  const singularValues = order.map(({ value }) => Math.sqrt(Math.max(value, 0)));
+
+  // U * Sigma = Q * V * Sigma
+  const vectors = Array.from({ length: n }, (_, row) =>
+    order.map(({ index }, k) => {
+      let sum = 0;
+      for (let c = 0; c < width; c++) sum += basis[c][row] * eigenvectors[c][index];
+      return sum * singularValues[k];
+    })
+  );
+
+  return { vectors, singularValues };
+}
+
+/**
+ * Helper: A * X for column-major X with `A.columns` rows
+ */
+function multiply(matrix: SparseMatrix, block: Float64Array[], rows: number): Float64Array[] {
+  return block.map(column => {
+    const out = new Float64Array(rows);
+    matrix.rows.forEach((entries, i) => {
+      let sum = 0;
+      for (const { column: j, value } of entries) sum += value * column[j];
+      out[i] = sum;
+    });
+    return out;
+  });
+}
+
+/**
+ * Helper: A^T * Y for column-major Y with `A.rows.length` rows
+ */
+function multiplyTransposed(
+  matrix: SparseMatrix,
+  block: Float64Array[],
+  columns: number
+): Float64Array[] {
+  return block.map(column => {
+    const out = new Float64Array(columns);
+    matrix.rows.forEach((entries, i) => {
+      const weight = column[i];
+      if (weight === 0) return;
+      for (const { column: j, value } of entries) out[j] += value * weight;
+    });
+    return out;
+  });
+}
+
+/**
+ * Helper: modified Gram-Schmidt; dependent columns become zero
+ */
+function orthonormalize(block: Float64Array[]): Float64Array[] {
+  for (let c = 0; c < block.length; c++) {
+    for (let prev = 0; prev < c; prev++) {
+      const projection = dot(block[c], block[prev]);
+      if (projection === 0) continue;
+      for (let i = 0; i < block[c].length; i++) block[c][i] -= projection * block[prev][i];
+    }
+    const norm = Math.sqrt(dot(block[c], block[c]));
+    for (let i = 0; i < block[c].length; i++) block[c][i] = norm > 1e-10 ? block[c][i] / norm : 0;
+  }
+  return block;
+}
+
+/**
+ * Helper: eigenvalues and eigenvectors (as columns, vectors[row][k]) of a
+ * small symmetric matrix by cyclic Jacobi rotations
+ */
+function jacobiEigen(input: number[][]): { values: number[]; vectors: number[][] } {
+  const size = input.length;
+  const a = input.map(row => [...row]);
+  const v: number[][] = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i === j ? 1 : 0))
+  );
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const cos = 1 / Math.sqrt(t * t + 1);
+        const sin = t * cos;
+
+        for (let k = 0; k < size; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = cos * akp - sin * akq;
+          a[k][q] = sin * akp + cos * akq;
+        }
+        for (let k = 0; k < size; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = cos * apk - sin * aqk;
+          a[q][k] = sin * apk + cos * aqk;
+        }
+        for (let k = 0; k < size; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = cos * vkp - sin * vkq;
+          v[k][q] = sin * vkp + cos * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+/**
+ * Helper: dot product of two equal-length arrays
+ */
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Helper: unit-length copy of a vector (zero vectors stay zero)
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm === 0 ? vector.map(() => 0) : vector.map(x => x / norm);
+}
+
+/**
+ * Helper: 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Helper: standard normal sample (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EntityLayer, entityId } from './entities.js';
+import { GraphBuilder } from './builder.js';
+import { VocabularyExtractor } from './extractors.js';
+import { defaultConfig } from '../config/default.js';
+import { conceptNode, testPaper } from '../test/fixtures.js';
+import type { ConceptNode, GraphPath } from '../types/index.js';
+
+const pathThrough = (...nodes: ConceptNode[]): GraphPath => ({
+  nodes,
+  edges: [],
+  length: nodes.length - 1,
+  totalWeight: 0,
+  novelty: 0,
+});
+
+describe('EntityLayer', () => {
+  const gut = conceptNode('gut_microbiome', { papers: ['p1', 'p2'], frequency: 2 });
+  const vagus = conceptNode('vagus_nerve', { papers: ['p2', 'p3'], frequency: 2 });
+  const depression = conceptNode('depression', { papers: ['p3', 'p4'], frequency: 2 });
+  const layer = EntityLayer.build(
+    [
+      testPaper('p1', { authors: ['Cryan, John', 'Dinan, Ted'], journal: 'Nature Reviews Neuroscience' }),
+      testPaper('p2', { authors: ['Cryan, John'], journal: 'Cell' }),
+      testPaper('p3', { authors: ['CRYAN, JOHN', 'Smith, Jane'], journal: 'Cell' }),
+      testPaper('p4', { authors: ['Dinan, Ted'], journal: 'Psychiatry Research' }),
+    ],
+    new Map([gut, vagus, depression].map(c => [c.id, c]))
+  );
+
+  it('should link papers to authors, venues and concepts', () => {
+    const graph = layer.getGraph();
+
+    expect(layer.counts()).toEqual({ paper: 4, author: 3, venue: 3, concept: 3 });
+    expect(graph.getEdgeAttributes('paper:p3', 'author:cryan john').type).toBe('authored_by');
+    expect(graph.getEdgeAttributes('paper:p3', 'venue:cell').type).toBe('published_in');
+    expect(graph.getEdgeAttributes('paper:p3', 'concept:depression').type).toBe('mentions');
+    expect(layer.papersMentioning('vagus_nerve').sort()).toEqual(['p2', 'p3']);
+  });
+
+  it('should find authors publishing on both ends of a path', () => {
+    const researchers = layer.researchersForPath(pathThrough(gut, vagus, depression));
+
+    expect(researchers).toHaveLength(2);
+    expect(researchers[0]).toMatchObject({
+      author: { id: 'author:cryan john', kind: 'author' },
+      concepts: ['gut_microbiome', 'vagus_nerve', 'depression'],
+      papers: 3,
+    });
+    expect(researchers[1]).toMatchObject({
+      author: { id: 'author:dinan ted' },
+      concepts: ['gut_microbiome', 'depression'],
+      papers: 2,
+    });
+    expect(layer.researchersForPath(pathThrough(gut))).toEqual([]);
+  });
+
+  it('should rank venues by the communities they span', () => {
+    const venues = layer.bridgingVenues({ gut_microbiome: 0, vagus_nerve: 1, depression: 2 });
+
+    expect(venues.map(v => [v.venue.label, v.communities, v.papers])).toEqual([['Cell', 3, 2]]);
+  });
+
+  it('should round-trip through export', () => {
+    const restored = EntityLayer.from(layer.export());
+
+    expect(restored.counts()).toEqual(layer.counts());
+    expect(restored.papersMentioning('depression').sort()).toEqual(['p3', 'p4']);
+  });
+
+  it('should link papers to the papers they cite', () => {
+    const cited = EntityLayer.build(
+      [testPaper('p1', { references: ['p2', 'p9'] }), testPaper('p2')],
+      new Map()
+    );
+
+    expect(cited.referencesOf('p1').sort()).toEqual(['p2', 'p9']);
+    expect(cited.citationsOf('p2')).toEqual(['p1']);
+    expect(cited.getGraph().getNodeAttribute('paper:p2', 'label')).toBe('Paper p2');
+    expect(cited.getGraph().getNodeAttribute('paper:p9', 'label')).toBe('p9');
+  });
+
+  it('should normalize author and venue names', () => {
+    expect(entityId('author', 'Cryan, John F.')).toBe('author:cryan john f');
+    expect(entityId('venue', 'Cell Reports')).toBe('venue:cell reports');
+    expect(entityId('paper', 'PMID:1')).toBe('paper:PMID:1');
+  });
+
+  it('should be built and extended by GraphBuilder when enabled', async () => {
+    const csvPath = join(tmpdir(), `entities-${Date.now()}.csv`);
+    await writeFile(
+      csvPath,
+      [
+        'title,abstract,authors,year,pmid,journal',
+        '"Gut","Gut microbiome and depression.","Cryan, John; Dinan, Ted",2019,p1,Cell',
+        '"Mood","Depression and the gut microbiome.","Jane Smith",2020,p2,Brain',
+      ].join('\n')
+    );
+
+    const builder = new GraphBuilder(
+      new VocabularyExtractor([
+        { term: 'gut microbiome', synonyms: [], type: 'concept' },
+        { term: 'depression', synonyms: [], type: 'phenomenon' },
+      ]),
+      { ...defaultConfig.graphConfig, entityLayer: true }
+    );
+    await builder.buildGraph(csvPath);
+    await rm(csvPath);
+
+    const entities = builder.getEntityLayer()!;
+    expect(entities.counts()).toEqual({ paper: 2, author: 3, venue: 2, concept: 2 });
+
+    builder.addPapers([
+      testPaper('p3', { authors: ['Dinan, Ted'], journal: 'Cell', abstract: 'Depression in adolescents.' }),
+    ]);
+    expect(entities.papersMentioning('depression').sort()).toEqual(['p1', 'p2', 'p3']);
+  });
+});
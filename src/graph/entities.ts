@@ -0,0 +1,267 @@
+import Graph from 'graphology';
+import type {
+  ConceptNode,
+  EntityEdge,
+  EntityNode,
+  GraphAnalysis,
+  GraphPath,
+  Paper,
+} from '../types/index.js';
+
+/**
+ * Author already publishing on the concepts of a path
+ */
+export interface Researcher {
+  author: EntityNode;
+  concepts: string[]; // Path concept IDs the author has papers on
+  papers: number; // Author's papers mentioning any path concept
+}
+
+/**
+ * Venue whose papers span several concept communities
+ */
+export interface BridgingVenue {
+  venue: EntityNode;
+  communities: number; // Distinct communities of the concepts its papers mention
+  papers: number;
+}
+
+/**
+ * Heterogeneous author/venue/paper layer over the concept graph
+ *
+ * Papers link to their authors (authored_by), venue (published_in), the
+ * concepts they mention (mentions) and the papers they cite (cites). The
+ * layer is a separate graph so that community detection, centrality and path
+ * sampling on concepts are not affected by it; concepts are shared by ID.
+ */
+export class EntityLayer {
+  private graph: Graph;
+
+  constructor(graph: Graph = new Graph({ multi: false, type: 'directed' })) {
+    this.graph = graph;
+  }
+
+  /**
+   * Build the layer from loaded papers and the concepts extracted from them
+   */
+  static build(papers: Paper[], concepts: Map<string, ConceptNode>): EntityLayer {
+    const mentioned = new Map<string, ConceptNode[]>();
+    for (const concept of concepts.values()) {
+      for (const paperId of new Set(concept.papers)) {
+        if (!mentioned.has(paperId)) mentioned.set(paperId, []);
+        mentioned.get(paperId)!.push(concept);
+      }
+    }
+
+    const layer = new EntityLayer();
+    for (const paper of papers) {
+      layer.addPaper(paper, mentioned.get(paper.id) || []);
+    }
+    return layer;
+  }
+
+  /**
+   * Restore a layer serialized with `export`
+   */
+  static from(serialized: ReturnType<Graph['export']>): EntityLayer {
+    return new EntityLayer(Graph.from(serialized));
+  }
+
+  /**
+   * Add a paper with its authors, venue, mentioned concepts and cited papers
+   * Adding a paper again only adds its new mentions. Cited papers that are
+   * not in the corpus become paper nodes labelled with their ID.
+   */
+  addPaper(paper: Paper, concepts: ConceptNode[]): void {
+    const paperId = entityId('paper', paper.id);
+    // Replaces the placeholder left by an earlier paper citing this one
+    this.graph.mergeNode(paperId, { id: paperId, kind: 'paper', label: paper.title, year: paper.year });
+
+    for (const name of paper.authors) {
+      const authorId = entityId('author', name);
+      if (authorId === 'author:') continue;
+      this.addNode({ id: authorId, kind: 'author', label: name });
+      this.link(paperId, authorId, 'authored_by');
+    }
+
+    if (paper.journal) {
+      const venueId = entityId('venue', paper.journal);
+      this.addNode({ id: venueId, kind: 'venue', label: paper.journal });
+      this.link(paperId, venueId, 'published_in');
+    }
+
+    for (const concept of concepts) {
+      const conceptId = `concept:${concept.id}`;
+      this.addNode({ id: conceptId, kind: 'concept', label: concept.label });
+      this.link(paperId, conceptId, 'mentions');
+    }
+
+    for (const reference of paper.references || []) {
+      const citedId = entityId('paper', reference);
+      this.addNode({ id: citedId, kind: 'paper', label: reference });
+      this.link(paperId, citedId, 'cites');
+    }
+  }
+
+  /**
+   * IDs of the papers mentioning a concept
+   */
+  papersMentioning(conceptId: string): string[] {
+    const nodeId = `concept:${conceptId}`;
+    if (!this.graph.hasNode(nodeId)) return [];
+    return this.graph.inNeighbors(nodeId).map(paperId => paperId.slice('paper:'.length));
+  }
+
+  /**
+   * IDs of the papers a paper cites
+   */
+  referencesOf(paperId: string): string[] {
+    return this.neighborsOfKind(entityId('paper', paperId), 'paper').map(id => id.slice('paper:'.length));
+  }
+
+  /**
+   * IDs of the papers citing a paper
+   */
+  citationsOf(paperId: string): string[] {
+    const nodeId = entityId('paper', paperId);
+    if (!this.graph.hasNode(nodeId)) return [];
+    return this.graph.inNeighbors(nodeId).map(id => id.slice('paper:'.length));
+  }
+
+  /**
+   * Authors with papers on both ends of a path, ranked by how many of the
+   * path's concepts they cover and then by their number of relevant papers
+   */
+  researchersForPath(path: GraphPath, limit: number = 10): Researcher[] {
+    if (path.nodes.length < 2) return [];
+
+    const covered = new Map<string, { concepts: Set<string>; papers: Set<string> }>();
+    for (const concept of path.nodes) {
+      for (const paperId of this.papersMentioning(concept.id)) {
+        for (const authorId of this.neighborsOfKind(`paper:${paperId}`, 'author')) {
+          if (!covered.has(authorId)) covered.set(authorId, { concepts: new Set(), papers: new Set() });
+          covered.get(authorId)!.concepts.add(concept.id);
+          covered.get(authorId)!.papers.add(paperId);
+        }
+      }
+    }
+
+    const first = path.nodes[0].id;
+    const last = path.nodes[path.nodes.length - 1].id;
+
+    return Array.from(covered.entries())
+      .filter(([, { concepts }]) => concepts.has(first) && concepts.has(last))
+      .map(([authorId, { concepts, papers }]) => ({
+        author: this.graph.getNodeAttributes(authorId) as EntityNode,
+        concepts: path.nodes.map(n => n.id).filter(id => concepts.has(id)),
+        papers: papers.size,
+      }))
+      .sort(
+        (a, b) =>
+          b.concepts.length - a.concepts.length ||
+          b.papers - a.papers ||
+          a.author.label.localeCompare(b.author.label)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Venues publishing on concepts from at least two communities, ranked by
+   * the number of communities they span
+   */
+  bridgingVenues(communities: GraphAnalysis['communities'], limit: number = 10): BridgingVenue[] {
+    const venues: BridgingVenue[] = [];
+
+    this.graph.forEachNode((nodeId, attrs) => {
+      const venue = attrs as EntityNode;
+      if (venue.kind !== 'venue') return;
+
+      const papers = this.graph.inNeighbors(nodeId);
+      const spanned = new Set<number>();
+      for (const paperId of papers) {
+        for (const conceptId of this.neighborsOfKind(paperId, 'concept')) {
+          const community = communities[conceptId.slice('concept:'.length)];
+          if (community !== undefined) spanned.add(community);
+        }
+      }
+
+      if (spanned.size >= 2) {
+        venues.push({ venue, communities: spanned.size, papers: papers.length });
+      }
+    });
+
+    return venues
+      .sort(
+        (a, b) =>
+          b.communities - a.communities ||
+          b.papers - a.papers ||
+          a.venue.label.localeCompare(b.venue.label)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Number of nodes of each kind
+   */
+  counts(): Record<EntityNode['kind'], number> {
+    const counts = { paper: 0, author: 0, venue: 0, concept: 0 };
+    this.graph.forEachNode((_nodeId, attrs) => {
+      counts[(attrs as EntityNode).kind]++;
+    });
+    return counts;
+  }
+
+  /**
+   * Serialize the layer for snapshots
+   */
+  export(): ReturnType<Graph['export']> {
+    return this.graph.export();
+  }
+
+  /**
+   * Get the graphology instance of the layer
+   */
+  getGraph(): Graph {
+    return this.graph;
+  }
+
+  /**
+   * Helper: add a node unless it exists
+   */
+  private addNode(node: EntityNode): void {
+    if (!this.graph.hasNode(node.id)) this.graph.addNode(node.id, node);
+  }
+
+  /**
+   * Helper: add a typed edge unless it exists
+   */
+  private link(source: string, target: string, type: EntityEdge['type']): void {
+    if (!this.graph.hasEdge(source, target)) {
+      const edge: EntityEdge = { source, target, type };
+      this.graph.addEdge(source, target, edge);
+    }
+  }
+
+  /**
+   * Helper: out-neighbors of a node with the given kind
+   */
+  private neighborsOfKind(nodeId: string, kind: EntityNode['kind']): string[] {
+    if (!this.graph.hasNode(nodeId)) return [];
+    return this.graph
+      .outNeighbors(nodeId)
+      .filter(id => (this.graph.getNodeAttributes(id) as EntityNode).kind === kind);
+  }
+}
+
+/**
+ * Node ID for a paper, author or venue
+ * Author and venue names are matched case- and punctuation-insensitively
+ */
+export function entityId(kind: 'paper' | 'author' | 'venue', name: string): string {
+  if (kind === 'paper') return `paper:${name}`;
+  const key = name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  return `${kind}:${key}`;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { NGramExtractor, VocabularyExtractor, classifyConceptType, normalizeConceptId } from './extractors.js';
+
+describe('NGramExtractor', () => {
+  it('should keep repeated phrases and classify them', () => {
+    const extractor = new NGramExtractor();
+    const concepts = extractor.extract(
+      'A sequencing protocol is proposed. The sequencing protocol is fast.',
+      'paper1'
+    );
+
+    const protocol = concepts.find(c => c.id === 'sequencing_protocol');
+    expect(protocol).toBeDefined();
+    expect(protocol!.type).toBe('method');
+    expect(protocol!.frequency).toBe(2);
+  });
+});
+
+describe('VocabularyExtractor', () => {
+  const extractor = new VocabularyExtractor([
+    { id: 'D1', term: 'Neural Network', synonyms: ['neural networks', 'ANN'], type: 'method' },
+    { term: 'neural network pruning', synonyms: [], type: 'method' },
+    { term: 'extracellular matrix', synonyms: ['ECM'], type: 'material' },
+  ]);
+
+  it('should map synonyms onto the preferred term', () => {
+    const concepts = extractor.extract(
+      'Neural networks and an ANN model the ECM stiffness.',
+      'paper1'
+    );
+
+    const network = concepts.find(c => c.id === 'neural_network');
+    expect(network).toBeDefined();
+    expect(network!.frequency).toBe(2);
+    expect(network!.properties.vocabularyId).toBe('D1');
+
+    const matrix = concepts.find(c => c.id === 'extracellular_matrix');
+    expect(matrix!.type).toBe('material');
+  });
+
+  it('should prefer the longest matching term', () => {
+    const concepts = extractor.extract('We study neural network pruning.', 'paper1');
+
+    expect(concepts.map(c => c.id)).toEqual(['neural_network_pruning']);
+  });
+
+  it('should ignore text outside the vocabulary', () => {
+    const concepts = extractor.extract('We present a novel approach.', 'paper1');
+
+    expect(concepts).toHaveLength(0);
+  });
+});
+
+describe('classifyConceptType', () => {
+  it('should classify singular and plural term heads', () => {
+    expect(classifyConceptType('deep learning method')).toBe('method');
+    expect(classifyConceptType('deep learning methods')).toBe('method');
+    expect(classifyConceptType('graph approaches')).toBe('method');
+    expect(classifyConceptType('stem cells')).toBe('material');
+    expect(classifyConceptType('language models')).toBe('theory');
+    expect(classifyConceptType('competing hypotheses')).toBe('theory');
+    expect(classifyConceptType('quantum phenomena')).toBe('phenomenon');
+    expect(classifyConceptType('deep learning')).toBe('concept');
+  });
+});
+
+describe('normalizeConceptId', () => {
+  it('should produce underscore-separated IDs', () => {
+    expect(normalizeConceptId('Protein  Folding-Rate')).toBe('protein_foldingrate');
+  });
+});
@@ -0,0 +1,229 @@
+import { parse } from 'csv-parse/sync';
+import { readFile } from 'fs/promises';
+import type { ConceptNode, Paper } from '../types/index.js';
+
+/**
+ * Strategy for turning paper text into concept nodes
+ */
+export interface ConceptExtractor {
+  /**
+   * Optional corpus-level pass, called with all papers before extraction
+   */
+  prepare?(papers: Paper[]): void;
+
+  /**
+   * Extract the concepts mentioned in a paper's text
+   */
+  extract(text: string, paperId: string): ConceptNode[];
+}
+
+/**
+ * Entry in a controlled vocabulary (MeSH-style preferred term with synonyms)
+ */
+export interface VocabularyEntry {
+  id?: string;
+  term: string;
+  synonyms: string[];
+  type: ConceptNode['type'];
+}
+
+export const CONCEPT_TYPES: ConceptNode['type'][] = [
+  'concept',
+  'method',
+  'material',
+  'theory',
+  'phenomenon',
+];
+
+// Common scientific term patterns, singular or plural
+const CONCEPT_PATTERNS: Record<string, RegExp> = {
+  method: /\b(methods?|techniques?|approach(?:es)?|algorithms?|procedures?|protocols?|assays?)\b/i,
+  material: /\b(materials?|compounds?|proteins?|molecules?|cells?|tissues?|polymers?|composites?)\b/i,
+  theory: /\b(theor(?:y|ies)|models?|hypothes[ie]s|frameworks?|paradigms?|principles?)\b/i,
+  phenomenon: /\b(effects?|phenomen(?:on|a)|process(?:es)?|mechanisms?|pathways?|interactions?)\b/i,
+};
+
+/**
+ * Classify concept type based on keyword patterns
+ */
+export function classifyConceptType(phrase: string): ConceptNode['type'] {
+  for (const [type, pattern] of Object.entries(CONCEPT_PATTERNS)) {
+    if (pattern.test(phrase)) {
+      return type as ConceptNode['type'];
+    }
+  }
+  return 'concept'; // default
+}
+
+/**
+ * Normalize a phrase into a stable concept ID
+ */
+export function normalizeConceptId(phrase: string): string {
+  return phrase.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
+}
+
+/**
+ * Frequency-based n-gram extractor
+ * Keeps bigrams and trigrams that repeat within a paper and classifies
+ * them with keyword patterns
+ */
+export class NGramExtractor implements ConceptExtractor {
+  extract(text: string, paperId: string): ConceptNode[] {
+    const concepts: ConceptNode[] = [];
+
+    // Extract key phrases (2-4 word combinations)
+    const words = text.toLowerCase().match(/\b[a-z]+(?:-[a-z]+)?\b/g) || [];
+    const phrases: string[] = [];
+
+    for (let i = 0; i < words.length - 1; i++) {
+      // Bigrams
+      phrases.push(`${words[i]} ${words[i + 1]}`);
+      // Trigrams
+      if (i < words.length - 2) {
+        phrases.push(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+      }
+    }
+
+    // Filter and classify phrases
+    const phraseFreq = new Map<string, number>();
+    phrases.forEach(phrase => {
+      phraseFreq.set(phrase, (phraseFreq.get(phrase) || 0) + 1);
+    });
+
+    // Keep phrases that appear at least twice
+    for (const [phrase, freq] of phraseFreq) {
+      if (freq >= 2 && phrase.length > 5) {
+        concepts.push({
+          id: normalizeConceptId(phrase),
+          label: phrase,
+          type: classifyConceptType(phrase),
+          properties: {},
+          papers: [paperId],
+          frequency: freq,
+        });
+      }
+    }
+
+    return concepts;
+  }
+}
+
+/**
+ * Dictionary (gazetteer) extractor backed by a controlled vocabulary
+ * Matches preferred terms and synonyms, longest match first, and takes the
+ * concept type from the vocabulary
+ */
+export class VocabularyExtractor implements ConceptExtractor {
+  private lookup: Map<string, VocabularyEntry>;
+  private maxTokens: number;
+
+  constructor(entries: VocabularyEntry[]) {
+    this.lookup = new Map();
+    this.maxTokens = 1;
+
+    for (const entry of entries) {
+      for (const surface of [entry.term, ...entry.synonyms]) {
+        const tokens = tokenize(surface);
+        if (tokens.length === 0) continue;
+
+        const key = tokens.join(' ');
+        // First entry wins when two terms share a synonym
+        if (!this.lookup.has(key)) {
+          this.lookup.set(key, entry);
+        }
+        this.maxTokens = Math.max(this.maxTokens, tokens.length);
+      }
+    }
+  }
+
+  /**
+   * Load a vocabulary from a TSV file
+   * Expected columns: term, synonyms (separated by "|" or ";"), type and an
+   * optional id. MeSH-style headers (PreferredTerm, Synonyms, TreeType, UI)
+   * are also recognized.
+   */
+  static async fromFile(filePath: string): Promise<VocabularyExtractor> {
+    const content = await readFile(filePath, 'utf-8');
+    const records = parse(content, {
+      columns: (header: string[]) => header.map(h => h.trim().toLowerCase()),
+      delimiter: '\t',
+      skip_empty_lines: true,
+      relax_column_count: true,
+      quote: false,
+    });
+
+    const entries: VocabularyEntry[] = records
+      .map((record: any) => ({
+        id: record.id || record.ui || undefined,
+        term: (record.term || record.preferredterm || record.preferred_term || '').trim(),
+        synonyms: (record.synonyms || '')
+          .split(/[|;]/)
+          .map((s: string) => s.trim())
+          .filter((s: string) => s.length > 0),
+        type: parseConceptType(record.type || record.treetype || ''),
+      }))
+      .filter((entry: VocabularyEntry) => entry.term.length > 0);
+
+    console.log(`Loaded ${entries.length} vocabulary terms from ${filePath}`);
+    return new VocabularyExtractor(entries);
+  }
+
+  extract(text: string, paperId: string): ConceptNode[] {
+    const tokens = tokenize(text);
+    const matches = new Map<string, ConceptNode>();
+
+    let i = 0;
+    while (i < tokens.length) {
+      let matched = 0;
+
+      // Longest match first
+      for (let n = Math.min(this.maxTokens, tokens.length - i); n > 0; n--) {
+        const entry = this.lookup.get(tokens.slice(i, i + n).join(' '));
+        if (!entry) continue;
+
+        const conceptId = normalizeConceptId(entry.term);
+        const existing = matches.get(conceptId);
+        if (existing) {
+          existing.frequency++;
+        } else {
+          matches.set(conceptId, {
+            id: conceptId,
+            label: entry.term.toLowerCase(),
+            type: entry.type,
+            properties: entry.id ? { vocabularyId: entry.id } : {},
+            papers: [paperId],
+            frequency: 1,
+          });
+        }
+        matched = n;
+        break;
+      }
+
+      i += matched || 1;
+    }
+
+    return Array.from(matches.values());
+  }
+
+  /**
+   * Number of distinct surface forms in the vocabulary
+   */
+  get size(): number {
+    return this.lookup.size;
+  }
+}
+
+/**
+ * Split text into lowercase alphanumeric tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 0);
+}
+
+/**
+ * Helper: map a vocabulary type label onto a concept type
+ */
+function parseConceptType(value: string): ConceptNode['type'] {
+  const type = value.trim().toLowerCase() as ConceptNode['type'];
+  return CONCEPT_TYPES.includes(type) ? type : 'concept';
+}
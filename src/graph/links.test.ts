@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { LinkPredictor } from './links.js';
+import { GraphReasoner } from './reasoner.js';
+import { conceptEdge, conceptGraph } from '../test/fixtures.js';
+
+/**
+ * a and b share neighbours c and d; d is also linked to e (a hub of degree 3)
+ *   a - c - b
+ *   a - d - b
+ *       d - e
+ */
+function sampleGraph() {
+  return conceptGraph(
+    ['a', 'b', 'c', 'd', 'e'],
+    [
+      conceptEdge('a', 'c'),
+      conceptEdge('c', 'b'),
+      conceptEdge('a', 'd'),
+      conceptEdge('b', 'd'),
+      conceptEdge('d', 'e'),
+    ]
+  );
+}
+
+describe('LinkPredictor', () => {
+  const predictor = new LinkPredictor(sampleGraph());
+
+  it('should score shared neighbours with Adamic-Adar and resource allocation', () => {
+    expect(predictor.score('a', 'b', 'adamic_adar')).toBeCloseTo(1 / Math.log(2) + 1 / Math.log(3));
+    expect(predictor.score('a', 'b', 'resource_allocation')).toBeCloseTo(1 / 2 + 1 / 3);
+    expect(predictor.score('a', 'e', 'resource_allocation')).toBeCloseTo(1 / 3);
+  });
+
+  it('should compute Jaccard over undirected neighbourhoods', () => {
+    // N(a) = {c, d}, N(b) = {c, d}
+    expect(predictor.score('a', 'b', 'jaccard')).toBe(1);
+    // N(a) = {c, d}, N(e) = {d}
+    expect(predictor.score('a', 'e', 'jaccard')).toBe(0.5);
+  });
+
+  it('should count damped walks with Katz', () => {
+    // Two walks of length 2 from a to b; walks of length 3 need an a-b edge
+    expect(predictor.score('a', 'b', 'katz', { katzBeta: 0.1, katzMaxLength: 3 })).toBeCloseTo(0.02);
+    // One walk of length 2 (a-d-e) and none of length 3
+    expect(predictor.score('a', 'e', 'katz', { katzBeta: 0.1 })).toBeCloseTo(0.01);
+    // c-a-d-e and c-b-d-e
+    expect(predictor.score('c', 'e', 'katz', { katzBeta: 0.1 })).toBeCloseTo(0.002);
+  });
+
+  it('should rank only absent links, once per pair', () => {
+    const links = predictor.predict({ method: 'adamic_adar' });
+
+    // c and d share two neighbours of degree 2
+    expect(links.map(l => `${l.source}-${l.target}`)).toEqual(['c-d', 'a-b', 'a-e', 'b-e']);
+    expect(links[1].via).toEqual(['c', 'd']);
+    expect(predictor.predict({ method: 'adamic_adar', sources: ['e'], limit: 1 })).toMatchObject([
+      { source: 'e', target: 'a' },
+    ]);
+  });
+
+  it('should rank by embedding similarity without shared neighbours', () => {
+    const graph = sampleGraph();
+    graph.setNodeAttribute('c', 'embedding', [1, 0]);
+    graph.setNodeAttribute('e', 'embedding', [0.9, 0.1]);
+    graph.setNodeAttribute('a', 'embedding', [0, 1]);
+
+    const links = new LinkPredictor(graph).predict({ method: 'embedding', sources: ['c'] });
+
+    expect(links.map(l => l.target)).toEqual(['e']);
+    expect(links[0].via).toEqual([]);
+  });
+});
+
+describe('GraphReasoner.predictedLinkPath', () => {
+  it('should build a synthetic path across the predicted link', () => {
+    const reasoner = new GraphReasoner(sampleGraph());
+    const [link] = reasoner.predictLinks({ method: 'adamic_adar', sources: ['a'], limit: 1 });
+
+    const path = reasoner.predictedLinkPath(link);
+
+    expect(path.nodes.map(n => n.id)).toEqual(['a', 'b']);
+    expect(path.edges[0]).toMatchObject({
+      source: 'a',
+      target: 'b',
+      weight: 0,
+      evidence: [],
+      predicted: { method: 'adamic_adar', via: ['c', 'd'] },
+    });
+    expect(path.novelty).toBeGreaterThan(0);
+  });
+});
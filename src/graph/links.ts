@@ -0,0 +1,215 @@
+import Graph from 'graphology';
+import type { ConceptNode, LinkPredictionMethod } from '../types/index.js';
+import { cosineSimilarity } from './embeddings.js';
+
+export const LINK_PREDICTION_METHODS: LinkPredictionMethod[] = [
+  'adamic_adar',
+  'resource_allocation',
+  'jaccard',
+  'katz',
+  'embedding',
+];
+
+/**
+ * Options for link prediction
+ */
+export interface LinkPredictionOptions {
+  method: LinkPredictionMethod;
+  limit: number; // Keep at most this many predictions
+  sources?: string[]; // Only predict links from these concepts (default: all)
+  katzBeta: number; // Katz: damping per additional step
+  katzMaxLength: number; // Katz: longest walk counted
+}
+
+export const DEFAULT_LINK_PREDICTION_OPTIONS: LinkPredictionOptions = {
+  method: 'adamic_adar',
+  limit: 20,
+  katzBeta: 0.05,
+  katzMaxLength: 3,
+};
+
+/**
+ * Concept pair without an edge, ranked by how likely a link is
+ */
+export interface PredictedLink {
+  source: string;
+  target: string;
+  score: number;
+  method: LinkPredictionMethod;
+  via: string[]; // Shared neighbours (empty for embedding predictions)
+}
+
+/**
+ * Ranks non-adjacent concept pairs by neighbourhood-based link predictors
+ * (Liben-Nowell & Kleinberg, 2007) or embedding similarity
+ *
+ * Edge direction is ignored: two concepts are neighbours when an edge joins
+ * them either way. Neighbourhood predictors only score pairs with a common
+ * neighbour (Katz: a walk of at most `katzMaxLength` steps); the embedding
+ * predictor compares every pair of embedded concepts, which is quadratic in
+ * the number of concepts unless `sources` is given.
+ */
+export class LinkPredictor {
+  private graph: Graph;
+
+  constructor(graph: Graph) {
+    this.graph = graph;
+  }
+
+  /**
+   * Highest-scoring absent links
+   */
+  predict(options: Partial<LinkPredictionOptions> = {}): PredictedLink[] {
+    const opts = { ...DEFAULT_LINK_PREDICTION_OPTIONS, ...options };
+    const sources = opts.sources
+      ? opts.sources.filter(id => this.graph.hasNode(id))
+      : this.graph.nodes();
+    // With all nodes as sources, each unordered pair is scored once
+    const onePerPair = !opts.sources;
+    const predictions: PredictedLink[] = [];
+
+    for (const source of sources) {
+      const scores =
+        opts.method === 'katz'
+          ? this.katzScores(source, opts.katzBeta, opts.katzMaxLength)
+          : opts.method === 'embedding'
+            ? this.embeddingScores(source)
+            : this.neighbourhoodScores(source, opts.method);
+
+      for (const [target, score] of scores) {
+        if (target === source || this.adjacent(source, target)) continue;
+        if (onePerPair && target < source) continue;
+        if (!(score > 0)) continue;
+
+        predictions.push({
+          source,
+          target,
+          score,
+          method: opts.method,
+          via: opts.method === 'embedding' ? [] : this.commonNeighbours(source, target),
+        });
+      }
+    }
+
+    return predictions
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.source.localeCompare(b.source) ||
+          a.target.localeCompare(b.target)
+      )
+      .slice(0, opts.limit);
+  }
+
+  /**
+   * Score of one concept pair under a method (0 when unrelated)
+   */
+  score(
+    source: string,
+    target: string,
+    method: LinkPredictionMethod,
+    options: Partial<LinkPredictionOptions> = {}
+  ): number {
+    const opts = { ...DEFAULT_LINK_PREDICTION_OPTIONS, ...options };
+    const scores =
+      method === 'katz'
+        ? this.katzScores(source, opts.katzBeta, opts.katzMaxLength)
+        : method === 'embedding'
+          ? this.embeddingScores(source)
+          : this.neighbourhoodScores(source, method);
+    return scores.get(target) || 0;
+  }
+
+  /**
+   * Adamic-Adar, resource allocation and Jaccard scores from one source to
+   * every concept two steps away
+   */
+  private neighbourhoodScores(source: string, method: LinkPredictionMethod): Map<string, number> {
+    const scores = new Map<string, number>();
+    const sourceDegree = this.graph.degree(source);
+
+    for (const neighbour of this.graph.neighbors(source)) {
+      const degree = this.graph.degree(neighbour);
+      const contribution =
+        method === 'adamic_adar' ? 1 / Math.log(degree) : method === 'resource_allocation' ? 1 / degree : 1;
+
+      for (const target of this.graph.neighbors(neighbour)) {
+        if (target === source) continue;
+        // A shared neighbour has degree >= 2, so log(degree) > 0
+        scores.set(target, (scores.get(target) || 0) + contribution);
+      }
+    }
+
+    if (method === 'jaccard') {
+      for (const [target, common] of scores) {
+        const union = sourceDegree + this.graph.degree(target) - common;
+        scores.set(target, common / union);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Truncated Katz index: sum over walk lengths l >= 2 of beta^l times the
+   * number of walks of length l from the source
+   */
+  private katzScores(source: string, beta: number, maxLength: number): Map<string, number> {
+    const scores = new Map<string, number>();
+    let walks = new Map<string, number>([[source, 1]]);
+
+    for (let length = 1; length <= maxLength; length++) {
+      const next = new Map<string, number>();
+      for (const [node, count] of walks) {
+        for (const neighbour of this.graph.neighbors(node)) {
+          next.set(neighbour, (next.get(neighbour) || 0) + count);
+        }
+      }
+      walks = next;
+
+      if (length < 2) continue;
+      const weight = beta ** length;
+      for (const [node, count] of walks) {
+        scores.set(node, (scores.get(node) || 0) + weight * count);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Cosine similarity from one source to every embedded concept
+   */
+  private embeddingScores(source: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const query = (this.graph.getNodeAttributes(source) as ConceptNode).embedding;
+    if (!query || query.length === 0) return scores;
+
+    this.graph.forEachNode((nodeId, attrs) => {
+      const embedding = (attrs as ConceptNode).embedding;
+      if (nodeId !== source && embedding) {
+        scores.set(nodeId, cosineSimilarity(query, embedding));
+      }
+    });
+
+    return scores;
+  }
+
+  /**
+   * Helper: whether an edge joins two concepts in either direction
+   */
+  private adjacent(a: string, b: string): boolean {
+    return this.graph.hasEdge(a, b) || this.graph.hasEdge(b, a);
+  }
+
+  /**
+   * Helper: neighbours shared by two concepts, sorted by ID
+   */
+  private commonNeighbours(a: string, b: string): string[] {
+    const neighbours = new Set(this.graph.neighbors(a));
+    return this.graph
+      .neighbors(b)
+      .filter(n => neighbours.has(n))
+      .sort();
+  }
+}
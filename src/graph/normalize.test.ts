@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConceptNormalizer,
+  canonicalLabel,
+  findAcronymDefinitions,
+  singularize,
+} from './normalize.js';
+import { conceptNode, testPaper } from '../test/fixtures.js';
+
+const concept = (label: string, papers: string[], frequency = papers.length) =>
+  conceptNode(label, { label, type: 'method', papers, frequency });
+
+const paper = (id: string, abstract: string) => testPaper(id, { title: '', abstract });
+
+describe('singularize', () => {
+  it('should handle regular, irregular and invariant forms', () => {
+    expect(singularize('networks')).toBe('network');
+    expect(singularize('therapies')).toBe('therapy');
+    expect(singularize('approaches')).toBe('approach');
+    expect(singularize('analyses')).toBe('analysis');
+    expect(singularize('phenomena')).toBe('phenomenon');
+    expect(singularize('species')).toBe('species');
+    expect(singularize('process')).toBe('process');
+    expect(singularize('genomics')).toBe('genomics');
+  });
+});
+
+describe('canonicalLabel', () => {
+  it('should unify hyphens and singularize the head noun', () => {
+    expect(canonicalLabel('Neural-Networks')).toBe('neural network');
+    expect(canonicalLabel('neural networks')).toBe('neural network');
+    expect(canonicalLabel('effects of stress hormones')).toBe('effect of stress hormones');
+  });
+});
+
+describe('findAcronymDefinitions', () => {
+  it('should match long forms to short forms', () => {
+    const definitions = findAcronymDefinitions(
+      'We train convolutional neural networks (CNNs) and measure long-term potentiation (LTP). See the results (Fig).'
+    );
+
+    expect(definitions).toEqual([
+      { shortForm: 'CNN', longForm: 'convolutional neural networks' },
+      { shortForm: 'LTP', longForm: 'long-term potentiation' },
+    ]);
+  });
+});
+
+describe('ConceptNormalizer', () => {
+  it('should merge plural, hyphen and acronym variants into one concept', () => {
+    const normalizer = new ConceptNormalizer();
+    const papers = [
+      paper('p1', 'A convolutional neural network (CNN) classifies images.'),
+      paper('p2', 'Convolutional neural networks generalize.'),
+      paper('p3', 'The CNN was pruned.'),
+      paper('p4', 'A convolutional-neural-network baseline.'),
+    ];
+    const concepts = new Map(
+      [
+        concept('convolutional neural network', ['p1'], 2),
+        concept('convolutional neural networks', ['p2']),
+        concept('convolutional-neural-network', ['p4']),
+      ].map(c => [c.id, c])
+    );
+
+    normalizer.learnAcronyms(papers);
+    const merged = normalizer.normalize(concepts, papers);
+
+    expect(merged.size).toBe(1);
+    const cnn = merged.get('convolutional_neural_network')!;
+    expect(cnn.label).toBe('convolutional neural network');
+    expect(cnn.papers.sort()).toEqual(['p1', 'p2', 'p3', 'p4']);
+    expect(cnn.frequency).toBe(5);
+    expect(cnn.properties.aliases).toEqual([
+      'convolutional neural networks',
+      'convolutional-neural-network',
+      'CNN',
+    ]);
+  });
+
+  it('should map acronym labels onto their long form', () => {
+    const normalizer = new ConceptNormalizer();
+    normalizer.learnAcronyms([paper('p1', 'Tumor necrosis factor (TNF) signaling.')]);
+
+    expect(normalizer.canonicalId('TNF')).toBe('tumor_necrosis_factor');
+    expect(normalizer.canonicalId('gene expressions')).toBe('gene_expression');
+  });
+
+  it('should only expand lowercased labels of acronyms written in capitals', () => {
+    const normalizer = new ConceptNormalizer();
+    normalizer.learnAcronyms([paper('p1', 'Genetic algorithms (GAs) search large spaces.')]);
+    const written = normalizer.writtenAcronyms('Two GAs were compared with gas sensors.');
+
+    expect(written).toEqual(new Set(['GA']));
+    expect(normalizer.canonicalLabel('GA')).toBe('genetic algorithm');
+    expect(normalizer.canonicalLabel('GAs')).toBe('genetic algorithm');
+    expect(normalizer.canonicalLabel('gas', written)).toBe('genetic algorithm');
+    expect(normalizer.canonicalLabel('ga', written)).toBe('genetic algorithm');
+    expect(normalizer.canonicalLabel('gas')).toBe('gas');
+    expect(normalizer.canonicalLabel('ga')).toBe('ga');
+  });
+});
@@ -0,0 +1,339 @@
+import type { ConceptNode, Paper } from '../types/index.js';
+import { normalizeConceptId, tokenize } from './extractors.js';
+
+/**
+ * Acronym defined in text, e.g. "convolutional neural network (CNN)"
+ */
+export interface AcronymDefinition {
+  shortForm: string;
+  longForm: string;
+}
+
+// Irregular plurals common in scientific text
+const IRREGULAR_PLURALS: Record<string, string> = {
+  analyses: 'analysis',
+  hypotheses: 'hypothesis',
+  syntheses: 'synthesis',
+  theses: 'thesis',
+  diagnoses: 'diagnosis',
+  prognoses: 'prognosis',
+  metastases: 'metastasis',
+  matrices: 'matrix',
+  indices: 'index',
+  vertices: 'vertex',
+  appendices: 'appendix',
+  phenomena: 'phenomenon',
+  criteria: 'criterion',
+  bacteria: 'bacterium',
+  stimuli: 'stimulus',
+  nuclei: 'nucleus',
+  loci: 'locus',
+  fungi: 'fungus',
+  foci: 'focus',
+  genera: 'genus',
+  spectra: 'spectrum',
+  maxima: 'maximum',
+  minima: 'minimum',
+  viruses: 'virus',
+  children: 'child',
+  mice: 'mouse',
+  teeth: 'tooth',
+};
+
+// Words ending in "s" that are not plurals
+const INVARIANT_WORDS = new Set([
+  'species', 'series', 'diabetes', 'herpes', 'news', 'means', 'bias', 'gas',
+  'lens', 'atlas', 'chaos', 'canvas', 'mucus', 'sepsis',
+]);
+
+const INVARIANT_SUFFIXES = ['ss', 'us', 'is', 'ics'];
+
+/**
+ * Reduce a plural noun to its singular form
+ */
+export function singularize(word: string): string {
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.length <= 3 || !word.endsWith('s') || INVARIANT_WORDS.has(word)) return word;
+  if (INVARIANT_SUFFIXES.some(suffix => word.endsWith(suffix))) return word;
+
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(?:ch|sh|x|z|ss)es$/.test(word)) return word.slice(0, -2);
+  return word.slice(0, -1);
+}
+
+/**
+ * Canonical form of a concept label
+ * Hyphens and spaces are unified and the head noun (the last word, or the
+ * word before "of") is singularized: "Neural-Networks" -> "neural network",
+ * "effects of stress" -> "effect of stress"
+ */
+export function canonicalLabel(label: string): string {
+  const tokens = tokenize(label);
+  if (tokens.length === 0) return label.toLowerCase();
+
+  const of = tokens.indexOf('of');
+  const head = of > 0 ? of - 1 : tokens.length - 1;
+  tokens[head] = singularize(tokens[head]);
+
+  return tokens.join(' ');
+}
+
+/**
+ * Find acronym definitions of the form "long form (SF)"
+ * Long forms are matched character by character from the end of the short
+ * form (Schwartz & Hearst, 2003), so "long-term potentiation (LTP)" and
+ * "tumour necrosis factor (TNF)" are found but "the results (Fig)" is not
+ */
+export function findAcronymDefinitions(text: string): AcronymDefinition[] {
+  const definitions: AcronymDefinition[] = [];
+  const pattern = /\(\s*([A-Za-z][A-Za-z0-9-]{0,9})\s*\)/g;
+
+  for (const match of text.matchAll(pattern)) {
+    // Plural short forms: "CNNs" defines "CNN"
+    const shortForm = /^[A-Z0-9-]+s$/.test(match[1]) ? match[1].slice(0, -1) : match[1];
+    if ((shortForm.match(/[A-Z]/g) || []).length < 2) continue;
+
+    const letters = shortForm.replace(/[^A-Za-z0-9]/g, '');
+    const preceding = text.slice(0, match.index).split(/[.;:!?()[\],]/).pop()!.trim();
+    const words = preceding.split(/\s+/).filter(w => w.length > 0);
+    const window = words.slice(-Math.min(letters.length + 5, letters.length * 2)).join(' ');
+
+    const longForm = matchLongForm(letters, window);
+    if (!longForm || tokenize(longForm).length < 2) continue;
+
+    definitions.push({ shortForm, longForm: longForm.toLowerCase() });
+  }
+
+  return definitions;
+}
+
+/**
+ * Merges concept variants into canonical nodes
+ * Plural, hyphenation and acronym variants of a concept become a single node
+ * whose `properties.aliases` lists the other surface forms
+ */
+export class ConceptNormalizer {
+  // Acronym -> canonical long form, most frequent definition in the corpus
+  private acronyms: Map<string, string>;
+  private definitionCounts: Map<string, Map<string, number>>;
+
+  constructor() {
+    this.acronyms = new Map();
+    this.definitionCounts = new Map();
+  }
+
+  /**
+   * Collect acronym definitions from paper titles and abstracts
+   */
+  learnAcronyms(papers: Paper[]): void {
+    for (const paper of papers) {
+      for (const { shortForm, longForm } of findAcronymDefinitions(`${paper.title}. ${paper.abstract}`)) {
+        if (!this.definitionCounts.has(shortForm)) this.definitionCounts.set(shortForm, new Map());
+        const counts = this.definitionCounts.get(shortForm)!;
+        const canonical = canonicalLabel(longForm);
+        counts.set(canonical, (counts.get(canonical) || 0) + 1);
+      }
+    }
+
+    for (const [shortForm, counts] of this.definitionCounts) {
+      const best = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+      this.acronyms.set(shortForm, best);
+    }
+  }
+
+  /**
+   * Canonical label for a concept label, expanding defined acronyms
+   * Extractors lowercase labels, so a label such as "cnn" or "gas" is only
+   * expanded when `written` (the acronyms written in capitals in the papers
+   * it came from, see `writtenAcronyms`) holds its short form
+   */
+  canonicalLabel(label: string, written?: Set<string>): string {
+    const shortForm = this.acronymFor(label, written);
+    return shortForm ? this.acronyms.get(shortForm)! : canonicalLabel(label.trim());
+  }
+
+  /**
+   * Helper: defined short form that a label stands for, if any
+   */
+  private acronymFor(label: string, written: Set<string> = new Set()): string | undefined {
+    const trimmed = label.trim();
+    if (this.acronyms.has(trimmed)) return trimmed;
+    if (/^[A-Z0-9-]+s$/.test(trimmed) && this.acronyms.has(trimmed.slice(0, -1))) return trimmed.slice(0, -1);
+
+    const lower = trimmed.toLowerCase();
+    return Array.from(written).find(sf => lower === sf.toLowerCase() || lower === `${sf.toLowerCase()}s`);
+  }
+
+  /**
+   * Stable concept ID for a label
+   */
+  canonicalId(label: string, written?: Set<string>): string {
+    return normalizeConceptId(this.canonicalLabel(label, written));
+  }
+
+  /**
+   * Defined acronyms written in a text, as short forms
+   * Acronyms are matched case-sensitively, so "CNN" and "CNNs" count but
+   * "cnn" does not
+   */
+  writtenAcronyms(text: string): Set<string> {
+    const written = new Set<string>();
+    if (this.acronyms.size === 0) return written;
+
+    for (const token of text.split(/[^A-Za-z0-9-]+/)) {
+      const shortForm = this.acronyms.has(token) ? token : token.replace(/s$/, '');
+      if (this.acronyms.has(shortForm)) written.add(shortForm);
+    }
+
+    return written;
+  }
+
+  /**
+   * Canonical IDs of the defined acronyms used in a text
+   */
+  acronymMentions(text: string): Map<string, string> {
+    const mentions = new Map<string, string>();
+    for (const shortForm of this.writtenAcronyms(text)) {
+      mentions.set(normalizeConceptId(this.acronyms.get(shortForm)!), shortForm);
+    }
+    return mentions;
+  }
+
+  /**
+   * Merge concept variants; paper lists are unioned and aliases recorded
+   */
+  normalize(concepts: Map<string, ConceptNode>, papers: Paper[]): Map<string, ConceptNode> {
+    const groups = new Map<string, { label: string; members: ConceptNode[] }>();
+    const written = new Map(
+      papers.map(paper => [paper.id, this.writtenAcronyms(`${paper.title} ${paper.abstract}`)])
+    );
+
+    for (const concept of concepts.values()) {
+      // A lowercased label can be an acronym in one paper ("GAs") and a word
+      // in another ("gas"), so its papers are split by how they write it
+      const readings = new Map<string | undefined, string[]>();
+      for (const paperId of concept.papers) {
+        const shortForm = this.acronymFor(concept.label, written.get(paperId));
+        if (!readings.has(shortForm)) readings.set(shortForm, []);
+        readings.get(shortForm)!.push(paperId);
+      }
+      if (readings.size === 0) readings.set(this.acronymFor(concept.label), []);
+
+      for (const [shortForm, paperIds] of readings) {
+        const member =
+          readings.size === 1
+            ? concept
+            : { ...concept, papers: paperIds, frequency: paperIds.length };
+        const label = this.canonicalLabel(shortForm ?? concept.label);
+        const id = normalizeConceptId(label);
+        if (!groups.has(id)) groups.set(id, { label, members: [] });
+        groups.get(id)!.members.push(shortForm ? { ...member, label: shortForm } : member);
+      }
+    }
+
+    const merged = new Map<string, ConceptNode>();
+    for (const [id, { label, members }] of groups) {
+      merged.set(id, mergeVariants(id, label, members));
+    }
+
+    // Papers that only use the acronym still mention the concept
+    const paperSets = new Map<string, Set<string>>();
+    for (const paper of papers) {
+      for (const shortForm of written.get(paper.id)!) {
+        const conceptId = normalizeConceptId(this.acronyms.get(shortForm)!);
+        const concept = merged.get(conceptId);
+        if (!concept) continue;
+
+        if (!paperSets.has(conceptId)) paperSets.set(conceptId, new Set(concept.papers));
+        const known = paperSets.get(conceptId)!;
+
+        addAlias(concept, shortForm);
+        if (!known.has(paper.id)) {
+          known.add(paper.id);
+          concept.papers.push(paper.id);
+          concept.frequency++;
+        }
+      }
+    }
+
+    const variants = concepts.size - merged.size;
+    if (variants > 0) {
+      console.log(`Merged ${variants} concept variants (plurals, hyphenation, acronyms)`);
+    }
+    return merged;
+  }
+}
+
+/**
+ * Surface forms of a concept: its label followed by its aliases
+ */
+export function conceptSurfaceForms(concept: ConceptNode): string[] {
+  const aliases = concept.properties.aliases;
+  return [concept.label, ...(Array.isArray(aliases) ? (aliases as string[]) : [])];
+}
+
+/**
+ * Helper: merge variant nodes into one, keeping the most frequent variant's
+ * type and properties
+ */
+function mergeVariants(id: string, label: string, members: ConceptNode[]): ConceptNode {
+  const sorted = [...members].sort((a, b) => b.frequency - a.frequency);
+  const main = sorted[0];
+  const papers = Array.from(new Set(sorted.flatMap(m => m.papers)));
+  const listed = sorted.reduce((sum, m) => sum + m.papers.length, 0);
+  const concept: ConceptNode = {
+    ...main,
+    id,
+    label,
+    properties: { ...main.properties },
+    papers,
+    // Count each paper once when several variants appear in it
+    frequency: sorted.reduce((sum, m) => sum + m.frequency, 0) - (listed - papers.length),
+  };
+  delete concept.properties.aliases;
+
+  for (const member of sorted) {
+    for (const form of conceptSurfaceForms(member)) addAlias(concept, form);
+  }
+  return concept;
+}
+
+/**
+ * Helper: record an alternative surface form
+ */
+function addAlias(concept: ConceptNode, alias: string): void {
+  const lower = alias.toLowerCase();
+  if (lower === concept.label) return;
+
+  const aliases = (concept.properties.aliases as string[] | undefined) || [];
+  if (!aliases.some(a => a.toLowerCase() === lower)) {
+    concept.properties.aliases = [...aliases, alias];
+  }
+}
+
+/**
+ * Helper: Schwartz-Hearst long form match for a short form
+ */
+function matchLongForm(shortForm: string, candidate: string): string | undefined {
+  let s = shortForm.length - 1;
+  let l = candidate.length - 1;
+
+  while (s >= 0) {
+    const c = shortForm[s].toLowerCase();
+
+    // The first character of the short form must start a word
+    while (
+      l >= 0 &&
+      (candidate[l].toLowerCase() !== c ||
+        (s === 0 && l > 0 && /[a-z0-9]/i.test(candidate[l - 1])))
+    ) {
+      l--;
+    }
+    if (l < 0) return undefined;
+
+    l--;
+    s--;
+  }
+
+  return candidate.slice(candidate.lastIndexOf(' ', l) + 1);
+}
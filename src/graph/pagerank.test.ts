@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { personalizedPageRank } from './pagerank.js';
+import { GraphReasoner } from './reasoner.js';
+import { conceptEdge, conceptGraph } from '../test/fixtures.js';
+
+/**
+ * gut microbiome - serotonin - depression - sleep, with gut bacteria and
+ * gut flora hanging off gut microbiome, and a typed edge from
+ * sleep to insomnia
+ */
+function sampleGraph() {
+  return conceptGraph(
+    ['gut_microbiome', 'gut_bacteria', 'gut_flora', 'serotonin', 'depression', 'sleep', 'insomnia'],
+    [
+      conceptEdge('gut_microbiome', 'gut_bacteria'),
+      conceptEdge('gut_microbiome', 'gut_flora'),
+      conceptEdge('gut_microbiome', 'serotonin'),
+      conceptEdge('serotonin', 'depression'),
+      conceptEdge('depression', 'sleep'),
+      conceptEdge('sleep', 'insomnia', { type: 'enables' }),
+    ]
+  );
+}
+
+describe('personalizedPageRank', () => {
+  it('should concentrate relevance around the seeds', () => {
+    const scores = personalizedPageRank(sampleGraph(), new Map([['serotonin', 1]]));
+    const total = Array.from(scores.values()).reduce((a, b) => a + b, 0);
+
+    expect(total).toBeCloseTo(1, 6);
+    expect(scores.get('serotonin')!).toBeGreaterThan(scores.get('depression')!);
+    expect(scores.get('depression')!).toBeGreaterThan(scores.get('sleep')!);
+  });
+
+  it('should follow typed relations forward only', () => {
+    const scores = personalizedPageRank(sampleGraph(), new Map([['insomnia', 1]]));
+
+    // insomnia has no outgoing edges, so every step returns to it
+    expect(Array.from(scores)).toEqual([['insomnia', 1]]);
+    expect(personalizedPageRank(sampleGraph(), new Map([['missing', 1]]))).toEqual(new Map());
+  });
+});
+
+describe('GraphReasoner keyword seeds', () => {
+  const reasoner = new GraphReasoner(sampleGraph());
+
+  it('should give every keyword an equal share of the restart weight', () => {
+    const seeds = reasoner.keywordSeeds(['gut', 'sleep']);
+
+    expect(seeds.get('gut_microbiome')).toBeCloseTo(1 / 6);
+    expect(seeds.get('sleep')).toBeCloseTo(1 / 2);
+  });
+
+  it('should rank the neighbourhood of all keywords together', () => {
+    const related = reasoner.relatedConcepts(['gut', 'depression'], 3);
+
+    expect(related.map(r => r.concept.id)).toEqual(['gut_microbiome', 'depression', 'serotonin']);
+    expect(related.map(r => r.seed)).toEqual([true, true, false]);
+  });
+
+  it('should start walks from every weighted seed', () => {
+    const paths = reasoner.findPathsFromSeeds(
+      new Map([
+        ['gut_bacteria', 1],
+        ['insomnia', 0],
+        ['sleep', 1],
+      ]),
+      { pathLength: 2, maxResults: 10, seed: 5 }
+    );
+    const starts = new Set(paths.map(p => p.nodes[0].id));
+
+    expect(starts).toEqual(new Set(['gut_bacteria', 'sleep']));
+  });
+});
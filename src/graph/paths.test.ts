@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { kShortestPaths } from './paths.js';
+import { GraphReasoner } from './reasoner.js';
+import { conceptEdge, conceptGraph, conceptNode } from '../test/fixtures.js';
+
+/**
+ * Three routes from a to d: through b, through the method c (b enables d),
+ * and the longer a - e - f - d
+ */
+function sampleGraph() {
+  return conceptGraph(
+    ['a', 'b', conceptNode('c', { type: 'method' }), 'd', 'e', 'f'],
+    [
+      conceptEdge('a', 'b'),
+      conceptEdge('b', 'd', { type: 'enables' }),
+      conceptEdge('a', 'c'),
+      conceptEdge('c', 'd'),
+      conceptEdge('a', 'e'),
+      conceptEdge('e', 'f'),
+      conceptEdge('f', 'd'),
+    ]
+  );
+}
+
+describe('kShortestPaths', () => {
+  it('should list simple paths in order of length', () => {
+    expect(kShortestPaths(sampleGraph(), 'a', 'd', 5)).toEqual([
+      ['a', 'b', 'd'],
+      ['a', 'c', 'd'],
+      ['a', 'e', 'f', 'd'],
+    ]);
+    expect(kShortestPaths(sampleGraph(), 'a', 'd', 1)).toEqual([['a', 'b', 'd']]);
+  });
+
+  it('should follow typed relations forward only', () => {
+    expect(kShortestPaths(sampleGraph(), 'd', 'a', 5)).toEqual([
+      ['d', 'c', 'a'],
+      ['d', 'f', 'e', 'a'],
+    ]);
+  });
+
+  it('should apply step constraints and a hop limit', () => {
+    const graph = sampleGraph();
+
+    expect(kShortestPaths(graph, 'a', 'd', 5, { maxHops: 2 })).toHaveLength(2);
+    expect(kShortestPaths(graph, 'a', 'd', 5, { excludeConcepts: ['b', 'c'] })).toEqual([
+      ['a', 'e', 'f', 'd'],
+    ]);
+    expect(kShortestPaths(graph, 'a', 'd', 5, { edgeTypes: ['relates_to'] })).toHaveLength(2);
+    expect(kShortestPaths(graph, 'a', 'd', 5, { excludeConcepts: ['d'] })).toEqual([]);
+  });
+
+  it('should skip rejected paths without counting them', () => {
+    const paths = kShortestPaths(sampleGraph(), 'a', 'd', 1, { accept: path => path.includes('e') });
+
+    expect(paths).toEqual([['a', 'e', 'f', 'd']]);
+    expect(
+      kShortestPaths(sampleGraph(), 'a', 'd', 1, { accept: path => path.includes('e'), maxCandidates: 2 })
+    ).toEqual([]);
+  });
+});
+
+describe('GraphReasoner.findPaths with a target', () => {
+  it('should return alternative paths that satisfy the constraints', () => {
+    const reasoner = new GraphReasoner(sampleGraph());
+
+    expect(reasoner.findPaths('a', 'd')).toHaveLength(3);
+    expect(
+      reasoner.findPaths('a', 'd', { requireConceptTypes: ['method'] }).map(p => p.nodes.map(n => n.id))
+    ).toEqual([['a', 'c', 'd']]);
+    expect(reasoner.findPaths('a', 'd', { maxResults: 2, maxHops: 3, edgeTypes: ['relates_to'] })).toHaveLength(2);
+  });
+});
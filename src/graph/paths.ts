@@ -0,0 +1,141 @@
+import Graph from 'graphology';
+import type { ConceptEdge } from '../types/index.js';
+
+/**
+ * Limits on the steps a path may take
+ */
+export interface StepConstraints {
+  excludeConcepts?: string[]; // Concepts a path may not visit
+  edgeTypes?: ConceptEdge['type'][]; // Relations a path may follow (default: all)
+}
+
+/**
+ * Options for k-shortest path search
+ */
+export interface KShortestPathOptions extends StepConstraints {
+  maxHops?: number; // Longest path, in edges
+  accept?: (nodeIds: string[]) => boolean; // Path-level constraint; rejected paths are skipped
+  maxCandidates: number; // Paths examined before giving up on `accept`
+}
+
+export const DEFAULT_K_SHORTEST_PATH_OPTIONS: KShortestPathOptions = {
+  maxCandidates: 200,
+};
+
+/**
+ * Whether a path may step from one concept to another: some edge leads
+ * there (co-occurrence either way, typed relations forward only) with an
+ * allowed type, and the concept is not excluded
+ */
+export function stepAllowed(graph: Graph, from: string, to: string, constraints: StepConstraints): boolean {
+  if (constraints.excludeConcepts?.includes(to)) return false;
+  if (!constraints.edgeTypes) return true;
+
+  const edgeTypes = constraints.edgeTypes;
+  return graph
+    .outboundEdges(from, to)
+    .some(edge => edgeTypes.includes((graph.getEdgeAttributes(edge) as ConceptEdge).type));
+}
+
+/**
+ * Yen's k shortest simple paths between two concepts, by hop count
+ *
+ * Paths are found in order of length (ties in neighbour order), so with
+ * `maxHops` the search ends at the first path that is too long. Paths
+ * rejected by `accept` do not count towards `k`; at most `maxCandidates`
+ * paths are examined, since a rare constraint could otherwise enumerate
+ * every simple path in the graph.
+ */
+export function kShortestPaths(
+  graph: Graph,
+  source: string,
+  target: string,
+  k: number,
+  options: Partial<KShortestPathOptions> = {}
+): string[][] {
+  const opts = { ...DEFAULT_K_SHORTEST_PATH_OPTIONS, ...options };
+  if (!graph.hasNode(source) || !graph.hasNode(target) || source === target) return [];
+  if (opts.excludeConcepts?.includes(source) || opts.excludeConcepts?.includes(target)) return [];
+
+  const tooLong = (path: string[]) => opts.maxHops !== undefined && path.length - 1 > opts.maxHops;
+  const first = shortestPath(graph, source, target, new Set(), new Set(), opts);
+  if (!first || tooLong(first)) return [];
+
+  const found = [first];
+  const accepted: string[][] = [];
+  const candidates: string[][] = [];
+  const seen = new Set([first.join('->')]);
+
+  while (found.length <= opts.maxCandidates) {
+    const latest = found[found.length - 1];
+    if (!opts.accept || opts.accept(latest)) {
+      accepted.push(latest);
+      if (accepted.length >= k) break;
+    }
+
+    // Deviate from the latest path at each of its concepts in turn
+    for (let i = 0; i < latest.length - 1; i++) {
+      const root = latest.slice(0, i + 1);
+      const blockedSteps = new Set<string>();
+      for (const path of found) {
+        if (path.length > i + 1 && root.every((id, j) => path[j] === id)) {
+          blockedSteps.add(`${path[i]}->${path[i + 1]}`);
+        }
+      }
+
+      const spur = shortestPath(graph, latest[i], target, new Set(root.slice(0, i)), blockedSteps, opts);
+      if (!spur) continue;
+
+      const candidate = [...root.slice(0, i), ...spur];
+      const key = candidate.join('->');
+      if (seen.has(key) || tooLong(candidate)) continue;
+      seen.add(key);
+      candidates.push(candidate);
+    }
+
+    if (candidates.length === 0) break;
+    // Shortest candidate next; the earliest found wins ties
+    let next = 0;
+    candidates.forEach((path, i) => {
+      if (path.length < candidates[next].length) next = i;
+    });
+    found.push(...candidates.splice(next, 1));
+  }
+
+  return accepted;
+}
+
+/**
+ * Helper: breadth-first shortest path avoiding blocked concepts and steps
+ */
+function shortestPath(
+  graph: Graph,
+  source: string,
+  target: string,
+  blockedConcepts: Set<string>,
+  blockedSteps: Set<string>,
+  constraints: StepConstraints
+): string[] | undefined {
+  const previous = new Map<string, string | null>([[source, null]]);
+  const queue = [source];
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    if (current === target) break;
+
+    for (const next of graph.outboundNeighbors(current)) {
+      if (previous.has(next) || blockedConcepts.has(next)) continue;
+      if (blockedSteps.has(`${current}->${next}`)) continue;
+      if (!stepAllowed(graph, current, next, constraints)) continue;
+      previous.set(next, current);
+      queue.push(next);
+    }
+  }
+
+  if (!previous.has(target)) return undefined;
+  const path: string[] = [];
+  for (let id: string | null = target; id !== null; id = previous.get(id)!) {
+    path.unshift(id);
+  }
+  return path;
+}
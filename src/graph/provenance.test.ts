@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { crossesSources, mergeSourceCounts, sourceHistogram } from './provenance.js';
+import { GraphReasoner } from './reasoner.js';
+import { conceptEdge, conceptGraph, conceptNode, testPaper } from '../test/fixtures.js';
+import type { ConceptEdge, GraphPath, SourceCounts } from '../types/index.js';
+
+const path = (...edges: ConceptEdge[]): GraphPath => ({
+  nodes: [],
+  edges,
+  length: edges.length + 1,
+  totalWeight: 0,
+  novelty: 0,
+});
+
+describe('sourceHistogram', () => {
+  it('should count papers per source, skipping unlabeled and unknown papers', () => {
+    const papers = new Map(
+      [
+        testPaper('p1', { source: 'materials' }),
+        testPaper('p2', { source: 'materials' }),
+        testPaper('p3', { source: 'biology' }),
+        testPaper('p4'),
+      ].map(p => [p.id, p])
+    );
+
+    expect(sourceHistogram(['p1', 'p2', 'p3', 'p4', 'p5', 'p1'], papers)).toEqual({ materials: 2, biology: 1 });
+    expect(sourceHistogram(['p4'], papers)).toBeUndefined();
+  });
+
+  it('should merge histograms', () => {
+    expect(mergeSourceCounts({ materials: 1 }, { materials: 2, biology: 1 })).toEqual({ materials: 3, biology: 1 });
+    expect(mergeSourceCounts(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('crossesSources', () => {
+  const edge = (source: string, target: string, sourceCounts?: SourceCounts) =>
+    conceptEdge(source, target, { sourceCounts });
+
+  it('should require that no single source supports every edge', () => {
+    expect(crossesSources(path(edge('a', 'b', { materials: 1 }), edge('b', 'c', { biology: 2 })))).toBe(true);
+    expect(
+      crossesSources(path(edge('a', 'b', { materials: 1, biology: 1 }), edge('b', 'c', { biology: 2 })))
+    ).toBe(false);
+    expect(crossesSources(path(edge('a', 'b', { materials: 1 }), edge('b', 'c')))).toBe(true);
+  });
+});
+
+describe('GraphReasoner.findPaths with crossSource', () => {
+  // a - b within materials, b - c within biology
+  function sampleGraph() {
+    return conceptGraph(
+      [
+        conceptNode('a', { sourceCounts: { materials: 1 } }),
+        conceptNode('b', { sourceCounts: { materials: 1, biology: 1 } }),
+        conceptNode('c', { sourceCounts: { biology: 1 } }),
+      ],
+      [
+        conceptEdge('a', 'b', { sourceCounts: { materials: 1 } }),
+        conceptEdge('b', 'c', { sourceCounts: { biology: 1 } }),
+      ]
+    );
+  }
+
+  it('should keep only paths that cross sources', () => {
+    const reasoner = new GraphReasoner(sampleGraph());
+
+    expect(reasoner.findPaths('a', 'c', { crossSource: true })).toHaveLength(1);
+    expect(reasoner.findPaths('a', 'b', { crossSource: true })).toEqual([]);
+
+    const sampled = reasoner.findPaths('a', undefined, { crossSource: true, pathLength: 3 });
+    expect(sampled.map(p => p.nodes.map(n => n.id))).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('should reject graphs without provenance', () => {
+    const graph = conceptGraph(['a']);
+
+    expect(() => new GraphReasoner(graph).findPaths('a', undefined, { crossSource: true })).toThrow(
+      'no source provenance'
+    );
+  });
+});
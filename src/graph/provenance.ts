@@ -0,0 +1,63 @@
+import Graph from 'graphology';
+import type { ConceptNode, GraphPath, Paper, SourceCounts } from '../types/index.js';
+
+/**
+ * Number of papers per source dataset, or undefined when none of the papers
+ * carries a source label
+ * Papers that are not in `papers` (e.g. not loaded in this session) are skipped
+ */
+export function sourceHistogram(
+  paperIds: Iterable<string>,
+  papers: Map<string, Paper>
+): SourceCounts | undefined {
+  const counts: SourceCounts = {};
+  let labeled = false;
+
+  for (const paperId of new Set(paperIds)) {
+    const source = papers.get(paperId)?.source;
+    if (source === undefined) continue;
+    counts[source] = (counts[source] || 0) + 1;
+    labeled = true;
+  }
+
+  return labeled ? counts : undefined;
+}
+
+/**
+ * Sum two source histograms (undefined when both are)
+ */
+export function mergeSourceCounts(a?: SourceCounts, b?: SourceCounts): SourceCounts | undefined {
+  if (!a && !b) return undefined;
+
+  const merged: SourceCounts = { ...a };
+  for (const [source, count] of Object.entries(b || {})) {
+    merged[source] = (merged[source] || 0) + count;
+  }
+  return merged;
+}
+
+/**
+ * Whether any concept in the graph carries source provenance
+ */
+export function hasProvenance(graph: Graph): boolean {
+  return graph.someNode((_nodeId, attrs) => (attrs as ConceptNode).sourceCounts !== undefined);
+}
+
+/**
+ * Whether a path crosses sources: no single source supports every edge, so
+ * the connection exists only in the merged graph
+ * Edges without provenance support no source
+ */
+export function crossesSources(path: GraphPath): boolean {
+  if (path.edges.length === 0) return false;
+
+  const [first, ...rest] = path.edges.map(edge => supportingSources(edge.sourceCounts));
+  return !Array.from(first).some(source => rest.every(sources => sources.has(source)));
+}
+
+/**
+ * Helper: sources with at least one supporting paper
+ */
+function supportingSources(counts: SourceCounts = {}): Set<string> {
+  return new Set(Object.keys(counts).filter(source => counts[source] > 0));
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { seededRandom, randomSeed } from './random.js';
+import { GraphReasoner } from './reasoner.js';
+import { conceptEdge, conceptGraph } from '../test/fixtures.js';
+
+/**
+ * Ring of eight concepts with chords, so walks from one concept branch often
+ */
+function sampleGraph() {
+  const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+  return conceptGraph(
+    ids,
+    ids.flatMap((id, i) => [
+      conceptEdge(id, ids[(i + 1) % ids.length]),
+      ...(i % 2 === 0 ? [conceptEdge(id, ids[(i + 3) % ids.length])] : []),
+    ])
+  );
+}
+
+describe('seededRandom', () => {
+  it('should repeat a sequence for the same seed', () => {
+    const first = seededRandom(7);
+    const second = seededRandom(7);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(values).toEqual(Array.from({ length: 5 }, () => second()));
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    expect(seededRandom(8)()).not.toBe(values[0]);
+  });
+
+  it('should draw fresh seeds as unsigned 32-bit integers', () => {
+    const seed = randomSeed();
+
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+});
+
+describe('GraphReasoner.findPaths with a seed', () => {
+  const walk = (seed: number) => {
+    const reasoner = new GraphReasoner(sampleGraph());
+    reasoner.analyzeGraph();
+    return reasoner.findPaths('a', undefined, { pathLength: 5, maxResults: 4, seed });
+  };
+
+  it('should sample the same paths for the same seed', () => {
+    const first = walk(123);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(walk(123).map(p => p.nodes.map(n => n.id))).toEqual(first.map(p => p.nodes.map(n => n.id)));
+  });
+
+  it('should record the seed on every path', () => {
+    expect(walk(99).every(p => p.seed === 99)).toBe(true);
+
+    const reasoner = new GraphReasoner(sampleGraph());
+    const [path] = reasoner.findPaths('a', 'e');
+    expect(path.seed).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,24 @@
+import { randomInt } from 'crypto';
+
+/**
+ * Deterministic uniform [0, 1) generator (mulberry32)
+ * The same seed always yields the same sequence
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh seed for a run that was not given one, so it can be recorded and
+ * replayed
+ */
+export function randomSeed(): number {
+  return randomInt(2 ** 32);
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GraphBuilder } from './builder.js';
+import { GraphReasoner } from './reasoner.js';
+import { VocabularyExtractor } from './extractors.js';
+import { LatentSemanticEmbeddings } from './embeddings.js';
+
+describe('GraphReasoner', () => {
+  describe('temporal views', () => {
+    let builder: GraphBuilder;
+    let reasoner: GraphReasoner;
+
+    beforeAll(async () => {
+      const csvPath = join(tmpdir(), `temporal-${Date.now()}.csv`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"Gut microbiome","Gut microbiome and depression.","A",2018,p1',
+          '"Depression","Depression and gut microbiome in adolescents.","B",2019,p2',
+          '"Vagus nerve","The vagus nerve links depression to the gut microbiome.","C",2022,p3',
+        ].join('\n')
+      );
+
+      builder = new GraphBuilder(
+        new VocabularyExtractor([
+          { term: 'gut microbiome', synonyms: [], type: 'concept' },
+          { term: 'depression', synonyms: [], type: 'phenomenon' },
+          { term: 'vagus nerve', synonyms: [], type: 'concept' },
+        ])
+      );
+      await builder.buildGraph(csvPath);
+      await rm(csvPath);
+      reasoner = new GraphReasoner(builder.getGraph());
+    });
+
+    it('should store year histograms on concepts and edges', () => {
+      const kg = builder.getKnowledgeGraph()!;
+
+      expect(kg.nodes.get('gut_microbiome')!.yearCounts).toEqual({ 2018: 1, 2019: 1, 2022: 1 });
+      expect(kg.nodes.get('vagus_nerve')!.yearCounts).toEqual({ 2022: 1 });
+
+      const edge = kg.edges.find(e => [e.source, e.target].includes('vagus_nerve'))!;
+      expect(edge.yearCounts).toEqual({ 2022: 1 });
+    });
+
+    it('should report when concepts and connections first appeared', () => {
+      expect(reasoner.firstAppearance('vagus_nerve')).toBe(2022);
+      expect(reasoner.firstConnection('depression', 'gut_microbiome')).toBe(2018);
+      expect(reasoner.firstConnection('gut_microbiome', 'vagus_nerve')).toBe(2022);
+      expect(reasoner.firstConnection('gut_microbiome', 'unknown')).toBeUndefined();
+    });
+
+    it('should materialize the graph as of a year', () => {
+      const before2020 = reasoner.timeSlice({ to: 2019 });
+      const graph = before2020.getGraph();
+
+      expect(graph.order).toBe(2);
+      expect(graph.hasNode('vagus_nerve')).toBe(false);
+      expect(graph.size).toBe(1);
+      expect(graph.getNodeAttribute('gut_microbiome', 'frequency')).toBe(2);
+
+      const paths = before2020.findPaths('depression', 'gut_microbiome');
+      expect(paths[0].nodes.map(n => n.id)).toEqual(['depression', 'gut_microbiome']);
+    });
+
+    it('should slice a year range', () => {
+      const recent = reasoner.timeSlice({ from: 2020, to: 2024 }).getGraph();
+
+      expect(recent.order).toBe(3);
+      expect(recent.getNodeAttribute('depression', 'yearCounts')).toEqual({ 2022: 1 });
+    });
+
+    it('should restrict papers and evidence to the range given the papers', () => {
+      const graph = reasoner.timeSlice({ to: 2019 }, builder.getPapers()).getGraph();
+      const edge = graph.getEdgeAttributes(graph.edge('depression', 'gut_microbiome'));
+
+      expect(graph.getNodeAttribute('gut_microbiome', 'papers')).toEqual(['p1', 'p2']);
+      expect(edge.evidence).toEqual(['p1', 'p2']);
+      expect(edge.confidence).toBe(1);
+      // Without the papers, evidence cannot be dated
+      const undated = reasoner.timeSlice({ to: 2019 }).getGraph();
+      expect(undated.getEdgeAttributes(undated.edge('depression', 'gut_microbiome')).evidence).toHaveLength(3);
+    });
+  });
+
+  describe('similar concepts', () => {
+    it('should rank concepts by embedding similarity', async () => {
+      const csvPath = join(tmpdir(), `similar-${Date.now()}.csv`);
+      await writeFile(
+        csvPath,
+        [
+          'title,abstract,authors,year,pmid',
+          '"A","Heart attack raises troponin.","A",2020,p1',
+          '"B","Heart attack and troponin.","B",2020,p2',
+          '"C","Myocardial infarction raises troponin.","C",2021,p3',
+          '"D","Gut microbiome and probiotics.","D",2021,p4',
+        ].join('\n')
+      );
+
+      const builder = new GraphBuilder(
+        new VocabularyExtractor(
+          ['heart attack', 'myocardial infarction', 'troponin', 'gut microbiome', 'probiotics'].map(
+            term => ({ term, synonyms: [], type: 'concept' as const })
+          )
+        )
+      );
+      await builder.buildGraph(csvPath);
+      await rm(csvPath);
+      await builder.embedConcepts(new LatentSemanticEmbeddings(2));
+
+      const reasoner = new GraphReasoner(builder.getGraph());
+      const similar = reasoner.findSimilarConcepts('heart_attack', 2);
+
+      expect(similar.map(s => s.concept.id)).toEqual(
+        expect.arrayContaining(['myocardial_infarction', 'troponin'])
+      );
+      expect(similar[0].similarity).toBeGreaterThan(0.9);
+      expect(builder.getKnowledgeGraph()!.nodes.get('probiotics')!.embedding).toHaveLength(2);
+    });
+
+    it('should require embeddings', () => {
+      const reasoner = new GraphReasoner(new GraphBuilder().getGraph());
+      expect(() => reasoner.findSimilarConcepts('missing')).toThrow('Unknown concept');
+    });
+  });
+});
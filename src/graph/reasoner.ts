@@ -1,8 +1,45 @@
 import Graph from 'graphology';
-import { bidirectional } from 'graphology-shortest-path';
-import louvain from 'graphology-communities-louvain';
-import betweennessCentrality from 'graphology-metrics/centrality/betweenness';
-import type { ConceptNode, ConceptEdge, GraphPath, SearchParams } from '../types/index.js';
+import type {
+  ConceptNode,
+  ConceptEdge,
+  GraphPath,
+  SearchParams,
+  GraphAnalysis,
+  Paper,
+  SystemConfig,
+  YearRange,
+} from '../types/index.js';
+import { LinkPredictor, type LinkPredictionOptions, type PredictedLink } from './links.js';
+import { SwansonDiscovery, type DiscoveryOptions, type DiscoveryResult } from './discovery.js';
+import { defaultConfig } from '../config/default.js';
+import { conceptSurfaceForms } from './normalize.js';
+import { cosineSimilarity } from './embeddings.js';
+import { firstYear, inRange, sliceYearCounts, totalCount } from './temporal.js';
+import { edgeWeight } from './weighting.js';
+import { crossesSources, hasProvenance } from './provenance.js';
+import { randomSeed, seededRandom } from './random.js';
+import { kShortestPaths, stepAllowed, type StepConstraints } from './paths.js';
+import { personalizedPageRank, type PageRankOptions } from './pagerank.js';
+import {
+  computeBetweenness,
+  computeBetweennessInWorker,
+  type CentralityJob,
+  type CentralityResult,
+} from './centrality.js';
+import { defaultScorers, graphYearSpan, scorePath, type PathScorer, type ScoringContext } from './scoring.js';
+import {
+  communityHierarchy,
+  communityLinks,
+  detectCommunities,
+  summarizeCommunities,
+  type CommunityLevel,
+  type CommunityLink,
+  type CommunityOptions,
+  type CommunitySummary,
+} from './communities.js';
+
+// Louvain seed, so communities (and the walks they bias) are reproducible
+const COMMUNITY_SEED = 42;
 
 /**
  * Graph reasoning engine for scientific discovery
@@ -12,9 +49,55 @@ export class GraphReasoner {
   private graph: Graph;
   private communities?: Map<string, number>;
   private centrality?: Map<string, number>;
-
-  constructor(graph: Graph) {
+  private pendingCentrality?: Promise<void>;
+  private centralityJob?: CentralityJob;
+  private centralityRun = 0; // Lets a superseded worker result be ignored
+  private stale = false;
+  private config: SystemConfig['graphConfig'];
+  private scorers: PathScorer[];
+  private noveltyWeights: Record<string, number>;
+  private scoringContext?: ScoringContext;
+  private communitySummaries?: Map<number, CommunitySummary>;
+
+  constructor(graph: Graph, config: SystemConfig['graphConfig'] = defaultConfig.graphConfig) {
     this.graph = graph;
+    this.config = config;
+    this.scorers = defaultScorers(config.noveltyLengthScale);
+    this.noveltyWeights = { ...config.noveltyWeights };
+  }
+
+  /**
+   * Add a novelty factor, or replace the scorer of the same name
+   */
+  addScorer(scorer: PathScorer, weight: number): void {
+    this.scorers = [...this.scorers.filter(s => s.name !== scorer.name), scorer];
+    this.noveltyWeights[scorer.name] = weight;
+  }
+
+  /**
+   * Mark communities and centrality as outdated after the graph changed
+   * They are recomputed on next use rather than immediately
+   */
+  markStale(): void {
+    this.stale = true;
+    this.clearDerived();
+    this.cancelCentrality();
+  }
+
+  /**
+   * Whether the analysis needs recomputing
+   */
+  isStale(): boolean {
+    return this.stale;
+  }
+
+  /**
+   * Recompute analysis if the graph changed since it was last computed
+   */
+  private ensureFresh(): void {
+    if (this.stale) {
+      this.analyzeGraph();
+    }
   }
 
   /**
@@ -22,65 +105,204 @@ export class GraphReasoner {
    */
   analyzeGraph(): void {
     console.log('Analyzing graph structure...');
+    this.stale = false;
+    this.clearDerived();
 
-    // Community detection using Louvain algorithm
-    this.communities = new Map();
-    const communities = louvain(this.graph, {
-      resolution: 1.0,
-    });
-
-    Object.entries(communities).forEach(([nodeId, communityId]) => {
-      this.communities!.set(nodeId, communityId as number);
-    });
+    // Community detection using Louvain algorithm, numbered by size
+    this.communities = new Map(Object.entries(detectCommunities(this.graph, 1.0, COMMUNITY_SEED)));
 
     const uniqueCommunities = new Set(this.communities.values());
     console.log(`  Detected ${uniqueCommunities.size} communities`);
 
-    // Betweenness centrality for finding bridge concepts
-    this.centrality = new Map();
-    const centralityScores = betweennessCentrality(this.graph);
+    // Betweenness centrality for finding bridge concepts, sampled on large
+    // graphs and optionally computed in a worker thread
+    this.cancelCentrality();
+    const run = this.centralityRun;
+    const options = {
+      exactLimit: this.config.exactCentralityLimit,
+      samples: this.config.centralitySamples,
+    };
+
+    if (!this.config.centralityWorker) {
+      this.setCentrality(computeBetweenness(this.graph, options));
+      return;
+    }
 
-    Object.entries(centralityScores).forEach(([nodeId, score]) => {
-      this.centrality!.set(nodeId, score as number);
-    });
+    console.log('  Computing betweenness centrality in a worker thread...');
+    this.centralityJob = computeBetweennessInWorker(this.graph, options);
+    this.pendingCentrality = this.centralityJob.result
+      .catch(error => {
+        if (run !== this.centralityRun) return undefined;
+        console.warn(`  Centrality worker failed (${(error as Error).message}), computing in the main thread`);
+        return computeBetweenness(this.graph, options);
+      })
+      .then(result => {
+        if (result && run === this.centralityRun) this.setCentrality(result);
+      });
+  }
+
+  /**
+   * Wait for betweenness centrality being computed in a worker thread
+   * Resolves immediately when centrality is computed in the main thread.
+   */
+  async centralityReady(): Promise<void> {
+    this.ensureFresh();
+    this.centralityJob?.keepAlive();
+    await this.pendingCentrality;
+  }
+
+  /**
+   * Helper: install centrality scores and report the top bridge concepts
+   */
+  private setCentrality(result: CentralityResult): void {
+    this.centrality = new Map(Object.entries(result.scores));
+    this.pendingCentrality = undefined;
+    this.centralityJob = undefined;
+    this.scoringContext = undefined;
 
     const topCentral = Array.from(this.centrality.entries())
       .sort((a, b) => b[1] - a[1])
       .slice(0, 5);
 
-    console.log('  Top bridge concepts:');
+    console.log(
+      result.approximate
+        ? `  Top bridge concepts (approximate, ${result.samples} pivots):`
+        : '  Top bridge concepts:'
+    );
     topCentral.forEach(([nodeId, score]) => {
       const node = this.graph.getNodeAttributes(nodeId) as ConceptNode;
       console.log(`    - ${node.label} (centrality: ${score.toFixed(4)})`);
     });
   }
 
+  /**
+   * Helper: drop centrality scores and ignore any worker still computing them
+   */
+  private cancelCentrality(): void {
+    this.centralityRun++;
+    this.centralityJob?.cancel();
+    this.centralityJob = undefined;
+    this.centrality = undefined;
+    this.pendingCentrality = undefined;
+  }
+
+  /**
+   * Helper: drop scoring context and community labels computed from the
+   * previous analysis
+   */
+  private clearDerived(): void {
+    this.scoringContext = undefined;
+    this.communitySummaries = undefined;
+  }
+
+  /**
+   * Export community assignments and centrality for persistence
+   */
+  exportAnalysis(): GraphAnalysis | undefined {
+    this.ensureFresh();
+    if (!this.communities || !this.centrality) return undefined;
+
+    return {
+      communities: Object.fromEntries(this.communities),
+      centrality: Object.fromEntries(this.centrality),
+    };
+  }
+
+  /**
+   * Community assignments from the last analysis
+   * Unlike `exportAnalysis`, available while centrality is still computing.
+   */
+  getCommunityAssignments(): Record<string, number> | undefined {
+    this.ensureFresh();
+    return this.communities && Object.fromEntries(this.communities);
+  }
+
+  /**
+   * Restore previously computed analysis instead of recomputing it
+   */
+  restoreAnalysis(analysis: GraphAnalysis): void {
+    this.cancelCentrality();
+    this.communities = new Map(Object.entries(analysis.communities));
+    this.centrality = new Map(Object.entries(analysis.centrality));
+    this.stale = false;
+    this.clearDerived();
+
+    const uniqueCommunities = new Set(this.communities.values());
+    console.log(`Restored analysis: ${uniqueCommunities.size} communities`);
+  }
+
   /**
    * Find paths between concepts with various strategies
+   * With a target, up to `maxResults` shortest simple paths (Yen) are
+   * returned; without one, paths are sampled by random walks. Both honour the
+   * path constraints in `params`. With `crossSource`, only paths that no
+   * single source dataset supports end to end are kept. Sampling is driven by
+   * `seed` (random when omitted), recorded on every returned path so a run can
+   * be replayed.
    */
   findPaths(
     sourceId: string,
     targetId?: string,
     params?: SearchParams
   ): GraphPath[] {
-    const maxLength = params?.pathLength || 4;
+    return this.searchPaths(new Map([[sourceId, 1]]), targetId, params);
+  }
+
+  /**
+   * Sample paths starting from several concepts, each walk starting at a
+   * concept chosen with probability proportional to its weight (e.g. its
+   * personalized PageRank score); otherwise as `findPaths` without a target
+   */
+  findPathsFromSeeds(seeds: Map<string, number>, params?: SearchParams): GraphPath[] {
+    const starts = new Map(Array.from(seeds).filter(([id, weight]) => weight > 0 && this.graph.hasNode(id)));
+    if (starts.size === 0) return [];
+    return this.searchPaths(starts, undefined, params);
+  }
+
+  /**
+   * Helper: path search shared by `findPaths` and `findPathsFromSeeds`; with
+   * a target, the search starts from the first start concept
+   */
+  private searchPaths(starts: Map<string, number>, targetId?: string, params?: SearchParams): GraphPath[] {
+    this.ensureFresh();
+    const maxHops = params?.maxHops;
+    const pathLength = params?.pathLength || this.config.maxPathLength;
+    const maxLength = maxHops !== undefined ? Math.min(pathLength, maxHops + 1) : pathLength;
     const maxResults = params?.maxResults || 10;
+    const seed = params?.seed ?? randomSeed();
+    const random = seededRandom(seed);
     const paths: GraphPath[] = [];
 
+    if (params?.crossSource && !hasProvenance(this.graph)) {
+      throw new Error(
+        'The graph has no source provenance. Build it from labeled datasets to require cross-source paths.'
+      );
+    }
+    if (params?.minCommunityCrossings && !this.communities) {
+      this.analyzeGraph();
+    }
+    const steps: StepConstraints = { excludeConcepts: params?.excludeConcepts, edgeTypes: params?.edgeTypes };
+    const accept = (path: GraphPath) =>
+      (!params?.crossSource || crossesSources(path)) && this.satisfiesConstraints(path, params);
+
     if (targetId) {
-      // Find shortest paths between specific concepts
-      const shortestPath = bidirectional(this.graph, sourceId, targetId);
-      if (shortestPath) {
-        paths.push(this.constructGraphPath(shortestPath));
-      }
+      // Find alternative shortest paths between specific concepts
+      const [sourceId] = starts.keys();
+      const shortestPaths = kShortestPaths(this.graph, sourceId, targetId, maxResults, {
+        ...steps,
+        maxHops,
+        accept: nodeIds => accept(this.constructGraphPath(nodeIds)),
+      });
+      paths.push(...shortestPaths.map(nodeIds => this.constructGraphPath(nodeIds)));
     } else {
-      // Sample diverse paths from source
-      paths.push(...this.sampleDiversePaths(sourceId, maxLength, maxResults));
+      // Sample diverse paths from the start concepts
+      paths.push(...this.sampleDiversePaths(starts, maxLength, maxResults, random, steps, accept));
     }
 
     // Calculate novelty scores
     paths.forEach(path => {
-      path.novelty = this.calculateNoveltyScore(path);
+      this.annotatePath(path);
+      path.seed = seed;
     });
 
     // Sort by novelty
@@ -91,14 +313,29 @@ export class GraphReasoner {
 
   /**
    * Sample diverse paths using random walks with constraints
+   * Each walk starts at a concept drawn by weight from `starts`
    */
   private sampleDiversePaths(
-    sourceId: string,
+    starts: Map<string, number>,
     maxLength: number,
-    maxPaths: number
+    maxPaths: number,
+    random: () => number,
+    steps: StepConstraints = {},
+    accept: (path: GraphPath) => boolean = () => true
   ): GraphPath[] {
     const paths: GraphPath[] = [];
     const visitedPaths = new Set<string>();
+    const startIds = Array.from(starts.keys());
+    const totalWeight = Array.from(starts.values()).reduce((a, b) => a + b, 0);
+    const pickStart = () => {
+      if (startIds.length === 1) return startIds[0];
+      let remaining = random() * totalWeight;
+      for (const id of startIds) {
+        remaining -= starts.get(id)!;
+        if (remaining <= 0) return id;
+      }
+      return startIds[startIds.length - 1];
+    };
 
     let attempts = 0;
     const maxAttempts = maxPaths * 10;
@@ -106,7 +343,7 @@ export class GraphReasoner {
     while (paths.length < maxPaths && attempts < maxAttempts) {
       attempts++;
 
-      const path = this.randomWalk(sourceId, maxLength);
+      const path = this.randomWalk(pickStart(), maxLength, random, steps);
       const pathKey = path.map(n => n).join('->');
 
       // Skip if we've seen this path
@@ -116,7 +353,8 @@ export class GraphReasoner {
       // Skip too short paths
       if (path.length < 2) continue;
 
-      paths.push(this.constructGraphPath(path));
+      const graphPath = this.constructGraphPath(path);
+      if (accept(graphPath)) paths.push(graphPath);
     }
 
     return paths;
@@ -125,19 +363,25 @@ export class GraphReasoner {
   /**
    * Random walk through graph with biased selection
    */
-  private randomWalk(startId: string, maxLength: number): string[] {
+  private randomWalk(
+    startId: string,
+    maxLength: number,
+    random: () => number,
+    steps: StepConstraints = {}
+  ): string[] {
     const path: string[] = [startId];
     const visited = new Set<string>([startId]);
     let current = startId;
 
     for (let i = 0; i < maxLength - 1; i++) {
-      const neighbors = this.graph.outNeighbors(current);
-      const unvisited = neighbors.filter(n => !visited.has(n));
+      // Co-occurrence edges can be walked either way, typed edges only forward
+      const neighbors = this.graph.outboundNeighbors(current);
+      const unvisited = neighbors.filter(n => !visited.has(n) && stepAllowed(this.graph, current, n, steps));
 
       if (unvisited.length === 0) break;
 
       // Bias towards cross-community connections for novelty
-      const next = this.selectNextNode(current, unvisited);
+      const next = this.selectNextNode(current, unvisited, random);
       path.push(next);
       visited.add(next);
       current = next;
@@ -149,10 +393,10 @@ export class GraphReasoner {
   /**
    * Select next node with preference for cross-community jumps
    */
-  private selectNextNode(currentId: string, candidates: string[]): string {
+  private selectNextNode(currentId: string, candidates: string[], random: () => number): string {
     if (!this.communities) {
       // Random selection if no community info
-      return candidates[Math.floor(Math.random() * candidates.length)];
+      return candidates[Math.floor(random() * candidates.length)];
     }
 
     const currentCommunity = this.communities.get(currentId);
@@ -169,16 +413,39 @@ export class GraphReasoner {
 
     // Weighted random selection
     const totalScore = scores.reduce((a, b) => a + b, 0);
-    let random = Math.random() * totalScore;
+    let remaining = random() * totalScore;
 
     for (let i = 0; i < candidates.length; i++) {
-      random -= scores[i];
-      if (random <= 0) return candidates[i];
+      remaining -= scores[i];
+      if (remaining <= 0) return candidates[i];
     }
 
     return candidates[candidates.length - 1];
   }
 
+  /**
+   * Helper: whether a path visits a required concept type and crosses enough
+   * communities
+   */
+  private satisfiesConstraints(path: GraphPath, params?: SearchParams): boolean {
+    const types = params?.requireConceptTypes;
+    if (types && types.length > 0 && !path.nodes.some(node => types.includes(node.type))) {
+      return false;
+    }
+
+    if (params?.minCommunityCrossings) {
+      let crossings = 0;
+      for (let i = 0; i < path.nodes.length - 1; i++) {
+        if (this.communities?.get(path.nodes[i].id) !== this.communities?.get(path.nodes[i + 1].id)) {
+          crossings++;
+        }
+      }
+      if (crossings < params.minCommunityCrossings) return false;
+    }
+
+    return true;
+  }
+
   /**
    * Construct GraphPath object from node IDs
    */
@@ -211,62 +478,54 @@ export class GraphReasoner {
   }
 
   /**
-   * Calculate novelty score based on path characteristics
+   * Helper: score a path's novelty and label the community of each concept
    */
-  private calculateNoveltyScore(path: GraphPath): number {
-    if (!this.communities) return 0.5;
-
-    let score = 0;
-
-    // Factor 1: Cross-community transitions (0-1)
-    let communityChanges = 0;
-    for (let i = 0; i < path.nodes.length - 1; i++) {
-      const comm1 = this.communities.get(path.nodes[i].id);
-      const comm2 = this.communities.get(path.nodes[i + 1].id);
-      if (comm1 !== comm2) communityChanges++;
+  private annotatePath(path: GraphPath): void {
+    this.scoreNovelty(path);
+    if (this.communities) {
+      path.communities = path.nodes.map(n => this.getCommunityLabel(this.communities!.get(n.id)) ?? 'none');
     }
-    const crossCommunityScore = communityChanges / (path.nodes.length - 1);
-
-    // Factor 2: Edge weakness (weaker edges = more surprising) (0-1)
-    const avgWeight = path.totalWeight / path.edges.length;
-    const edgeNoveltyScore = 1 - Math.min(avgWeight, 1.0);
-
-    // Factor 3: Path length (longer = more complex/novel) (0-1)
-    const lengthScore = Math.min(path.length / 6, 1.0);
-
-    // Factor 4: Bridge concepts (high centrality = known bridges) (0-1)
-    const avgCentrality = this.centrality
-      ? path.nodes.reduce((sum, n) => sum + (this.centrality!.get(n.id) || 0), 0) /
-        path.nodes.length
-      : 0.5;
-    const bridgeScore = 1 - Math.min(avgCentrality * 10, 1.0);
+  }
 
-    // Weighted combination
-    score =
-      crossCommunityScore * 0.4 +
-      edgeNoveltyScore * 0.3 +
-      lengthScore * 0.2 +
-      bridgeScore * 0.1;
+  /**
+   * Score a path's novelty with the weighted scorers, recording each factor
+   */
+  private scoreNovelty(path: GraphPath): void {
+    if (!this.communities) {
+      path.novelty = 0.5;
+      return;
+    }
 
-    return Math.min(Math.max(score, 0), 1);
+    this.scoringContext ??= {
+      graph: this.graph,
+      communities: this.communities,
+      centrality: this.centrality,
+      years: graphYearSpan(this.graph),
+    };
+    const { novelty, factors } = scorePath(path, this.scorers, this.noveltyWeights, this.scoringContext);
+    path.novelty = novelty;
+    path.noveltyFactors = factors;
   }
 
   /**
    * Find most central concepts (potential research hubs)
    */
   findBridgeConcepts(topN: number = 20): ConceptNode[] {
-    if (!this.centrality) {
+    if (this.stale || (!this.centrality && !this.pendingCentrality)) {
       this.analyzeGraph();
     }
+    if (!this.centrality) {
+      throw new Error('Centrality is still being computed in a worker thread. Await centralityReady() first.');
+    }
 
-    return Array.from(this.centrality!.entries())
+    return Array.from(this.centrality.entries())
       .sort((a, b) => b[1] - a[1])
       .slice(0, topN)
       .map(([nodeId]) => this.graph.getNodeAttributes(nodeId) as ConceptNode);
   }
 
   /**
-   * Find concepts by keyword search
+   * Find concepts by keyword search over labels and aliases
    */
   searchConcepts(keywords: string[]): ConceptNode[] {
     const results: ConceptNode[] = [];
@@ -274,9 +533,9 @@ export class GraphReasoner {
 
     this.graph.forEachNode((_nodeId, attrs) => {
       const node = attrs as ConceptNode;
-      const label = node.label.toLowerCase();
+      const forms = conceptSurfaceForms(node).map(f => f.toLowerCase());
 
-      if (keywordLower.some(k => label.includes(k))) {
+      if (keywordLower.some(k => forms.some(f => f.includes(k)))) {
         results.push(node);
       }
     });
@@ -287,10 +546,188 @@ export class GraphReasoner {
     return results;
   }
 
+  /**
+   * Restart weights for a keyword query: each keyword gets an equal share,
+   * split evenly among the concepts it matches, so a query is not dominated
+   * by the keyword with the most matches
+   */
+  keywordSeeds(keywords: string[]): Map<string, number> {
+    const seeds = new Map<string, number>();
+    const matches = keywords.map(keyword => this.searchConcepts([keyword])).filter(m => m.length > 0);
+
+    for (const concepts of matches) {
+      for (const concept of concepts) {
+        const share = 1 / (matches.length * concepts.length);
+        seeds.set(concept.id, (seeds.get(concept.id) || 0) + share);
+      }
+    }
+    return seeds;
+  }
+
+  /**
+   * Personalized PageRank (random walk with restart) from weighted seeds
+   */
+  personalizedPageRank(
+    seeds: Map<string, number>,
+    options: Partial<PageRankOptions> = {}
+  ): Map<string, number> {
+    return personalizedPageRank(this.graph, seeds, options);
+  }
+
+  /**
+   * Concepts ranked by relevance to a keyword query: personalized PageRank
+   * seeded by every concept matching any keyword
+   */
+  relatedConcepts(
+    keywords: string[],
+    limit: number = 20,
+    options: Partial<PageRankOptions> = {}
+  ): { concept: ConceptNode; score: number; seed: boolean }[] {
+    const seeds = this.keywordSeeds(keywords);
+
+    return Array.from(this.personalizedPageRank(seeds, options))
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([id, score]) => ({
+        concept: this.graph.getNodeAttributes(id) as ConceptNode,
+        score,
+        seed: seeds.has(id),
+      }));
+  }
+
+  /**
+   * Nearest concepts to a concept by embedding cosine similarity
+   * Finds synonyms and related terms that keyword search misses; concepts
+   * without an embedding are skipped
+   */
+  findSimilarConcepts(
+    conceptId: string,
+    limit: number = 10
+  ): { concept: ConceptNode; similarity: number }[] {
+    if (!this.graph.hasNode(conceptId)) {
+      throw new Error(`Unknown concept "${conceptId}"`);
+    }
+    const query = (this.graph.getNodeAttributes(conceptId) as ConceptNode).embedding;
+    if (!query || query.length === 0) {
+      throw new Error(
+        `Concept "${conceptId}" has no embedding. Compute embeddings with an EmbeddingProvider first.`
+      );
+    }
+
+    const results: { concept: ConceptNode; similarity: number }[] = [];
+    this.graph.forEachNode((nodeId, attrs) => {
+      const node = attrs as ConceptNode;
+      if (nodeId === conceptId || !node.embedding) return;
+      results.push({ concept: node, similarity: cosineSimilarity(query, node.embedding) });
+    });
+
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  /**
+   * Rank concept pairs without an edge by how likely they are to be linked
+   */
+  predictLinks(options: Partial<LinkPredictionOptions> = {}): PredictedLink[] {
+    return new LinkPredictor(this.graph).predict(options);
+  }
+
+  /**
+   * Synthetic path across a predicted link, so hypotheses can target a
+   * connection the literature has not made yet
+   * The single edge carries zero weight, no evidence and the prediction
+   */
+  predictedLinkPath(link: PredictedLink): GraphPath {
+    this.ensureFresh();
+
+    const edge: ConceptEdge = {
+      source: link.source,
+      target: link.target,
+      type: 'relates_to',
+      weight: 0,
+      confidence: 0,
+      evidence: [],
+      predicted: {
+        method: link.method,
+        score: link.score,
+        via: link.via.map(id => (this.graph.getNodeAttributes(id) as ConceptNode).label),
+      },
+    };
+    const path: GraphPath = {
+      nodes: [link.source, link.target].map(id => this.graph.getNodeAttributes(id) as ConceptNode),
+      edges: [edge],
+      length: 2,
+      totalWeight: 0,
+      novelty: 0,
+    };
+    this.annotatePath(path);
+
+    return path;
+  }
+
+  /**
+   * Open ABC discovery: concepts C linked to A only through intermediates
+   */
+  discoverOpen(sourceId: string, options: Partial<DiscoveryOptions> = {}): DiscoveryResult[] {
+    return new SwansonDiscovery(this.graph).open(sourceId, options);
+  }
+
+  /**
+   * Closed ABC discovery: intermediates B linking A and C, or undefined when
+   * A and C already co-occur or nothing links them
+   */
+  discoverClosed(
+    sourceId: string,
+    targetId: string,
+    options: Partial<DiscoveryOptions> = {}
+  ): DiscoveryResult | undefined {
+    return new SwansonDiscovery(this.graph).closed(sourceId, targetId, options);
+  }
+
+  /**
+   * A-B-C path through the strongest linking concept of a discovery result
+   * The edges are the graph's own, so each half carries its evidence papers
+   */
+  discoveryPath(result: DiscoveryResult, mode: 'open' | 'closed'): GraphPath {
+    this.ensureFresh();
+
+    const label = (id: string) => (this.graph.getNodeAttributes(id) as ConceptNode).label;
+    const nodeIds = [result.source, result.linking[0].id, result.target];
+    const edges = [0, 1].map(i => this.strongestEdge(nodeIds[i], nodeIds[i + 1]));
+    const path: GraphPath = {
+      nodes: nodeIds.map(id => this.graph.getNodeAttributes(id) as ConceptNode),
+      edges,
+      length: 3,
+      totalWeight: edges.reduce((sum, e) => sum + e.weight, 0),
+      novelty: 0,
+      discovery: {
+        mode,
+        linkingTermCount: result.linkingTermCount,
+        averageMinimumWeight: result.averageMinimumWeight,
+        linking: result.linking.map(b => label(b.id)),
+      },
+    };
+    this.annotatePath(path);
+
+    return path;
+  }
+
+  /**
+   * Helper: heavier of the edges joining two concepts either way
+   */
+  private strongestEdge(a: string, b: string): ConceptEdge {
+    const edges = [
+      this.graph.hasEdge(a, b) ? this.graph.getEdgeAttributes(a, b) : undefined,
+      this.graph.hasEdge(b, a) ? this.graph.getEdgeAttributes(b, a) : undefined,
+    ].filter((edge): edge is ConceptEdge => edge !== undefined);
+
+    return edges.reduce((best, edge) => (edge.weight > best.weight ? edge : best));
+  }
+
   /**
    * Get community information for a concept
    */
   getCommunity(conceptId: string): number | undefined {
+    this.ensureFresh();
     return this.communities?.get(conceptId);
   }
 
@@ -298,6 +735,7 @@ export class GraphReasoner {
    * Get concepts in the same community
    */
   getCommunityConcepts(communityId: number, limit: number = 20): ConceptNode[] {
+    this.ensureFresh();
     if (!this.communities) return [];
 
     const concepts: ConceptNode[] = [];
@@ -310,23 +748,176 @@ export class GraphReasoner {
     return concepts.slice(0, limit);
   }
 
+  /**
+   * Labels and statistics of the communities found by `analyzeGraph`,
+   * largest first
+   */
+  describeCommunities(options: Partial<CommunityOptions> = {}): CommunitySummary[] {
+    this.ensureFresh();
+    if (!this.communities) this.analyzeGraph();
+
+    const summaries = summarizeCommunities(this.graph, Object.fromEntries(this.communities!), options);
+    if (Object.keys(options).length === 0) {
+      this.communitySummaries = new Map(summaries.map(s => [s.id, s]));
+    }
+    return summaries;
+  }
+
+  /**
+   * Label of a community, from its most distinctive concepts
+   */
+  getCommunityLabel(communityId: number | undefined): string | undefined {
+    if (communityId === undefined) return undefined;
+    if (!this.communitySummaries) this.describeCommunities();
+    return this.communitySummaries!.get(communityId)?.label;
+  }
+
+  /**
+   * Edge densities between the communities found by `analyzeGraph`
+   */
+  getCommunityLinks(): CommunityLink[] {
+    this.ensureFresh();
+    if (!this.communities) this.analyzeGraph();
+    return communityLinks(this.graph, Object.fromEntries(this.communities!));
+  }
+
+  /**
+   * Communities at several Louvain resolutions, coarsest first, with each
+   * community linked to its parent one level up
+   */
+  communityHierarchy(options: Partial<CommunityOptions> = {}): CommunityLevel[] {
+    return communityHierarchy(this.graph, options);
+  }
+
+  /**
+   * Reasoner over the graph as it stood in a year range
+   * Keeps concepts and edges with supporting papers published in the range,
+   * with year histograms and frequencies restricted to it. Given the papers
+   * (e.g. `GraphBuilder.getPapers()`), concept papers and edge evidence are
+   * restricted to the range too and co-occurrence weights recomputed from
+   * it; otherwise they still list papers from after the range.
+   * Concepts and edges without year histories (older snapshots) are left out.
+   * Communities and centrality are computed on first use.
+   */
+  timeSlice(range: YearRange, papers?: Map<string, Paper>): GraphReasoner {
+    const sliced = this.graph.nullCopy();
+    const published = (ids: string[]) =>
+      papers ? ids.filter(id => inRange(papers.get(id)?.year ?? NaN, range)) : ids;
+    const total = papers
+      ? Array.from(papers.values()).filter(paper => inRange(paper.year ?? NaN, range)).length
+      : 0;
+
+    this.graph.forEachNode((nodeId, attrs) => {
+      const node = attrs as ConceptNode;
+      const yearCounts = sliceYearCounts(node.yearCounts || {}, range);
+      const frequency = totalCount(yearCounts);
+      if (frequency > 0) {
+        sliced.addNode(nodeId, { ...node, yearCounts, frequency, papers: published(node.papers) });
+      }
+    });
+
+    this.graph.forEachEdge((_edgeId, attrs, source, target, _sourceAttrs, _targetAttrs, undirected) => {
+      if (!sliced.hasNode(source) || !sliced.hasNode(target)) return;
+
+      const edge = attrs as ConceptEdge;
+      const yearCounts = sliceYearCounts(edge.yearCounts || {}, range);
+      if (totalCount(yearCounts) === 0) return;
+
+      const evidence = published(edge.evidence);
+      let { weight, confidence } = edge;
+      if (papers) {
+        const sourceNode = sliced.getNodeAttributes(source) as ConceptNode;
+        const targetNode = sliced.getNodeAttributes(target) as ConceptNode;
+        const rangeWeight = edgeWeight(
+          {
+            both: evidence.length,
+            source: new Set(sourceNode.papers).size,
+            target: new Set(targetNode.papers).size,
+            total,
+          },
+          edge.weighting ?? this.config.edgeWeighting,
+          this.config.significanceLevel
+        );
+        if (edge.type === 'relates_to') {
+          // Pruned as the build would have pruned it
+          if (rangeWeight === undefined || rangeWeight <= this.config.minEdgeWeight) return;
+          confidence = evidence.length / Math.max(sourceNode.frequency, targetNode.frequency);
+        }
+        weight = rangeWeight ?? weight;
+      }
+
+      const attributes = { ...edge, yearCounts, evidence, weight, confidence };
+      if (undirected) {
+        sliced.addUndirectedEdge(source, target, attributes);
+      } else {
+        sliced.addDirectedEdge(source, target, attributes);
+      }
+    });
+
+    const reasoner = new GraphReasoner(sliced, this.config);
+    reasoner.scorers = this.scorers;
+    reasoner.noveltyWeights = { ...this.noveltyWeights };
+    reasoner.markStale();
+    return reasoner;
+  }
+
+  /**
+   * Year in which a concept first appeared in the literature
+   */
+  firstAppearance(conceptId: string): number | undefined {
+    if (!this.graph.hasNode(conceptId)) return undefined;
+    return firstYear((this.graph.getNodeAttributes(conceptId) as ConceptNode).yearCounts);
+  }
+
+  /**
+   * Year in which two concepts were first connected, in either direction
+   */
+  firstConnection(sourceId: string, targetId: string): number | undefined {
+    const edges = [
+      this.graph.hasEdge(sourceId, targetId) ? this.graph.getEdgeAttributes(sourceId, targetId) : undefined,
+      this.graph.hasEdge(targetId, sourceId) ? this.graph.getEdgeAttributes(targetId, sourceId) : undefined,
+    ];
+    const years = edges
+      .map(edge => firstYear((edge as ConceptEdge | undefined)?.yearCounts))
+      .filter((year): year is number => year !== undefined);
+
+    return years.length > 0 ? Math.min(...years) : undefined;
+  }
+
+  /**
+   * Get the graphology instance this reasoner works on
+   */
+  getGraph(): Graph {
+    return this.graph;
+  }
+
   /**
    * Generate path summary for hypothesis context
    */
   summarizePath(path: GraphPath): string {
     const conceptLabels = path.nodes.map(n => n.label);
     const communities = path.nodes.map(n => this.getCommunity(n.id));
+    const describe = (community: number | undefined) => {
+      const label = this.getCommunityLabel(community);
+      return label ? `community ${community}: ${label}` : `community ${community}`;
+    };
 
     let summary = `Path through ${path.length} concepts:\n`;
     for (let i = 0; i < path.nodes.length; i++) {
-      summary += `  ${i + 1}. ${conceptLabels[i]} [community ${communities[i]}]`;
+      summary += `  ${i + 1}. ${conceptLabels[i]} [${describe(communities[i])}]`;
       if (i < path.edges.length) {
-        summary += ` --[${path.edges[i].type}, weight: ${path.edges[i].weight.toFixed(3)}]--> `;
+        const sources = Object.keys(path.edges[i].sourceCounts || {});
+        const provenance = sources.length > 0 ? `, sources: ${sources.join('/')}` : '';
+        summary += ` --[${path.edges[i].type}, weight: ${path.edges[i].weight.toFixed(3)}${provenance}]--> `;
       }
       summary += '\n';
     }
 
     summary += `\nNovelty score: ${path.novelty.toFixed(3)}`;
+    const totalWeight = (path.noveltyFactors || []).reduce((sum, f) => sum + f.weight, 0);
+    for (const factor of path.noveltyFactors || []) {
+      summary += `\n  ${factor.name}: ${factor.score.toFixed(3)} × ${(factor.weight / totalWeight).toFixed(2)}`;
+    }
     summary += `\nAverage edge weight: ${(path.totalWeight / path.edges.length).toFixed(3)}`;
 
     return summary;
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { RelationExtractor } from './relations.js';
+import { conceptNode } from '../test/fixtures.js';
+
+const concept = (label: string) => conceptNode(label.replace(/ /g, '_'), { papers: ['p1'] });
+
+describe('RelationExtractor', () => {
+  const extractor = new RelationExtractor();
+  const candidates = [
+    concept('graphene oxide'),
+    concept('electron transport'),
+    concept('tumor growth'),
+    concept('metformin'),
+    concept('deep learning'),
+    concept('medical imaging'),
+  ];
+
+  it('should extract enabling relations', () => {
+    const relations = extractor.extractFromSentence(
+      'Graphene oxide directly enables electron transport.',
+      'p1',
+      candidates
+    );
+
+    expect(relations).toEqual([
+      expect.objectContaining({
+        source: 'graphene_oxide',
+        target: 'electron_transport',
+        type: 'enables',
+      }),
+    ]);
+  });
+
+  it('should extract inhibiting relations as contradicts', () => {
+    const relations = extractor.extractFromSentence(
+      'Metformin inhibits tumor growth in mice.',
+      'p1',
+      candidates
+    );
+
+    expect(relations[0]).toMatchObject({ source: 'metformin', target: 'tumor_growth', type: 'contradicts' });
+  });
+
+  it('should handle "in contrast to" cues', () => {
+    const relations = extractor.extractFromSentence(
+      'In contrast to metformin, graphene oxide was inert.',
+      'p1',
+      candidates
+    );
+
+    expect(relations[0]).toMatchObject({ source: 'graphene_oxide', target: 'metformin', type: 'contradicts' });
+  });
+
+  it('should extract application relations and keep the sentence', () => {
+    const relations = extractor.extractFromSentence(
+      'Deep learning was applied to medical imaging.',
+      'p1',
+      candidates
+    );
+
+    expect(relations[0]).toMatchObject({
+      source: 'deep_learning',
+      target: 'medical_imaging',
+      type: 'applied_in',
+      sentence: 'Deep learning was applied to medical imaging.',
+    });
+  });
+
+  it('should ignore mentions without a cue phrase', () => {
+    const relations = extractor.extractFromSentence(
+      'Deep learning and medical imaging are popular.',
+      'p1',
+      candidates
+    );
+
+    expect(relations).toHaveLength(0);
+  });
+});
@@ -0,0 +1,178 @@
+import type { Paper, ConceptNode, ConceptEdge } from '../types/index.js';
+import { tokenize } from './extractors.js';
+import { conceptSurfaceForms } from './normalize.js';
+
+/**
+ * Typed relation stated in a single sentence
+ */
+export interface TypedRelation {
+  source: string;
+  target: string;
+  type: ConceptEdge['type'];
+  paperId: string;
+  sentence: string;
+}
+
+/**
+ * Cue phrase linking two concept mentions
+ * `between` must match the words separating the mentions; `before` must match
+ * the words preceding the first mention. `reverse` flips the edge direction.
+ */
+interface CuePattern {
+  type: ConceptEdge['type'];
+  between: RegExp;
+  before?: RegExp;
+  reverse?: boolean;
+}
+
+// Adverbs and modals allowed around a cue ("can directly enable the")
+const FILLER = '(?:(?:which|that|can|may|could|might|also|further|directly|strongly|significantly|effectively|is|are|was|were|been|be) )*';
+const TAIL = '(?: (?:the|a|an|of|to))*';
+
+const cue = (words: string): RegExp => new RegExp(`^${FILLER}(?:${words})${TAIL}$`);
+
+const CUE_PATTERNS: CuePattern[] = [
+  {
+    type: 'enables',
+    between: cue(
+      'enables?|enabled|allows?|allowed|facilitates?|facilitated|promotes?|promoted|induces?|induced|activates?|activated|drives?|leads? to|results? in|gives? rise to'
+    ),
+  },
+  {
+    type: 'contradicts',
+    between: cue(
+      'inhibits?|inhibited|suppresses|suppressed|blocks?|blocked|prevents?|prevented|impairs?|impaired|antagonizes?|counteracts?|contradicts?|contradicted|opposes?|attenuates?|attenuated'
+    ),
+  },
+  {
+    // "In contrast to X, Y ..." / "Unlike X, Y ..."
+    type: 'contradicts',
+    before: /(?:^| )(?:in contrast to|contrary to|unlike|as opposed to)$/,
+    between: /^.{0,40}$/,
+    reverse: true,
+  },
+  {
+    type: 'derives_from',
+    between: cue(
+      'derived from|derives from|based on|extracted from|synthesized from|synthesised from|obtained from|inspired by|built on|adapted from|originates from'
+    ),
+  },
+  {
+    type: 'applied_in',
+    between: cue('applied to|applied in|applied for|used in|used for|used to study|employed in|deployed in|utilized in|adopted in'),
+  },
+  {
+    // "applying X to Y"
+    type: 'applied_in',
+    before: /(?:^| )(?:applying|apply|using|use of|application of)$/,
+    between: /^(?:to|in|for)$/,
+  },
+];
+
+interface Mention {
+  conceptId: string;
+  start: number;
+  end: number; // exclusive
+}
+
+/**
+ * Sentence-level relation extractor using cue-phrase patterns
+ */
+export class RelationExtractor {
+  /**
+   * Extract typed relations between concepts mentioned in the same sentence
+   */
+  extract(papers: Paper[], concepts: Map<string, ConceptNode>): TypedRelation[] {
+    const relations: TypedRelation[] = [];
+    const paperConcepts = new Map<string, ConceptNode[]>();
+
+    for (const concept of concepts.values()) {
+      for (const paperId of concept.papers) {
+        if (!paperConcepts.has(paperId)) paperConcepts.set(paperId, []);
+        paperConcepts.get(paperId)!.push(concept);
+      }
+    }
+
+    for (const paper of papers) {
+      const candidates = paperConcepts.get(paper.id);
+      if (!candidates || candidates.length < 2) continue;
+
+      for (const sentence of splitSentences(`${paper.title}. ${paper.abstract}`)) {
+        relations.push(...this.extractFromSentence(sentence, paper.id, candidates));
+      }
+    }
+
+    return relations;
+  }
+
+  /**
+   * Match cue patterns between consecutive concept mentions in a sentence
+   */
+  extractFromSentence(
+    sentence: string,
+    paperId: string,
+    candidates: ConceptNode[]
+  ): TypedRelation[] {
+    const tokens = tokenize(sentence);
+    const mentions = this.findMentions(tokens, candidates);
+    const relations: TypedRelation[] = [];
+
+    for (let i = 0; i < mentions.length - 1; i++) {
+      const first = mentions[i];
+      const second = mentions[i + 1];
+      if (first.conceptId === second.conceptId) continue;
+
+      const before = tokens.slice(0, first.start).join(' ');
+      const between = tokens.slice(first.end, second.start).join(' ');
+
+      for (const pattern of CUE_PATTERNS) {
+        if (pattern.before && !pattern.before.test(before)) continue;
+        if (!pattern.between.test(between)) continue;
+
+        const [source, target] = pattern.reverse
+          ? [second.conceptId, first.conceptId]
+          : [first.conceptId, second.conceptId];
+
+        relations.push({ source, target, type: pattern.type, paperId, sentence: sentence.trim() });
+        break;
+      }
+    }
+
+    return relations;
+  }
+
+  /**
+   * Locate non-overlapping concept mentions (labels and aliases), longest first
+   */
+  private findMentions(tokens: string[], candidates: ConceptNode[]): Mention[] {
+    const taken = new Array<boolean>(tokens.length).fill(false);
+    const mentions: Mention[] = [];
+    const labels = candidates
+      .flatMap(c => conceptSurfaceForms(c).map(form => ({ conceptId: c.id, tokens: tokenize(form) })))
+      .filter(l => l.tokens.length > 0)
+      .sort((a, b) => b.tokens.length - a.tokens.length);
+
+    for (const label of labels) {
+      const n = label.tokens.length;
+      for (let i = 0; i + n <= tokens.length; i++) {
+        if (taken.slice(i, i + n).some(Boolean)) continue;
+        if (label.tokens.every((t, k) => tokens[i + k] === t)) {
+          mentions.push({ conceptId: label.conceptId, start: i, end: i + n });
+          taken.fill(true, i, i + n);
+        }
+      }
+    }
+
+    return mentions.sort((a, b) => a.start - b.start);
+  }
+}
+
+/**
+ * Helper: split text into sentences
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
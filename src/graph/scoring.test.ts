@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultScorers,
+  edgeRecencyScorer,
+  endpointDistanceScorer,
+  graphYearSpan,
+  linkSurpriseScorer,
+  paperScarcityScorer,
+  scorePath,
+  type ScoringContext,
+} from './scoring.js';
+import { GraphReasoner } from './reasoner.js';
+import { defaultConfig } from '../config/default.js';
+import { conceptEdge, conceptGraph, conceptNode } from '../test/fixtures.js';
+import type { ConceptNode, ConceptEdge, GraphPath } from '../types/index.js';
+
+/**
+ * a - b (2010, two papers) and b - c (2020, one paper); a and c point in
+ * opposite embedding directions
+ */
+function sampleGraph() {
+  return conceptGraph(
+    [
+      conceptNode('a', { yearCounts: { 2010: 2 }, embedding: [1, 0] }),
+      conceptNode('b', { yearCounts: { 2010: 2, 2020: 1 } }),
+      conceptNode('c', { yearCounts: { 2020: 1 }, embedding: [-1, 0] }),
+    ],
+    [
+      conceptEdge('a', 'b', { weight: 0.8, evidence: ['p1', 'p2'], yearCounts: { 2010: 2 } }),
+      conceptEdge('b', 'c', { weight: 0.2, evidence: ['p3'], yearCounts: { 2020: 1 } }),
+    ]
+  );
+}
+
+function samplePath(graph = sampleGraph()): GraphPath {
+  const edges = [graph.getEdgeAttributes('a', 'b'), graph.getEdgeAttributes('b', 'c')] as ConceptEdge[];
+  return {
+    nodes: ['a', 'b', 'c'].map(id => graph.getNodeAttributes(id) as ConceptNode),
+    edges,
+    length: 3,
+    totalWeight: 1,
+    novelty: 0,
+  };
+}
+
+describe('scorePath', () => {
+  it('should reproduce the default four-factor formula', () => {
+    const graph = sampleGraph();
+    const context: ScoringContext = {
+      graph,
+      communities: new Map([['a', 0], ['b', 0], ['c', 1]]),
+      centrality: new Map([['a', 0], ['b', 0.03], ['c', 0]]),
+    };
+
+    const { novelty, factors } = scorePath(
+      samplePath(graph),
+      defaultScorers(),
+      defaultConfig.graphConfig.noveltyWeights,
+      context
+    );
+
+    // 0.4 * 1/2 + 0.3 * (1 - 0.5) + 0.2 * 3/6 + 0.1 * (1 - 0.1)
+    expect(novelty).toBeCloseTo(0.54);
+    expect(factors.map(f => f.name)).toEqual(['cross_community', 'edge_weakness', 'path_length', 'bridge']);
+  });
+
+  it('should leave out factors without data and renormalize the rest', () => {
+    const { novelty, factors } = scorePath(
+      samplePath(),
+      defaultScorers(),
+      { cross_community: 1, edge_weakness: 1 },
+      { graph: sampleGraph() }
+    );
+
+    expect(factors).toEqual([{ name: 'edge_weakness', score: 0.5, weight: 1 }]);
+    expect(novelty).toBe(0.5);
+  });
+});
+
+describe('additional scorers', () => {
+  const graph = sampleGraph();
+  const context: ScoringContext = { graph, years: graphYearSpan(graph) };
+
+  it('should score edge recency across the corpus years', () => {
+    expect(context.years).toEqual({ first: 2010, last: 2020 });
+    expect(edgeRecencyScorer.score(samplePath(graph), context)).toBe(0.5);
+  });
+
+  it('should score link surprise, paper scarcity and endpoint distance', () => {
+    // N(a) = {b}, N(c) = {b}
+    expect(linkSurpriseScorer.score(samplePath(graph), context)).toBe(0);
+    expect(paperScarcityScorer.score(samplePath(graph), context)).toBeCloseTo((1 / 3 + 1 / 2) / 2);
+    expect(endpointDistanceScorer.score(samplePath(graph), context)).toBe(1);
+  });
+});
+
+describe('GraphReasoner novelty factors', () => {
+  it('should record and print the factors behind a path', () => {
+    const reasoner = new GraphReasoner(sampleGraph());
+    reasoner.analyzeGraph();
+    reasoner.addScorer({ name: 'constant', score: () => 1 }, 1);
+
+    const [path] = reasoner.findPaths('a', 'c');
+
+    expect(path.noveltyFactors!.map(f => f.name)).toContain('constant');
+    expect(reasoner.summarizePath(path)).toContain('constant: 1.000 × 0.50');
+  });
+});
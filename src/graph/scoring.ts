@@ -0,0 +1,196 @@
+import Graph from 'graphology';
+import type { ConceptNode, GraphPath, NoveltyFactor } from '../types/index.js';
+import { LinkPredictor } from './links.js';
+import { cosineSimilarity } from './embeddings.js';
+import { firstYear } from './temporal.js';
+
+/**
+ * Graph state available to path scorers
+ */
+export interface ScoringContext {
+  graph: Graph;
+  communities?: Map<string, number>;
+  centrality?: Map<string, number>;
+  years?: { first: number; last: number }; // Publication years spanned by the corpus
+}
+
+/**
+ * One factor of a path's novelty score
+ * `score` returns a value in [0, 1] (higher = more novel), or undefined when
+ * the path lacks the data the factor needs; undefined factors are left out
+ * and the remaining weights renormalized.
+ */
+export interface PathScorer {
+  name: string;
+  score(path: GraphPath, context: ScoringContext): number | undefined;
+}
+
+/**
+ * Share of steps that cross between communities
+ */
+export const crossCommunityScorer: PathScorer = {
+  name: 'cross_community',
+  score(path, context) {
+    if (!context.communities || path.nodes.length < 2) return undefined;
+
+    let changes = 0;
+    for (let i = 0; i < path.nodes.length - 1; i++) {
+      const from = context.communities.get(path.nodes[i].id);
+      if (from !== context.communities.get(path.nodes[i + 1].id)) changes++;
+    }
+    return changes / (path.nodes.length - 1);
+  },
+};
+
+/**
+ * Weaker edges are more surprising
+ */
+export const edgeWeaknessScorer: PathScorer = {
+  name: 'edge_weakness',
+  score(path) {
+    if (path.edges.length === 0) return undefined;
+    return 1 - Math.min(path.totalWeight / path.edges.length, 1);
+  },
+};
+
+/**
+ * Longer paths combine more concepts; `scale` concepts score 1
+ */
+export function pathLengthScorer(scale: number = 6): PathScorer {
+  return {
+    name: 'path_length',
+    score: path => Math.min(path.length / scale, 1),
+  };
+}
+
+/**
+ * Paths through well-known bridge concepts (high centrality) are less novel
+ */
+export const bridgeScorer: PathScorer = {
+  name: 'bridge',
+  score(path, context) {
+    if (!context.centrality) return 0.5;
+    const average =
+      path.nodes.reduce((sum, n) => sum + (context.centrality!.get(n.id) || 0), 0) / path.nodes.length;
+    return 1 - Math.min(average * 10, 1);
+  },
+};
+
+/**
+ * Edges first seen late in the corpus are newer connections; predicted links
+ * have not been made at all and score 1
+ */
+export const edgeRecencyScorer: PathScorer = {
+  name: 'edge_recency',
+  score(path, context) {
+    const scores = path.edges
+      .map(edge => {
+        if (edge.predicted) return 1;
+        const year = firstYear(edge.yearCounts);
+        if (year === undefined || !context.years) return undefined;
+        const span = context.years.last - context.years.first;
+        return span > 0 ? (year - context.years.first) / span : 0;
+      })
+      .filter((score): score is number => score !== undefined);
+
+    return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : undefined;
+  },
+};
+
+/**
+ * Endpoints that neighbourhood overlap would not predict to be linked are
+ * more surprising (one minus their Jaccard similarity)
+ */
+export const linkSurpriseScorer: PathScorer = {
+  name: 'link_surprise',
+  score(path, context) {
+    if (path.nodes.length < 2) return undefined;
+    const source = path.nodes[0].id;
+    const target = path.nodes[path.nodes.length - 1].id;
+    return 1 - new LinkPredictor(context.graph).score(source, target, 'jaccard');
+  },
+};
+
+/**
+ * Edges backed by few papers are less established
+ */
+export const paperScarcityScorer: PathScorer = {
+  name: 'paper_scarcity',
+  score(path) {
+    if (path.edges.length === 0) return undefined;
+    return path.edges.reduce((sum, edge) => sum + 1 / (1 + edge.evidence.length), 0) / path.edges.length;
+  },
+};
+
+/**
+ * Endpoints far apart in embedding space join distant topics
+ */
+export const endpointDistanceScorer: PathScorer = {
+  name: 'endpoint_distance',
+  score(path) {
+    const source = path.nodes[0]?.embedding;
+    const target = path.nodes[path.nodes.length - 1]?.embedding;
+    if (!source || !target || path.nodes.length < 2) return undefined;
+    return Math.min(Math.max((1 - cosineSimilarity(source, target)) / 2, 0), 1);
+  },
+};
+
+/**
+ * Built-in scorers; only those with a non-zero weight contribute
+ */
+export function defaultScorers(lengthScale?: number): PathScorer[] {
+  return [
+    crossCommunityScorer,
+    edgeWeaknessScorer,
+    pathLengthScorer(lengthScale),
+    bridgeScorer,
+    edgeRecencyScorer,
+    linkSurpriseScorer,
+    paperScarcityScorer,
+    endpointDistanceScorer,
+  ];
+}
+
+// Names of the built-in scorers, as used in `noveltyWeights`
+export const NOVELTY_FACTORS = defaultScorers().map(scorer => scorer.name);
+
+/**
+ * Weighted combination of scorers, with the contribution of each factor
+ */
+export function scorePath(
+  path: GraphPath,
+  scorers: PathScorer[],
+  weights: Record<string, number>,
+  context: ScoringContext
+): { novelty: number; factors: NoveltyFactor[] } {
+  const factors: NoveltyFactor[] = [];
+  for (const scorer of scorers) {
+    const weight = weights[scorer.name] || 0;
+    if (weight <= 0) continue;
+    const score = scorer.score(path, context);
+    if (score !== undefined) factors.push({ name: scorer.name, score, weight });
+  }
+
+  const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+  if (totalWeight === 0) return { novelty: 0, factors };
+
+  const novelty = factors.reduce((sum, f) => sum + f.score * f.weight, 0) / totalWeight;
+  return { novelty: Math.min(Math.max(novelty, 0), 1), factors };
+}
+
+/**
+ * First and last publication years of the concepts in a graph
+ */
+export function graphYearSpan(graph: Graph): { first: number; last: number } | undefined {
+  let first = Infinity;
+  let last = -Infinity;
+  graph.forEachNode((_id, attrs) => {
+    for (const [year, count] of Object.entries((attrs as ConceptNode).yearCounts || {})) {
+      if (count <= 0) continue;
+      first = Math.min(first, Number(year));
+      last = Math.max(last, Number(year));
+    }
+  });
+
+  return Number.isFinite(first) ? { first, last } : undefined;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Graph from 'graphology';
+import { saveSnapshot, loadSnapshot, SNAPSHOT_VERSION } from './snapshot.js';
+import { conceptEdge, conceptNode } from '../test/fixtures.js';
+
+describe('graph snapshots', () => {
+  it('should round-trip graph, metadata and analysis', async () => {
+    const graph = new Graph({ multi: false, type: 'directed' });
+    graph.addNode('gene_editing', conceptNode('gene_editing', { papers: ['p1'] }));
+    graph.addNode('neural_circuits', conceptNode('neural_circuits', { papers: ['p1'] }));
+    const edge = conceptEdge('gene_editing', 'neural_circuits', { type: 'enables', confidence: 0.25, evidence: ['p1'] });
+    graph.addEdge(edge.source, edge.target, edge);
+
+    const createdAt = new Date('2024-01-02T03:04:05.000Z');
+    const filePath = join(tmpdir(), `snapshot-${Date.now()}.json`);
+
+    await saveSnapshot(
+      filePath,
+      graph,
+      { paperCount: 1, conceptCount: 2, createdAt, lastUpdated: createdAt },
+      { communities: { gene_editing: 0, neural_circuits: 1 }, centrality: { gene_editing: 0.5 } }
+    );
+    const loaded = await loadSnapshot(filePath);
+    await rm(filePath);
+
+    expect(loaded.graph.order).toBe(2);
+    expect(loaded.graph.type).toBe('directed');
+    expect(loaded.graph.getEdgeAttributes('gene_editing', 'neural_circuits')).toEqual(edge);
+    expect(loaded.knowledgeGraph.nodes.get('gene_editing')).toEqual(conceptNode('gene_editing', { papers: ['p1'] }));
+    expect(loaded.knowledgeGraph.edges).toEqual([edge]);
+    expect(loaded.knowledgeGraph.metadata.createdAt).toEqual(createdAt);
+    expect(loaded.analysis!.communities.neural_circuits).toBe(1);
+  });
+
+  it('should reject snapshots with another format version', async () => {
+    const filePath = join(tmpdir(), `snapshot-old-${Date.now()}.json`);
+    await writeFile(filePath, JSON.stringify({ version: SNAPSHOT_VERSION + 1 }));
+
+    await expect(loadSnapshot(filePath)).rejects.toThrow(/Unsupported graph snapshot version/);
+    await rm(filePath);
+  });
+});
@@ -0,0 +1,129 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import Graph from 'graphology';
+import type {
+  BuildSettings,
+  ConceptNode,
+  ConceptEdge,
+  KnowledgeGraph,
+  GraphAnalysis,
+  SourceCounts,
+  YearCounts,
+} from '../types/index.js';
+import { EntityLayer } from './entities.js';
+
+/**
+ * Current on-disk snapshot format version
+ * Bump when the layout changes in a way older readers cannot handle
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * On-disk knowledge graph snapshot
+ */
+export interface GraphSnapshot {
+  version: number;
+  savedAt: string;
+  metadata: {
+    paperCount: number;
+    conceptCount: number;
+    createdAt: string;
+    lastUpdated: string;
+    yearCounts?: YearCounts;
+    sourceCounts?: SourceCounts;
+    buildSettings?: BuildSettings;
+  };
+  graph: ReturnType<Graph['export']>;
+  analysis?: GraphAnalysis;
+  entities?: ReturnType<Graph['export']>; // Author/venue/paper layer
+}
+
+/**
+ * Snapshot contents restored into memory
+ */
+export interface LoadedSnapshot {
+  graph: Graph;
+  knowledgeGraph: KnowledgeGraph;
+  analysis?: GraphAnalysis;
+  entities?: EntityLayer;
+}
+
+/**
+ * Save the graph, its metadata and (optionally) analysis results and the
+ * author/venue/paper layer
+ */
+export async function saveSnapshot(
+  filePath: string,
+  graph: Graph,
+  metadata: KnowledgeGraph['metadata'],
+  analysis?: GraphAnalysis,
+  entities?: EntityLayer
+): Promise<void> {
+  const snapshot: GraphSnapshot = {
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    metadata: {
+      paperCount: metadata.paperCount,
+      conceptCount: metadata.conceptCount,
+      createdAt: metadata.createdAt.toISOString(),
+      lastUpdated: metadata.lastUpdated.toISOString(),
+      yearCounts: metadata.yearCounts,
+      sourceCounts: metadata.sourceCounts,
+      buildSettings: metadata.buildSettings,
+    },
+    graph: graph.export(),
+    analysis,
+    entities: entities?.export(),
+  };
+
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(snapshot));
+  console.log(`Saved graph snapshot to ${filePath} (${graph.order} concepts, ${graph.size} edges)`);
+}
+
+/**
+ * Load a snapshot written by `saveSnapshot`
+ */
+export async function loadSnapshot(filePath: string): Promise<LoadedSnapshot> {
+  const content = await readFile(filePath, 'utf-8');
+  const snapshot = JSON.parse(content) as GraphSnapshot;
+
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported graph snapshot version ${snapshot.version} in ${filePath} (expected ${SNAPSHOT_VERSION}). Rebuild it with build-graph.`
+    );
+  }
+
+  const graph = Graph.from(snapshot.graph);
+  const nodes = new Map<string, ConceptNode>();
+  const edges: ConceptEdge[] = [];
+
+  graph.forEachNode((nodeId, attrs) => {
+    nodes.set(nodeId, attrs as ConceptNode);
+  });
+  graph.forEachEdge((_edgeId, attrs) => {
+    edges.push(attrs as ConceptEdge);
+  });
+
+  const knowledgeGraph: KnowledgeGraph = {
+    nodes,
+    edges,
+    metadata: {
+      paperCount: snapshot.metadata.paperCount,
+      conceptCount: snapshot.metadata.conceptCount,
+      createdAt: new Date(snapshot.metadata.createdAt),
+      lastUpdated: new Date(snapshot.metadata.lastUpdated),
+      yearCounts: snapshot.metadata.yearCounts,
+      sourceCounts: snapshot.metadata.sourceCounts,
+      buildSettings: snapshot.metadata.buildSettings,
+    },
+  };
+
+  console.log(`Loaded graph snapshot from ${filePath} (${graph.order} concepts, ${graph.size} edges)`);
+  return {
+    graph,
+    knowledgeGraph,
+    analysis: snapshot.analysis,
+    entities: snapshot.entities ? EntityLayer.from(snapshot.entities) : undefined,
+  };
+}
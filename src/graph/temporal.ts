@@ -0,0 +1,62 @@
+import type { Paper, YearCounts, YearRange } from '../types/index.js';
+
+/**
+ * Number of papers per publication year
+ * Papers that are not in `papers` (e.g. not loaded in this session) are skipped
+ */
+export function yearHistogram(paperIds: Iterable<string>, papers: Map<string, Paper>): YearCounts {
+  const counts: YearCounts = {};
+
+  for (const paperId of new Set(paperIds)) {
+    const year = papers.get(paperId)?.year;
+    if (year !== undefined) counts[year] = (counts[year] || 0) + 1;
+  }
+
+  return counts;
+}
+
+/**
+ * Sum two year histograms
+ */
+export function mergeYearCounts(a: YearCounts = {}, b: YearCounts = {}): YearCounts {
+  const merged: YearCounts = { ...a };
+  for (const [year, count] of Object.entries(b)) {
+    merged[Number(year)] = (merged[Number(year)] || 0) + count;
+  }
+  return merged;
+}
+
+/**
+ * Restrict a histogram to a year range (bounds inclusive)
+ */
+export function sliceYearCounts(counts: YearCounts, range: YearRange): YearCounts {
+  const sliced: YearCounts = {};
+  for (const [year, count] of Object.entries(counts)) {
+    if (inRange(Number(year), range)) sliced[Number(year)] = count;
+  }
+  return sliced;
+}
+
+/**
+ * Total count in a histogram
+ */
+export function totalCount(counts: YearCounts): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Earliest year with a non-zero count
+ */
+export function firstYear(counts: YearCounts = {}): number | undefined {
+  const years = Object.keys(counts)
+    .map(Number)
+    .filter(year => counts[year] > 0);
+  return years.length > 0 ? Math.min(...years) : undefined;
+}
+
+/**
+ * Whether a year falls inside a range (bounds inclusive, open when omitted)
+ */
+export function inRange(year: number, range: YearRange): boolean {
+  return (range.from === undefined || year >= range.from) && (range.to === undefined || year <= range.to);
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { TermRanker, StatisticalTermExtractor } from './terms.js';
+import { testPaper } from '../test/fixtures.js';
+
+const paper = (id: string, abstract: string) => testPaper(id, { title: '', abstract, year: 2024 });
+
+describe('TermRanker', () => {
+  it('should trim stopwords and generic words from candidates', () => {
+    const ranker = new TermRanker();
+    const candidates = ranker.candidates('We present a novel graph neural network.');
+
+    expect(candidates).toContain('graph neural network');
+    expect(candidates).not.toContain('we present');
+    expect(candidates.some(c => c.startsWith('novel'))).toBe(false);
+  });
+
+  it('should not build terms around "uses"', () => {
+    const ranker = new TermRanker();
+    const candidates = ranker.candidates('This research uses optogenetic stimulation in mice.');
+
+    expect(candidates).toContain('optogenetic stimulation');
+    expect(candidates.some(c => c.split(' ').includes('uses'))).toBe(false);
+  });
+
+  it('should keep domain terms led by or containing modifiers', () => {
+    const ranker = new TermRanker();
+    const candidates = ranker.candidates(
+      'Reduced graphene oxide and high entropy alloys. Induced pluripotent stem cells. ' +
+        'Surface-enhanced Raman spectroscopy. Applied mathematics. Graphene oxide reduced.'
+    );
+
+    expect(candidates).toEqual(
+      expect.arrayContaining([
+        'reduced graphene oxide',
+        'high entropy alloys',
+        'induced pluripotent stem cells',
+        'surface enhanced raman spectroscopy',
+        'applied mathematics',
+      ])
+    );
+    expect(candidates).not.toContain('graphene oxide reduced');
+  });
+
+  it('should not build terms across punctuation', () => {
+    const ranker = new TermRanker();
+    const candidates = ranker.candidates('gene expression, protein folding');
+
+    expect(candidates).not.toContain('expression protein');
+  });
+
+  it('should penalize terms that only occur nested in longer terms', () => {
+    const ranker = new TermRanker();
+    const ranked = ranker.rank([
+      paper('p1', 'Quantum state preparation is hard. So is quantum state preparation.'),
+      paper('p2', 'Quantum state preparation.'),
+    ]);
+
+    const terms = ranked.map(t => t.term);
+    expect(terms).toContain('quantum state preparation');
+    expect(terms).not.toContain('quantum state');
+  });
+
+  it('should enforce the minimum document frequency', () => {
+    const ranker = new TermRanker({ minDocFrequency: 2 });
+    const ranked = ranker.rank([
+      paper('p1', 'Gut microbiome diversity. Protein folding kinetics.'),
+      paper('p2', 'Gut microbiome composition.'),
+    ]);
+
+    const terms = ranked.map(t => t.term);
+    expect(terms).toContain('gut microbiome');
+    expect(terms).not.toContain('protein folding kinetics');
+  });
+});
+
+describe('StatisticalTermExtractor', () => {
+  it('should extract ranked terms after the corpus pass', () => {
+    const extractor = new StatisticalTermExtractor();
+    const papers = [
+      paper('p1', 'Results show that deep learning improves protein folding.'),
+      paper('p2', 'Deep learning for drug discovery.'),
+    ];
+
+    extractor.prepare(papers);
+    const concepts = extractor.extract(papers[1].abstract, 'p2');
+    const ids = concepts.map(c => c.id);
+
+    expect(ids).toContain('deep_learning');
+    expect(ids).toContain('drug_discovery');
+    expect(concepts[0].properties.termScore).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,318 @@
+import type { ConceptNode, Paper } from '../types/index.js';
+import {
+  VocabularyExtractor,
+  classifyConceptType,
+  normalizeConceptId,
+  tokenize,
+  type ConceptExtractor,
+} from './extractors.js';
+
+/**
+ * Options for corpus-level term ranking
+ */
+export interface TermRankingOptions {
+  minTermLength: number; // Minimum number of tokens in a term
+  maxTermLength: number; // Maximum number of tokens in a term
+  minDocFrequency: number; // Minimum number of papers a term must appear in
+  maxTerms: number; // Keep at most this many top-ranked terms
+}
+
+/**
+ * Candidate term with its corpus statistics
+ */
+export interface RankedTerm {
+  term: string;
+  length: number;
+  frequency: number; // Total occurrences across the corpus
+  docFrequency: number; // Number of papers containing the term
+  cValue: number;
+  tfidf: number;
+  score: number; // Combined, normalized ranking score (0-1)
+}
+
+export const DEFAULT_TERM_RANKING: TermRankingOptions = {
+  minTermLength: 2,
+  maxTermLength: 4,
+  minDocFrequency: 1,
+  maxTerms: 5000,
+};
+
+/**
+ * Function words that may not start or end a term
+ */
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and',
+  'any', 'are', 'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below',
+  'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'down', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have',
+  'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'itself', 'just', 'may', 'might', 'more', 'most',
+  'must', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or',
+  'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'she', 'should', 'so',
+  'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until',
+  'up', 'upon', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'while', 'who', 'whom', 'why', 'will', 'with', 'within', 'without', 'would',
+  'you', 'your', 'via', 'thus', 'also', 'however', 'therefore', 'whereas',
+]);
+
+/**
+ * Generic phrasing: discourse nouns, hedging adjectives and reporting verbs
+ * Terms never contain these, so "recent studies show that deep learning"
+ * reduces to its domain core "deep learning". Words that also modify domain
+ * terms are in MODIFIER_WORDS instead.
+ */
+export const GENERIC_WORDS = new Set([
+  // Discourse nouns
+  'study', 'studies', 'paper', 'papers', 'work', 'works', 'result', 'results',
+  'finding', 'findings', 'year', 'years', 'role', 'level', 'levels', 'et', 'al',
+  // Hedging and evaluative modifiers
+  'novel', 'new', 'recent', 'recently', 'previous', 'previously', 'current',
+  'currently', 'future', 'potential', 'important', 'significant', 'significantly',
+  'various', 'several', 'different', 'similar', 'well', 'first', 'second',
+  'many', 'key', 'overall', 'respectively', 'including', 'using', 'use', 'uses', 'used',
+  // Reporting verbs
+  'present', 'presents', 'presented', 'show', 'shows', 'shown', 'showed',
+  'demonstrate', 'demonstrates', 'demonstrated', 'suggest', 'suggests',
+  'suggested', 'propose', 'proposes', 'proposed', 'report', 'reported',
+  'achieve', 'achieves', 'achieved', 'combine', 'combines',
+  'identify', 'identifies', 'identified', 'reduce', 'reduces',
+  'explore', 'explores', 'explored', 'develop', 'develops', 'developed',
+  'enhance', 'enhances', 'improve', 'improves', 'improved',
+  'predict', 'predicts', 'predicted', 'apply', 'applies', 'offer',
+  'offers', 'offered', 'provide', 'provides', 'provided', 'reveal', 'reveals',
+  'revealed', 'investigate', 'investigates', 'investigated', 'examine',
+  'examines', 'examined', 'evaluate', 'evaluates', 'evaluated', 'compare',
+  'compares', 'compared', 'find', 'found', 'observe', 'observed', 'obtain',
+  'obtained', 'introduce', 'introduces', 'introduced', 'accelerate',
+  'accelerates', 'revolutionize', 'revolutionized', 'calculate', 'calculating',
+  'studied', 'alongside',
+  // Relation cues (see relations.ts)
+  'enable', 'enables', 'enabled', 'allow', 'allows', 'allowed', 'facilitate',
+  'facilitates', 'facilitated', 'promote', 'promotes', 'promoted', 'induce',
+  'induces', 'inhibit', 'inhibits', 'inhibited', 'suppress',
+  'suppresses', 'suppressed', 'prevent', 'prevents', 'prevented', 'impair',
+  'impairs', 'impaired', 'contradict', 'contradicts', 'derives',
+  'extracted', 'synthesized', 'inspired', 'employed', 'utilized', 'unlike',
+]);
+
+/**
+ * Adjectives and participles that are generic on their own but modify many
+ * domain terms ("reduced graphene oxide", "induced pluripotent stem cells",
+ * "surface-enhanced raman", "high entropy alloys", "applied mathematics")
+ * A term may start with or contain these but never ends with one.
+ */
+export const MODIFIER_WORDS = new Set([
+  'high', 'low', 'large', 'small', 'related', 'associated', 'based', 'combined',
+  'reduced', 'enhanced', 'applied', 'induced', 'derived',
+]);
+
+/**
+ * Corpus-level term ranking
+ *
+ * Candidates are stopword-trimmed n-grams taken within clause boundaries.
+ * Nested multi-word terms are scored with C-value (Frantzi et al., 2000) and
+ * combined with TF-IDF across papers so that terms that are frequent in a few
+ * papers but not everywhere rank highest.
+ */
+export class TermRanker {
+  private options: TermRankingOptions;
+
+  constructor(options: Partial<TermRankingOptions> = {}) {
+    this.options = { ...DEFAULT_TERM_RANKING, ...options };
+  }
+
+  /**
+   * Options the ranker was created with
+   */
+  getOptions(): TermRankingOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Rank candidate terms across all papers
+   */
+  rank(papers: Paper[]): RankedTerm[] {
+    const { minDocFrequency, maxTerms } = this.options;
+    const frequency = new Map<string, number>();
+    const docFrequency = new Map<string, number>();
+
+    for (const paper of papers) {
+      const seen = new Set<string>();
+      for (const term of this.candidates(paperText(paper))) {
+        frequency.set(term, (frequency.get(term) || 0) + 1);
+        if (!seen.has(term)) {
+          seen.add(term);
+          docFrequency.set(term, (docFrequency.get(term) || 0) + 1);
+        }
+      }
+    }
+
+    const cValues = this.computeCValues(frequency);
+    const paperCount = papers.length;
+    const ranked: RankedTerm[] = [];
+
+    for (const [term, freq] of frequency) {
+      const df = docFrequency.get(term) || 0;
+      const cValue = cValues.get(term) || 0;
+      if (df < minDocFrequency || cValue <= 0) continue;
+
+      // Smoothed IDF so single-paper corpora still produce positive scores
+      const idf = Math.log((1 + paperCount) / (1 + df)) + 1;
+      ranked.push({
+        term,
+        length: term.split(' ').length,
+        frequency: freq,
+        docFrequency: df,
+        cValue,
+        tfidf: (freq / df) * idf,
+        score: 0,
+      });
+    }
+
+    // Combine normalized C-value and TF-IDF
+    const maxCValue = ranked.reduce((max, t) => Math.max(max, t.cValue), 1e-9);
+    const maxTfidf = ranked.reduce((max, t) => Math.max(max, t.tfidf), 1e-9);
+    ranked.forEach(t => {
+      t.score = 0.5 * (t.cValue / maxCValue) + 0.5 * (t.tfidf / maxTfidf);
+    });
+
+    ranked.sort((a, b) => b.score - a.score || a.term.localeCompare(b.term));
+    return ranked.slice(0, maxTerms);
+  }
+
+  /**
+   * Generate candidate terms from text
+   * N-grams never cross punctuation, never contain generic words, never
+   * start or end with a stopword and never end with a modifier; "of" is the
+   * only stopword allowed inside
+   */
+  candidates(text: string): string[] {
+    const { minTermLength, maxTermLength } = this.options;
+    const terms: string[] = [];
+
+    for (const clause of text.toLowerCase().split(/[.,;:!?()[\]{}"]+/)) {
+      const tokens = tokenize(clause);
+
+      for (let i = 0; i < tokens.length; i++) {
+        if (!isTermBoundary(tokens[i])) continue;
+
+        for (let n = minTermLength; n <= maxTermLength && i + n <= tokens.length; n++) {
+          const gram = tokens.slice(i, i + n);
+          if (!isTermBoundary(gram[n - 1]) || MODIFIER_WORDS.has(gram[n - 1])) continue;
+          if (gram.some(t => GENERIC_WORDS.has(t) || (STOPWORDS.has(t) && t !== 'of'))) {
+            continue;
+          }
+
+          terms.push(gram.join(' '));
+        }
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Compute C-value for every candidate
+   * C-value(a) = log2(|a| + 1) * (f(a) - mean frequency of longer candidates containing a)
+   */
+  private computeCValues(frequency: Map<string, number>): Map<string, number> {
+    const nestedFrequency = new Map<string, number>();
+    const nestedCount = new Map<string, number>();
+
+    for (const [term, freq] of frequency) {
+      const tokens = term.split(' ');
+      const substrings = new Set<string>();
+
+      for (let n = this.options.minTermLength; n < tokens.length; n++) {
+        for (let i = 0; i + n <= tokens.length; i++) {
+          substrings.add(tokens.slice(i, i + n).join(' '));
+        }
+      }
+
+      for (const sub of substrings) {
+        if (!frequency.has(sub)) continue;
+        nestedFrequency.set(sub, (nestedFrequency.get(sub) || 0) + freq);
+        nestedCount.set(sub, (nestedCount.get(sub) || 0) + 1);
+      }
+    }
+
+    const cValues = new Map<string, number>();
+    for (const [term, freq] of frequency) {
+      // log2(|a| + 1) rather than log2|a| keeps single-word terms from scoring zero
+      const lengthWeight = Math.log2(term.split(' ').length + 1);
+      const count = nestedCount.get(term);
+      const adjusted = count ? freq - nestedFrequency.get(term)! / count : freq;
+      cValues.set(term, lengthWeight * adjusted);
+    }
+
+    return cValues;
+  }
+}
+
+/**
+ * Extractor that matches the top-ranked corpus terms
+ * Requires a `prepare` pass over the whole corpus before extraction
+ */
+export class StatisticalTermExtractor implements ConceptExtractor {
+  private ranker: TermRanker;
+  private matcher: VocabularyExtractor;
+  private scores: Map<string, number>;
+
+  constructor(options: Partial<TermRankingOptions> = {}) {
+    this.ranker = new TermRanker(options);
+    this.matcher = new VocabularyExtractor([]);
+    this.scores = new Map();
+  }
+
+  /**
+   * Term ranking options, recorded with a graph so updates rank alike
+   */
+  getRankingOptions(): TermRankingOptions {
+    return this.ranker.getOptions();
+  }
+
+  /**
+   * Change term ranking options for the next `prepare`
+   */
+  setRankingOptions(options: Partial<TermRankingOptions>): void {
+    this.ranker = new TermRanker({ ...this.ranker.getOptions(), ...options });
+  }
+
+  prepare(papers: Paper[]): void {
+    const ranked = this.ranker.rank(papers);
+
+    this.scores = new Map(ranked.map(t => [normalizeConceptId(t.term), t.score]));
+    this.matcher = new VocabularyExtractor(
+      ranked.map(t => ({ term: t.term, synonyms: [], type: classifyConceptType(t.term) }))
+    );
+
+    console.log(`Ranked ${ranked.length} candidate terms across ${papers.length} papers`);
+  }
+
+  extract(text: string, paperId: string): ConceptNode[] {
+    return this.matcher.extract(text, paperId).map(concept => ({
+      ...concept,
+      properties: { ...concept.properties, termScore: this.scores.get(concept.id) },
+    }));
+  }
+}
+
+/**
+ * Helper: text used for term statistics
+ */
+function paperText(paper: Paper): string {
+  return `${paper.title}. ${paper.abstract}. ${paper.keywords?.join('. ') || ''}`;
+}
+
+/**
+ * Helper: a token that may start or end a term
+ */
+function isTermBoundary(token: string): boolean {
+  return (
+    token.length > 1 &&
+    !STOPWORDS.has(token) &&
+    !GENERIC_WORDS.has(token) &&
+    !/^\d+$/.test(token)
+  );
+}
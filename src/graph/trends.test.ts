@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import Graph from 'graphology';
+import { TrendAnalyzer, growthZScore, kleinbergBursts, sparkline } from './trends.js';
+import { conceptNode } from '../test/fixtures.js';
+import type { YearCounts } from '../types/index.js';
+
+describe('kleinbergBursts', () => {
+  it('should find the interval where the share jumps', () => {
+    const bursts = kleinbergBursts([1, 1, 1, 8, 9], [100, 100, 100, 100, 100]);
+
+    expect(bursts).toHaveLength(1);
+    expect(bursts[0]).toMatchObject({ start: 3, end: 4 });
+    expect(bursts[0].weight).toBeGreaterThan(0);
+  });
+
+  it('should not report steady terms', () => {
+    expect(kleinbergBursts([5, 5, 5, 5, 5], [100, 100, 100, 100, 100])).toEqual([]);
+    expect(kleinbergBursts([10, 10], [10, 10])).toEqual([]);
+  });
+});
+
+describe('growthZScore', () => {
+  it('should be positive for a growing share and negative for a shrinking one', () => {
+    const totals = [100, 100, 100, 100];
+    expect(growthZScore([1, 1, 10, 12], totals, 2)).toBeGreaterThan(3);
+    expect(growthZScore([10, 12, 1, 1], totals, 2)).toBeLessThan(-3);
+  });
+});
+
+describe('TrendAnalyzer', () => {
+  const corpus: YearCounts = { 2018: 50, 2019: 50, 2020: 50, 2021: 50, 2022: 50 };
+  const graph = new Graph({ type: 'directed' });
+  const concepts: Record<string, YearCounts> = {
+    crispr_screen: { 2018: 1, 2021: 10, 2022: 15 },
+    cell_culture: { 2018: 5, 2019: 5, 2020: 5, 2021: 5, 2022: 5 },
+    organoid: { 2021: 3, 2022: 6 },
+  };
+  for (const [id, yearCounts] of Object.entries(concepts)) {
+    const frequency = Object.values(yearCounts).reduce((a, b) => a + b, 0);
+    graph.addNode(id, conceptNode(id, { yearCounts, frequency }));
+  }
+  graph.addEdge('cell_culture', 'crispr_screen', { yearCounts: { 2018: 1, 2019: 1 } });
+  graph.addEdge('crispr_screen', 'organoid', { yearCounts: { 2021: 2, 2022: 4 } });
+
+  const analyzer = new TrendAnalyzer(graph, corpus);
+
+  it('should rank bursting concepts with zero-filled year curves', () => {
+    const trends = analyzer.burstingConcepts();
+
+    expect(trends.map(t => t.id)).toEqual(['crispr_screen', 'organoid']);
+    expect(trends[0].burst).toEqual({ start: 2021, end: 2022 });
+    expect(trends[1].yearCounts).toEqual({ 2018: 0, 2019: 0, 2020: 0, 2021: 3, 2022: 6 });
+  });
+
+  it('should support z-score detection', () => {
+    const trends = analyzer.burstingConcepts({ method: 'zscore', window: 2 });
+
+    expect(trends.map(t => t.id)).toContain('crispr_screen');
+    expect(trends.map(t => t.id)).not.toContain('cell_culture');
+  });
+
+  it('should report only recently formed edges', () => {
+    const edges = analyzer.emergingEdges({ window: 2 });
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0]).toMatchObject({
+      kind: 'edge',
+      id: 'crispr_screen|organoid',
+      label: 'crispr screen → organoid',
+      firstYear: 2021,
+    });
+  });
+});
+
+describe('sparkline', () => {
+  it('should scale counts to bar heights', () => {
+    expect(sparkline({ 2020: 0, 2021: 4, 2022: 8 })).toBe('▁▅█');
+  });
+});
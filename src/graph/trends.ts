@@ -0,0 +1,277 @@
+import Graph from 'graphology';
+import type { ConceptNode, ConceptEdge, YearCounts } from '../types/index.js';
+import { firstYear, mergeYearCounts, totalCount } from './temporal.js';
+
+/**
+ * Options for trend detection
+ */
+export interface TrendOptions {
+  method: 'kleinberg' | 'zscore';
+  window: number; // Recent years compared against the earlier record
+  minCount: number; // Minimum supporting papers for a concept or edge
+  limit: number; // Keep at most this many trends
+  burstRate: number; // Kleinberg: rate multiplier of the bursty state
+  transitionCost: number; // Kleinberg: gamma, cost of entering a burst
+}
+
+export const DEFAULT_TREND_OPTIONS: TrendOptions = {
+  method: 'kleinberg',
+  window: 3,
+  minCount: 2,
+  limit: 20,
+  burstRate: 2,
+  transitionCost: 1,
+};
+
+/**
+ * Concept or edge whose share of the literature is growing
+ */
+export interface Trend {
+  kind: 'concept' | 'edge';
+  id: string; // Concept ID, or "source|target" for edges
+  label: string;
+  score: number; // Burst weight (kleinberg) or z-score (zscore)
+  firstYear?: number;
+  burst?: { start: number; end: number }; // Kleinberg burst interval
+  yearCounts: YearCounts; // Supporting papers per year, zero-filled
+}
+
+/**
+ * Emerging-concept and burst detection over the graph's year histories
+ *
+ * Each concept's (or edge's) papers per year are compared with the number of
+ * papers in the corpus that year. Kleinberg's two-state automaton (Kleinberg,
+ * 2002) finds intervals where the share jumps to `burstRate` times its base
+ * rate; the z-score method tests whether the share in the last `window`
+ * years exceeds the earlier share (two-proportion z-test).
+ */
+export class TrendAnalyzer {
+  private graph: Graph;
+  private corpusYearCounts: YearCounts;
+  private years: number[];
+
+  /**
+   * `corpusYearCounts` holds papers per year in the whole corpus; without it,
+   * concept mentions per year are used as the yearly volume
+   */
+  constructor(graph: Graph, corpusYearCounts?: YearCounts) {
+    this.graph = graph;
+
+    let volume = corpusYearCounts;
+    if (!volume || totalCount(volume) === 0) {
+      volume = {};
+      graph.forEachNode((_nodeId, attrs) => {
+        volume = mergeYearCounts(volume, (attrs as ConceptNode).yearCounts);
+      });
+    }
+    this.corpusYearCounts = volume;
+
+    const known = Object.keys(volume).map(Number);
+    const first = known.length > 0 ? Math.min(...known) : 0;
+    const last = known.length > 0 ? Math.max(...known) : -1;
+    this.years = Array.from({ length: last - first + 1 }, (_, i) => first + i);
+  }
+
+  /**
+   * Concepts whose share of papers is bursting or growing
+   */
+  burstingConcepts(options: Partial<TrendOptions> = {}): Trend[] {
+    const opts = { ...DEFAULT_TREND_OPTIONS, ...options };
+    const trends: Trend[] = [];
+
+    this.graph.forEachNode((nodeId, attrs) => {
+      const node = attrs as ConceptNode;
+      const trend = this.detect('concept', nodeId, node.label, node.yearCounts, opts);
+      if (trend) trends.push(trend);
+    });
+
+    return this.rank(trends, opts.limit);
+  }
+
+  /**
+   * Connections that first appeared within the recent window and are
+   * gaining support
+   */
+  emergingEdges(options: Partial<TrendOptions> = {}): Trend[] {
+    const opts = { ...DEFAULT_TREND_OPTIONS, ...options };
+    const latest = this.years[this.years.length - 1];
+    const trends: Trend[] = [];
+    if (latest === undefined) return trends;
+
+    this.graph.forEachEdge((_edgeId, attrs, source, target) => {
+      const edge = attrs as ConceptEdge;
+      const first = firstYear(edge.yearCounts);
+      if (first === undefined || first <= latest - opts.window) return;
+
+      const label = `${this.labelOf(source)} → ${this.labelOf(target)}`;
+      const trend = this.detect('edge', `${source}|${target}`, label, edge.yearCounts, opts);
+      if (trend) trends.push(trend);
+    });
+
+    return this.rank(trends, opts.limit);
+  }
+
+  /**
+   * Score one year history, or undefined when it is not trending
+   */
+  private detect(
+    kind: Trend['kind'],
+    id: string,
+    label: string,
+    counts: YearCounts | undefined,
+    options: TrendOptions
+  ): Trend | undefined {
+    if (!counts || totalCount(counts) < options.minCount || this.years.length < 2) {
+      return undefined;
+    }
+
+    const relevant = this.years.map(year => counts[year] || 0);
+    const totals = this.years.map((year, i) =>
+      // A paper is always part of its year's corpus
+      Math.max(this.corpusYearCounts[year] || 0, relevant[i])
+    );
+    const yearCounts = Object.fromEntries(this.years.map((year, i) => [year, relevant[i]]));
+
+    if (options.method === 'zscore') {
+      const score = growthZScore(relevant, totals, options.window);
+      if (score <= 0) return undefined;
+      return { kind, id, label, score, firstYear: firstYear(counts), yearCounts };
+    }
+
+    const burst = kleinbergBursts(relevant, totals, options.burstRate, options.transitionCost)
+      .sort((a, b) => b.weight - a.weight)[0];
+    if (!burst) return undefined;
+
+    return {
+      kind,
+      id,
+      label,
+      score: burst.weight,
+      firstYear: firstYear(counts),
+      burst: { start: this.years[burst.start], end: this.years[burst.end] },
+      yearCounts,
+    };
+  }
+
+  /**
+   * Helper: highest scores first
+   */
+  private rank(trends: Trend[], limit: number): Trend[] {
+    return trends.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id)).slice(0, limit);
+  }
+
+  /**
+   * Helper: node label, falling back to its ID
+   */
+  private labelOf(nodeId: string): string {
+    return (this.graph.getNodeAttributes(nodeId) as ConceptNode).label || nodeId;
+  }
+}
+
+/**
+ * Burst interval found by the two-state automaton (indices inclusive)
+ */
+export interface Burst {
+  start: number;
+  end: number;
+  weight: number; // Cost saved by explaining the interval as a burst
+}
+
+/**
+ * Kleinberg's batched two-state burst detection
+ * `relevant[t]` of `totals[t]` documents mention the term in batch t
+ */
+export function kleinbergBursts(
+  relevant: number[],
+  totals: number[],
+  burstRate = 2,
+  transitionCost = 1
+): Burst[] {
+  const n = relevant.length;
+  const sumRelevant = relevant.reduce((a, b) => a + b, 0);
+  const sumTotal = totals.reduce((a, b) => a + b, 0);
+  if (n === 0 || sumRelevant === 0 || sumTotal === 0) return [];
+
+  const p0 = sumRelevant / sumTotal;
+  // A term in every document cannot become more frequent
+  if (p0 >= 1) return [];
+  const p1 = Math.min(p0 * burstRate, 0.9999);
+  // Binomial coefficients are shared by both states and cancel out
+  const cost = (p: number, t: number) =>
+    -(relevant[t] * Math.log(p) + (totals[t] - relevant[t]) * Math.log(1 - p));
+  const enterBurst = transitionCost * Math.log(n);
+
+  // Viterbi over states {0: base, 1: burst}; leaving a burst is free
+  let base = cost(p0, 0);
+  let bursty = enterBurst + cost(p1, 0);
+  const fromBase: boolean[][] = [[true, true]];
+
+  for (let t = 1; t < n; t++) {
+    const baseFromBase = base <= bursty;
+    const burstyFromBase = base + enterBurst < bursty;
+    const nextBase = Math.min(base, bursty) + cost(p0, t);
+    const nextBursty = Math.min(base + enterBurst, bursty) + cost(p1, t);
+    fromBase.push([baseFromBase, burstyFromBase]);
+    base = nextBase;
+    bursty = nextBursty;
+  }
+
+  // Backtrack the cheapest state sequence
+  const states = new Array<number>(n);
+  states[n - 1] = base <= bursty ? 0 : 1;
+  for (let t = n - 1; t > 0; t--) {
+    states[t - 1] = fromBase[t][states[t]] ? 0 : 1;
+  }
+
+  const bursts: Burst[] = [];
+  for (let t = 0; t < n; t++) {
+    if (states[t] !== 1) continue;
+
+    const start = t;
+    let weight = 0;
+    while (t < n && states[t] === 1) {
+      weight += cost(p0, t) - cost(p1, t);
+      t++;
+    }
+    bursts.push({ start, end: t - 1, weight });
+  }
+
+  return bursts;
+}
+
+/**
+ * Two-proportion z-score of the share in the last `window` batches against
+ * the earlier batches
+ */
+export function growthZScore(relevant: number[], totals: number[], window: number): number {
+  const split = Math.max(relevant.length - window, 1);
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+  const earlyHits = sum(relevant.slice(0, split));
+  const earlyTotal = sum(totals.slice(0, split));
+  const recentHits = sum(relevant.slice(split));
+  const recentTotal = sum(totals.slice(split));
+  if (earlyTotal === 0 || recentTotal === 0) return 0;
+
+  const pooled = (earlyHits + recentHits) / (earlyTotal + recentTotal);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / earlyTotal + 1 / recentTotal));
+  if (standardError === 0) return 0;
+
+  return (recentHits / recentTotal - earlyHits / earlyTotal) / standardError;
+}
+
+/**
+ * Text sparkline of a year histogram, e.g. "▁▁▂▅█"
+ */
+export function sparkline(counts: YearCounts): string {
+  const bars = '▁▂▃▄▅▆▇█';
+  const values = Object.keys(counts)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(year => counts[year]);
+  const max = values.reduce((a, b) => Math.max(a, b), 0);
+
+  return values
+    .map(v => (max === 0 ? bars[0] : bars[Math.round((v / max) * (bars.length - 1))]))
+    .join('');
+}
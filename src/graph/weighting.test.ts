@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { chiSquarePValue, edgeWeight } from './weighting.js';
+
+describe('edgeWeight', () => {
+  const counts = { both: 10, source: 20, target: 10, total: 100 };
+
+  it('should compute the overlap coefficient', () => {
+    expect(edgeWeight(counts, 'overlap')).toBe(1);
+  });
+
+  it('should compute PMI and NPMI', () => {
+    // P(a,b) = 0.1, P(a) = 0.2, P(b) = 0.1
+    expect(edgeWeight(counts, 'pmi')).toBeCloseTo(Math.log2(5));
+    expect(edgeWeight(counts, 'npmi')).toBeCloseTo(Math.log2(5) / Math.log2(10));
+  });
+
+  it('should give independent concepts zero PMI', () => {
+    expect(edgeWeight({ both: 25, source: 50, target: 50, total: 100 }, 'pmi')).toBe(0);
+  });
+
+  it('should downweight generic concepts that appear everywhere', () => {
+    const generic = { both: 10, source: 90, target: 10, total: 100 };
+    const specific = { both: 10, source: 12, target: 10, total: 100 };
+
+    expect(edgeWeight(generic, 'overlap')).toBe(edgeWeight(specific, 'overlap'));
+    expect(edgeWeight(generic, 'npmi')!).toBeLessThan(edgeWeight(specific, 'npmi')!);
+  });
+
+  it('should drop pairs that fail the chi-square test', () => {
+    expect(edgeWeight(counts, 'chi_square')).toBeCloseTo(2 / 3);
+    expect(edgeWeight({ both: 2, source: 10, target: 10, total: 100 }, 'chi_square')).toBeUndefined();
+    // Negative association
+    expect(edgeWeight({ both: 1, source: 50, target: 50, total: 100 }, 'chi_square')).toBeUndefined();
+  });
+});
+
+describe('chiSquarePValue', () => {
+  it('should match critical values for one degree of freedom', () => {
+    expect(chiSquarePValue(3.841)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(6.635)).toBeCloseTo(0.01, 3);
+  });
+});
@@ -0,0 +1,75 @@
+import type { EdgeWeighting } from '../types/index.js';
+
+export const EDGE_WEIGHTINGS: EdgeWeighting[] = ['overlap', 'pmi', 'npmi', 'chi_square'];
+
+/**
+ * Paper counts for a concept pair
+ */
+export interface CooccurrenceCounts {
+  both: number; // Papers mentioning both concepts
+  source: number; // Papers mentioning the source concept
+  target: number; // Papers mentioning the target concept
+  total: number; // Papers in the corpus
+}
+
+/**
+ * Association strength of a concept pair under a weighting scheme
+ * Returns undefined when the pair is not significantly (and positively)
+ * associated under chi_square weighting
+ */
+export function edgeWeight(
+  counts: CooccurrenceCounts,
+  scheme: EdgeWeighting,
+  significanceLevel = 0.05
+): number | undefined {
+  const { both, source, target } = counts;
+  // Every co-occurring paper is part of the corpus
+  const total = Math.max(counts.total, source + target - both);
+
+  switch (scheme) {
+    case 'overlap':
+      return both / Math.min(source, target);
+
+    case 'pmi':
+      return Math.log2((both * total) / (source * target));
+
+    case 'npmi': {
+      const jointSurprise = -Math.log2(both / total);
+      // Concepts present in every paper are perfectly associated
+      return jointSurprise === 0 ? 1 : Math.log2((both * total) / (source * target)) / jointSurprise;
+    }
+
+    case 'chi_square': {
+      // 2x2 contingency table of paper counts
+      const a = both;
+      const b = source - both;
+      const c = target - both;
+      const d = total - source - target + both;
+      const denominator = (a + b) * (c + d) * (a + c) * (b + d);
+      if (denominator === 0 || a * d - b * c <= 0) return undefined;
+
+      const chiSquare = (total * (a * d - b * c) ** 2) / denominator;
+      if (chiSquarePValue(chiSquare) > significanceLevel) return undefined;
+
+      // Phi coefficient: effect size on a 0-1 scale
+      return Math.sqrt(chiSquare / total);
+    }
+  }
+}
+
+/**
+ * Upper-tail p-value of a chi-square statistic with one degree of freedom
+ */
+export function chiSquarePValue(chiSquare: number): number {
+  return erfc(Math.sqrt(chiSquare / 2));
+}
+
+/**
+ * Helper: complementary error function (Abramowitz & Stegun 7.1.26)
+ */
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return poly * Math.exp(-x * x);
+}
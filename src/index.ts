@@ -1,15 +1,65 @@
 #!/usr/bin/env node
 import 'dotenv/config';
-import { GraphBuilder } from './graph/builder.js';
+import { GraphBuilder, type BuildProgressCallback, type LabeledDataset } from './graph/builder.js';
+import type { ConceptExtractor } from './graph/extractors.js';
 import { GraphReasoner } from './graph/reasoner.js';
+import { loadSnapshot, saveSnapshot } from './graph/snapshot.js';
+import { TrendAnalyzer, sparkline, type Trend, type TrendOptions } from './graph/trends.js';
+import type { BridgingVenue, EntityLayer, Researcher } from './graph/entities.js';
+import type { EmbeddingProvider } from './graph/embeddings.js';
+import type { PredictedLink } from './graph/links.js';
+import type { DiscoveryResult } from './graph/discovery.js';
+import { communityLinks, type CommunityLevel } from './graph/communities.js';
+import {
+  diagnoseGraph,
+  formatDiagnosticsMarkdown,
+  type DiagnosticsOptions,
+  type GraphDiagnostics,
+} from './graph/diagnostics.js';
 import { AgentFactory } from './agents/base.js';
 import { AgentOrchestrator } from './agents/orchestrator.js';
 import { DataRetrieval } from './data/retrieval.js';
 import { loadConfig } from './config/default.js';
-import type { Hypothesis } from './types/index.js';
+import { randomSeed } from './graph/random.js';
+import type {
+  ConceptNode,
+  DiscoveryRanking,
+  GraphPath,
+  Hypothesis,
+  LinkPredictionMethod,
+  Paper,
+  PathConstraints,
+  SystemConfig,
+} from './types/index.js';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 
+/**
+ * Options for constructing the application
+ */
+export interface SciHypothesisAgentOptions {
+  conceptExtractor?: ConceptExtractor;
+  onBuildProgress?: BuildProgressCallback;
+  graphConfig?: Partial<SystemConfig['graphConfig']>;
+  embeddingProvider?: EmbeddingProvider; // Fills concept embeddings for similarity search
+}
+
+/**
+ * Options for single-hypothesis generation
+ */
+export interface HypothesisOptions {
+  // Target the top predicted absent link from the matched concept instead
+  // of a sampled walk
+  linkPrediction?: LinkPredictionMethod;
+  // Target a Swanson A-B-C chain from the matched concept: closed discovery
+  // towards concepts matching `target`, open discovery without it
+  discovery?: { target?: string[]; ranking?: DiscoveryRanking };
+  // Only sample paths that cross source datasets (graphs built from
+  // labeled datasets)
+  crossSource?: boolean;
+  seed?: number; // Path sampling seed; pass a recorded seed to reproduce a run
+}
+
 /**
  * Main application class for scientific hypothesis generation
  */
@@ -20,9 +70,19 @@ export class SciHypothesisAgent {
   private orchestrator?: AgentOrchestrator;
   private dataRetrieval: DataRetrieval;
   private config = loadConfig();
-
-  constructor() {
-    this.graphBuilder = new GraphBuilder();
+  private onBuildProgress?: BuildProgressCallback;
+  private embeddingProvider?: EmbeddingProvider;
+
+  constructor(options: SciHypothesisAgentOptions = {}) {
+    this.config.graphConfig = {
+      ...this.config.graphConfig,
+      ...options.graphConfig,
+      // Weights given override the defaults one factor at a time
+      noveltyWeights: { ...this.config.graphConfig.noveltyWeights, ...options.graphConfig?.noveltyWeights },
+    };
+    this.graphBuilder = new GraphBuilder(options.conceptExtractor, this.config.graphConfig);
+    this.onBuildProgress = options.onBuildProgress;
+    this.embeddingProvider = options.embeddingProvider;
     this.agentFactory = new AgentFactory(process.env.ANTHROPIC_API_KEY);
     this.dataRetrieval = new DataRetrieval(this.config.dataSources);
   }
@@ -30,22 +90,101 @@ export class SciHypothesisAgent {
   /**
    * Initialize the system with dataset
    */
-  async initialize(csvPath: string): Promise<void> {
+  async initialize(datasets: string | LabeledDataset[]): Promise<void> {
     console.log('🔬 Initializing Scientific Hypothesis Agent...\n');
 
     // Build knowledge graph
-    await this.graphBuilder.buildGraph(csvPath);
+    await this.graphBuilder.buildGraph(datasets, this.onBuildProgress);
+    if (this.embeddingProvider) {
+      await this.graphBuilder.embedConcepts(this.embeddingProvider);
+    }
 
     // Initialize graph reasoner
-    this.graphReasoner = new GraphReasoner(this.graphBuilder.getGraph());
+    this.graphReasoner = new GraphReasoner(this.graphBuilder.getGraph(), this.config.graphConfig);
     this.graphReasoner.analyzeGraph();
 
-    // Initialize agents
+    this.initializeAgents();
+  }
+
+  /**
+   * Initialize the system from a graph snapshot written by `saveSnapshot`
+   * Skips corpus parsing, concept extraction and (when saved) graph analysis
+   */
+  async initializeFromSnapshot(snapshotPath: string): Promise<void> {
+    console.log('🔬 Initializing Scientific Hypothesis Agent from snapshot...\n');
+
+    const { graph, knowledgeGraph, analysis, entities } = await loadSnapshot(snapshotPath);
+    this.graphBuilder.restoreGraph(graph, knowledgeGraph, entities);
+    // Snapshots saved with embeddings keep them
+    if (this.embeddingProvider && Array.from(knowledgeGraph.nodes.values()).some(c => !c.embedding)) {
+      await this.graphBuilder.embedConcepts(this.embeddingProvider);
+    }
+
+    this.graphReasoner = new GraphReasoner(graph, this.config.graphConfig);
+    if (analysis) {
+      this.graphReasoner.restoreAnalysis(analysis);
+    } else {
+      this.graphReasoner.analyzeGraph();
+    }
+
+    this.initializeAgents();
+  }
+
+  /**
+   * Add new papers to the existing graph without rebuilding it
+   * Communities and centrality are recomputed lazily on next use
+   */
+  addPapers(papers: Paper[]): void {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+
+    this.graphBuilder.addPapers(papers);
+    this.graphReasoner.markStale();
+  }
+
+  /**
+   * Add the papers from a corpus file to the existing graph, under a source
+   * label when given
+   * Concepts are re-embedded when an embedding provider is configured
+   */
+  async addPapersFromFile(datasetPath: string, label?: string): Promise<void> {
+    const papers = label
+      ? await this.graphBuilder.loadLabeledPapers([{ label, path: datasetPath }])
+      : await this.graphBuilder.loadPapers(datasetPath);
+    this.addPapers(papers);
+    if (this.embeddingProvider) {
+      await this.graphBuilder.embedConcepts(this.embeddingProvider);
+    }
+  }
+
+  /**
+   * Save the current graph and its analysis as a snapshot
+   */
+  async saveSnapshot(snapshotPath: string): Promise<void> {
+    const knowledgeGraph = this.graphBuilder.getKnowledgeGraph();
+    if (!this.graphReasoner || !knowledgeGraph) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+
+    await this.graphReasoner.centralityReady();
+    await saveSnapshot(
+      snapshotPath,
+      this.graphBuilder.getGraph(),
+      knowledgeGraph.metadata,
+      this.graphReasoner.exportAnalysis(),
+      this.graphBuilder.getEntityLayer()
+    );
+  }
+
+  /**
+   * Create agents and the orchestrator
+   */
+  private initializeAgents(): void {
     const agents = this.agentFactory.createAgents(
       Object.values(this.config.agents)
     );
 
-    // Initialize orchestrator
     this.orchestrator = new AgentOrchestrator(agents);
 
     console.log('\n✅ System initialized successfully!\n');
@@ -54,12 +193,14 @@ export class SciHypothesisAgent {
   /**
    * Generate hypothesis using sequential workflow
    */
-  async generateHypothesis(keywords: string[]): Promise<Hypothesis> {
+  async generateHypothesis(keywords: string[], options: HypothesisOptions = {}): Promise<Hypothesis> {
     if (!this.graphReasoner || !this.orchestrator) {
       throw new Error('System not initialized. Call initialize() first.');
     }
 
     console.log(`\n🎯 Generating hypothesis for: ${keywords.join(', ')}\n`);
+    // Bridge scores feed path novelty
+    await this.graphReasoner.centralityReady();
 
     // Find concepts matching keywords
     const concepts = this.graphReasoner.searchConcepts(keywords);
@@ -68,23 +209,69 @@ export class SciHypothesisAgent {
     }
 
     console.log(`Found ${concepts.length} matching concepts`);
-    console.log(`Starting from: ${concepts[0]!.label}\n`);
-
-    // Find interesting paths from the concept
-    const paths = this.graphReasoner.findPaths(concepts[0]!.id, undefined, {
-      pathLength: 4,
-      maxResults: 5,
-    });
+    if (options.linkPrediction || options.discovery) {
+      console.log(`Starting from: ${concepts[0]!.label}\n`);
+    }
 
-    if (paths.length === 0) {
-      throw new Error('No paths found for hypothesis generation');
+    if (options.linkPrediction && options.discovery) {
+      throw new Error('Use either linkPrediction or discovery, not both');
     }
 
-    console.log(`Sampled ${paths.length} paths through knowledge graph`);
-    const selectedPath = paths[0];
+    let selectedPath: GraphPath;
+    if (options.discovery) {
+      // Link two concepts that have never been studied together
+      const mode = options.discovery.target ? 'closed' : 'open';
+      const { results: [result] } = this.runDiscovery(keywords, { ...options.discovery, limit: 1 });
+      if (!result) {
+        throw new Error(`No ${mode} ABC discoveries found from ${concepts[0]!.label}`);
+      }
+
+      selectedPath = this.graphReasoner.discoveryPath(result, mode);
+      console.log(
+        `Targeting ${mode} discovery via ${selectedPath.nodes[1].label} (${result.linkingTermCount} linking concepts)`
+      );
+    } else if (options.linkPrediction) {
+      // Target a connection the literature has not made yet
+      const [link] = this.graphReasoner.predictLinks({
+        method: options.linkPrediction,
+        sources: [concepts[0]!.id],
+        limit: 1,
+      });
+      if (!link) {
+        throw new Error(`No predicted links found from ${concepts[0]!.label}`);
+      }
+
+      selectedPath = this.graphReasoner.predictedLinkPath(link);
+      console.log(`Targeting predicted link (${link.method}, score: ${link.score.toFixed(3)})`);
+    } else {
+      // Find interesting paths from every matched concept
+      const seed = options.seed ?? randomSeed();
+      console.log(`Sampling seed: ${seed}`);
+      const paths = this.graphReasoner.findPathsFromSeeds(this.startWeights(keywords), {
+        maxResults: 5,
+        crossSource: options.crossSource,
+        seed,
+      });
+
+      if (paths.length === 0) {
+        throw new Error(
+          options.crossSource
+            ? 'No cross-source paths found for hypothesis generation'
+            : 'No paths found for hypothesis generation'
+        );
+      }
+
+      console.log(`Sampled ${paths.length} paths through knowledge graph`);
+      selectedPath = paths[0];
+    }
     console.log(`Selected path with novelty score: ${selectedPath.novelty.toFixed(3)}\n`);
     console.log(this.graphReasoner.summarizePath(selectedPath));
 
+    const researchers = this.graphBuilder.getEntityLayer()?.researchersForPath(selectedPath, 5) || [];
+    if (researchers.length > 0) {
+      console.log(`Already publishing on both ends: ${researchers.map(r => r.author.label).join(', ')}\n`);
+    }
+
     // Generate hypothesis using sequential workflow
     const hypothesis = await this.orchestrator.runSequentialWorkflow(selectedPath);
 
@@ -105,16 +292,21 @@ export class SciHypothesisAgent {
 
   /**
    * Generate multiple hypotheses using flexible workflow
+   * All paths are sampled with one seed (random when omitted). With `target`,
+   * the workflow instead gets the shortest alternative paths from the top
+   * keyword match to the top target match.
    */
   async generateMultipleHypotheses(
     keywords: string[],
-    count: number = 3
+    count: number = 3,
+    options: { seed?: number; target?: string[] } = {}
   ): Promise<Hypothesis[]> {
     if (!this.graphReasoner || !this.orchestrator) {
       throw new Error('System not initialized. Call initialize() first.');
     }
 
     console.log(`\n🎯 Generating ${count} hypotheses for: ${keywords.join(', ')}\n`);
+    await this.graphReasoner.centralityReady();
 
     // Find concepts
     const concepts = this.graphReasoner.searchConcepts(keywords);
@@ -122,17 +314,24 @@ export class SciHypothesisAgent {
       throw new Error('No concepts found matching the keywords');
     }
 
-    // Sample multiple diverse paths
-    const allPaths = concepts
-      .slice(0, Math.min(3, concepts.length))
-      .flatMap(concept =>
-        this.graphReasoner!.findPaths(concept.id, undefined, {
-          pathLength: 4,
-          maxResults: count * 2,
-        })
-      );
+    let allPaths: GraphPath[];
+    if (options.target) {
+      // Alternative mechanisms linking the two concepts
+      allPaths = this.findConnectingPaths(keywords, options.target, { limit: count * 2 });
+      if (allPaths.length === 0) {
+        throw new Error('No paths found between the keyword and target concepts');
+      }
+    } else {
+      // Sample multiple diverse paths from every matched concept
+      const seed = options.seed ?? randomSeed();
+      console.log(`Sampling seed: ${seed}`);
+      allPaths = this.graphReasoner.findPathsFromSeeds(this.startWeights(keywords), {
+        maxResults: count * 2 * Math.min(3, concepts.length),
+        seed,
+      });
 
-    console.log(`Sampled ${allPaths.length} diverse paths\n`);
+      console.log(`Sampled ${allPaths.length} diverse paths\n`);
+    }
 
     // Generate hypotheses using flexible workflow
     const hypotheses = await this.orchestrator.runFlexibleWorkflow(
@@ -153,6 +352,52 @@ export class SciHypothesisAgent {
     return hypotheses.slice(0, count);
   }
 
+  /**
+   * Helper: walk start weights for a keyword query, the personalized
+   * PageRank score of each matched concept
+   */
+  private startWeights(keywords: string[]): Map<string, number> {
+    const reasoner = this.graphReasoner!;
+    const seeds = reasoner.keywordSeeds(keywords);
+    const scores = reasoner.personalizedPageRank(seeds);
+    const starts = new Map(Array.from(seeds.keys(), id => [id, scores.get(id) || 0]));
+
+    const top = Array.from(starts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([id, score]) => `${(reasoner.getGraph().getNodeAttributes(id) as ConceptNode).label} (${score.toFixed(3)})`);
+    console.log(`Starting from ${starts.size} concepts, weighted by personalized PageRank: ${top.join(', ')}\n`);
+
+    return starts;
+  }
+
+  /**
+   * Concepts most relevant to all keywords together, by personalized
+   * PageRank from every matching concept
+   */
+  findRelatedConcepts(
+    keywords: string[],
+    limit: number = 20,
+    options: { restart?: number } = {}
+  ): { concept: ConceptNode; score: number; seed: boolean }[] {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+    const related = this.graphReasoner.relatedConcepts(keywords, limit, {
+      ...(options.restart !== undefined && { restart: options.restart }),
+    });
+    if (related.length === 0) {
+      throw new Error('No concepts found matching the keywords');
+    }
+
+    console.log(`\n🕸️  Concepts related to: ${keywords.join(', ')}\n`);
+    related.forEach(({ concept, score, seed }, i) => {
+      console.log(`${i + 1}. ${concept.label} (${concept.type}, score: ${score.toFixed(4)}${seed ? ', keyword match' : ''})`);
+    });
+
+    return related;
+  }
+
   /**
    * Explore concept relationships
    */
@@ -169,32 +414,429 @@ export class SciHypothesisAgent {
     concepts.slice(0, 10).forEach((concept, i) => {
       const community = this.graphReasoner!.getCommunity(concept.id);
       console.log(
-        `${i + 1}. ${concept.label} (${concept.type}, frequency: ${concept.frequency}, community: ${community})`
+        `${i + 1}. ${concept.label} (${concept.type}, frequency: ${concept.frequency}, community: ${community} ${this.graphReasoner!.getCommunityLabel(community) ?? ''})`
       );
     });
   }
 
+  /**
+   * Shortest alternative paths from the top keyword match to the top target
+   * match, ranked by novelty
+   * `excludeConcepts` holds keywords here: every matching concept is avoided.
+   */
+  findConnectingPaths(
+    keywords: string[],
+    target: string[],
+    options: PathConstraints & { limit?: number } = {}
+  ): GraphPath[] {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+    const reasoner = this.graphReasoner;
+
+    const [source] = reasoner.searchConcepts(keywords);
+    if (!source) {
+      throw new Error('No concepts found matching the keywords');
+    }
+    const [targetConcept] = reasoner.searchConcepts(target);
+    if (!targetConcept) {
+      throw new Error('No concepts found matching the target keywords');
+    }
+
+    const { limit, excludeConcepts, ...constraints } = options;
+    const excluded = excludeConcepts
+      ? reasoner
+          .searchConcepts(excludeConcepts)
+          .map(c => c.id)
+          .filter(id => id !== source.id && id !== targetConcept.id)
+      : undefined;
+
+    const paths = reasoner.findPaths(source.id, targetConcept.id, {
+      ...constraints,
+      ...(excluded && { excludeConcepts: excluded }),
+      ...(limit && { maxResults: limit }),
+    });
+
+    console.log(`\n🧵 Paths from ${source.label} to ${targetConcept.label}\n`);
+    if (paths.length === 0) {
+      console.log('No paths satisfy the constraints');
+    }
+    paths.forEach((path, i) => {
+      console.log(
+        `${i + 1}. ${path.nodes.map(n => n.label).join(' → ')} (hops: ${path.edges.length}, novelty: ${path.novelty.toFixed(3)})`
+      );
+    });
+
+    return paths;
+  }
+
+  /**
+   * Find concepts semantically similar to the best keyword match, including
+   * synonyms that keyword search misses
+   */
+  findSimilarConcepts(
+    keywords: string[],
+    limit: number = 10
+  ): { concept: ConceptNode; similarity: number }[] {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+
+    const concepts = this.graphReasoner.searchConcepts(keywords);
+    if (concepts.length === 0) {
+      throw new Error('No concepts found matching the keywords');
+    }
+
+    console.log(`\n🧭 Concepts similar to: ${concepts[0]!.label}\n`);
+
+    const similar = this.graphReasoner.findSimilarConcepts(concepts[0]!.id, limit);
+    similar.forEach(({ concept, similarity }, i) => {
+      console.log(`${i + 1}. ${concept.label} (${concept.type}, similarity: ${similarity.toFixed(3)})`);
+    });
+
+    return similar;
+  }
+
+  /**
+   * Rank absent links, optionally only from concepts matching keywords
+   */
+  predictLinks(
+    options: { method?: LinkPredictionMethod; keywords?: string[]; limit?: number } = {}
+  ): PredictedLink[] {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+    const reasoner = this.graphReasoner;
+
+    let sources: string[] | undefined;
+    if (options.keywords && options.keywords.length > 0) {
+      sources = reasoner.searchConcepts(options.keywords).map(c => c.id);
+      if (sources.length === 0) {
+        throw new Error('No concepts found matching the keywords');
+      }
+    }
+
+    const links = reasoner.predictLinks({
+      sources,
+      ...(options.method && { method: options.method }),
+      ...(options.limit && { limit: options.limit }),
+    });
+    const label = (id: string) => (reasoner.getGraph().getNodeAttributes(id) as ConceptNode).label;
+
+    console.log(`\n🔮 Predicted links (${links[0]?.method ?? options.method ?? 'adamic_adar'})...\n`);
+    links.forEach((link, i) => {
+      console.log(`${i + 1}. ${label(link.source)} — ${label(link.target)} (score: ${link.score.toFixed(3)})`);
+      if (link.via.length > 0) {
+        console.log(`   via: ${link.via.slice(0, 5).map(label).join(', ')}`);
+      }
+    });
+
+    return links;
+  }
+
+  /**
+   * Swanson ABC discovery from the top concept matching keywords
+   * Closed discovery (with `target`) lists the B concepts linking A to the
+   * top concept matching the target keywords; open discovery ranks every C
+   * reachable from A only through some B
+   */
+  discover(
+    keywords: string[],
+    options: { target?: string[]; ranking?: DiscoveryRanking; limit?: number } = {}
+  ): DiscoveryResult[] {
+    const { source, target, results } = this.runDiscovery(keywords, options);
+    const label = (id: string) =>
+      (this.graphReasoner!.getGraph().getNodeAttributes(id) as ConceptNode).label;
+
+    if (target) {
+      console.log(`\n🔗 Closed discovery: ${source.label} → ? → ${target.label}\n`);
+      if (results.length === 0) {
+        console.log('No linking concepts (the two concepts already co-occur, or nothing links them)');
+      }
+      results[0]?.linking.forEach((b, i) => {
+        console.log(
+          `${i + 1}. ${label(b.id)} (weight: ${b.weight.toFixed(3)}, papers: ${b.sourceEvidence.length} + ${b.targetEvidence.length})`
+        );
+      });
+    } else {
+      console.log(`\n🔗 Open discovery from ${source.label}...\n`);
+      results.forEach((result, i) => {
+        console.log(
+          `${i + 1}. ${label(result.target)} (linking concepts: ${result.linkingTermCount}, AMW: ${result.averageMinimumWeight.toFixed(3)})`
+        );
+        console.log(`   via: ${result.linking.slice(0, 5).map(b => label(b.id)).join(', ')}`);
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Helper: resolve keywords to A (and C) and run open or closed discovery
+   */
+  private runDiscovery(
+    keywords: string[],
+    options: { target?: string[]; ranking?: DiscoveryRanking; limit?: number }
+  ): { source: ConceptNode; target?: ConceptNode; results: DiscoveryResult[] } {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+    const reasoner = this.graphReasoner;
+
+    const [source] = reasoner.searchConcepts(keywords);
+    if (!source) {
+      throw new Error('No concepts found matching the keywords');
+    }
+    const discoveryOptions = {
+      ...(options.ranking && { ranking: options.ranking }),
+      ...(options.limit && { limit: options.limit }),
+    };
+
+    if (options.target) {
+      const [target] = reasoner.searchConcepts(options.target);
+      if (!target) {
+        throw new Error('No concepts found matching the target keywords');
+      }
+      const result = reasoner.discoverClosed(source.id, target.id, discoveryOptions);
+      return { source, target, results: result ? [result] : [] };
+    }
+
+    return { source, results: reasoner.discoverOpen(source.id, discoveryOptions) };
+  }
+
   /**
    * Find bridge concepts for interdisciplinary research
    */
-  findBridgeConcepts(topN: number = 10): void {
+  async findBridgeConcepts(topN: number = 10): Promise<void> {
     if (!this.graphReasoner) {
       throw new Error('System not initialized. Call initialize() first.');
     }
 
     console.log('\n🌉 Finding bridge concepts (high centrality)...\n');
+    await this.graphReasoner.centralityReady();
 
     const bridges = this.graphReasoner.findBridgeConcepts(topN);
 
     bridges.forEach((concept, i) => {
       const community = this.graphReasoner!.getCommunity(concept.id);
       console.log(
-        `${i + 1}. ${concept.label} (${concept.type}, community: ${community})`
+        `${i + 1}. ${concept.label} (${concept.type}, community: ${community} ${this.graphReasoner!.getCommunityLabel(community) ?? ''})`
       );
       console.log(`   Papers: ${concept.papers.length}, Frequency: ${concept.frequency}\n`);
     });
   }
 
+  /**
+   * List labeled communities at several resolutions, coarsest first, with
+   * the densest links between communities of each level
+   */
+  listCommunities(
+    options: { resolutions?: number[]; limit?: number; links?: number } = {}
+  ): CommunityLevel[] {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+    const graph = this.graphReasoner.getGraph();
+    const limit = options.limit ?? 10;
+
+    const levels = this.graphReasoner.communityHierarchy(
+      options.resolutions ? { resolutions: options.resolutions } : {}
+    );
+    levels.forEach((level, depth) => {
+      const byId = new Map(level.communities.map(c => [c.id, c]));
+      const parents = depth > 0 ? new Map(levels[depth - 1].communities.map(c => [c.id, c])) : undefined;
+
+      console.log(
+        `\n🧩 Resolution ${level.resolution}: ${level.communities.length} communities, modularity ${level.modularity.toFixed(3)}\n`
+      );
+      level.communities.slice(0, limit).forEach(c => {
+        const parent = parents && c.parent !== undefined ? `, within: ${parents.get(c.parent)?.label}` : '';
+        console.log(
+          `${c.id}. ${c.label} (${c.size} concepts, ${c.papers} papers, density: ${c.density.toFixed(3)}${parent})`
+        );
+        console.log(`   ${c.topConcepts.join(', ')}`);
+      });
+
+      const links = communityLinks(graph, level.assignments).slice(0, options.links ?? 5);
+      if (links.length > 0) {
+        console.log('\n   Densest links between communities:');
+        links.forEach(link => {
+          console.log(
+            `   ${byId.get(link.source)?.label} ↔ ${byId.get(link.target)?.label} (${link.edges} edges, density: ${link.density.toFixed(3)})`
+          );
+        });
+      }
+    });
+
+    return levels;
+  }
+
+  /**
+   * Authors with papers on both ends of a path, i.e. potential collaborators
+   * for a hypothesis built on it
+   */
+  findResearchersForPath(path: GraphPath, limit: number = 10): Researcher[] {
+    return this.requireEntityLayer().researchersForPath(path, limit);
+  }
+
+  /**
+   * Find researchers already working on both ends of paths sampled from
+   * concepts matching the keywords
+   */
+  findCollaborators(keywords: string[], limit: number = 10): Researcher[][] {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+    const entities = this.requireEntityLayer();
+
+    console.log(`\n🤝 Finding researchers for paths from: ${keywords.join(', ')}\n`);
+
+    const concepts = this.graphReasoner.searchConcepts(keywords);
+    if (concepts.length === 0) {
+      throw new Error('No concepts found matching the keywords');
+    }
+
+    const paths = this.graphReasoner.findPaths(concepts[0]!.id, undefined, { maxResults: 3 });
+
+    return paths.map((path, i) => {
+      const researchers = entities.researchersForPath(path, limit);
+      console.log(`${i + 1}. ${path.nodes.map(n => n.label).join(' → ')}`);
+      if (researchers.length === 0) {
+        console.log('   No author has published on both ends yet\n');
+      }
+      researchers.forEach(r => {
+        console.log(`   - ${r.author.label} (${r.concepts.length}/${path.nodes.length} concepts, ${r.papers} papers)`);
+      });
+      console.log('');
+      return researchers;
+    });
+  }
+
+  /**
+   * Find venues whose papers span the most concept communities
+   */
+  findBridgingVenues(topN: number = 10): BridgingVenue[] {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+    const entities = this.requireEntityLayer();
+
+    console.log('\n🏛️  Finding venues that bridge communities...\n');
+
+    const venues = entities.bridgingVenues(this.graphReasoner.getCommunityAssignments() || {}, topN);
+    venues.forEach((v, i) => {
+      console.log(`${i + 1}. ${v.venue.label} (${v.communities} communities, ${v.papers} papers)`);
+    });
+
+    return venues;
+  }
+
+  /**
+   * Helper: the author/venue/paper layer, which is only built on request
+   */
+  private requireEntityLayer(): EntityLayer {
+    const entities = this.graphBuilder.getEntityLayer();
+    if (!entities) {
+      throw new Error(
+        'No author/venue layer in this graph. Build it with graphConfig.entityLayer enabled (--entities).'
+      );
+    }
+    return entities;
+  }
+
+  /**
+   * Diagnose graph health: degree distribution, components, generic concepts
+   * and community structure
+   * Check a corpus with this before spending LLM calls on it
+   */
+  diagnoseGraph(options: Partial<DiagnosticsOptions> = {}): GraphDiagnostics {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+
+    const paperCount = this.graphBuilder.getKnowledgeGraph()?.metadata.paperCount;
+    const report = diagnoseGraph(this.graphReasoner.getGraph(), {
+      communities: this.graphReasoner.getCommunityAssignments(),
+      ...(paperCount && { paperCount }),
+      ...options,
+    });
+
+    console.log('\n🩺 Graph diagnostics...\n');
+    console.log(`Concepts: ${report.concepts}, Edges: ${report.edges}, Papers: ${report.papers}`);
+    console.log(
+      `Degree: median ${report.degree.median}, mean ${report.degree.mean.toFixed(2)}, max ${report.degree.max}`
+    );
+    console.log(
+      `Components: ${report.components.count} (largest: ${(report.components.largestShare * 100).toFixed(1)}%), isolated concepts: ${report.isolated.count}`
+    );
+    if (report.communities) {
+      console.log(
+        `Communities: ${report.communities.count}, modularity: ${report.communities.modularity.toFixed(3)}`
+      );
+    }
+    report.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+
+    return report;
+  }
+
+  /**
+   * Write a diagnostics report as JSON and Markdown
+   */
+  async exportGraphReport(report: GraphDiagnostics, outputDir: string = './output'): Promise<string> {
+    await mkdir(outputDir, { recursive: true });
+
+    const filepath = join(outputDir, 'graph-report.json');
+    await writeFile(filepath, JSON.stringify(report, null, 2));
+
+    const mdFilepath = join(outputDir, 'graph-report.md');
+    await writeFile(mdFilepath, formatDiagnosticsMarkdown(report));
+
+    console.log(`\n📄 Graph report exported to:`);
+    console.log(`   JSON: ${filepath}`);
+    console.log(`   Markdown: ${mdFilepath}`);
+
+    return filepath;
+  }
+
+  /**
+   * Find bursting concepts and newly forming connections
+   * Emerging concepts make good keywords for `generateHypothesis`
+   */
+  findTrends(options: Partial<TrendOptions> = {}): { concepts: Trend[]; edges: Trend[] } {
+    if (!this.graphReasoner) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+
+    const analyzer = new TrendAnalyzer(
+      this.graphReasoner.getGraph(),
+      this.graphBuilder.getKnowledgeGraph()?.metadata.yearCounts
+    );
+    const concepts = analyzer.burstingConcepts(options);
+    const edges = analyzer.emergingEdges(options);
+    const describe = (trend: Trend) => {
+      const years = Object.keys(trend.yearCounts);
+      const burst = trend.burst ? `, burst ${trend.burst.start}-${trend.burst.end}` : '';
+      return (
+        `   ${sparkline(trend.yearCounts)} ${years[0]}-${years[years.length - 1]}` +
+        ` (score: ${trend.score.toFixed(2)}${burst}, first seen: ${trend.firstYear})`
+      );
+    };
+
+    console.log('\n📈 Emerging concepts...\n');
+    concepts.forEach((trend, i) => {
+      console.log(`${i + 1}. ${trend.label}`);
+      console.log(describe(trend));
+    });
+
+    console.log('\n🔗 Newly forming connections...\n');
+    edges.forEach((trend, i) => {
+      console.log(`${i + 1}. ${trend.label}`);
+      console.log(describe(trend));
+    });
+
+    return { concepts, edges };
+  }
+
   /**
    * Export hypothesis to file
    */
@@ -252,7 +894,18 @@ export class SciHypothesisAgent {
 
     md += `## Knowledge Graph Path\n\n`;
     md += `**Path Length:** ${hypothesis.graphPath.length}\n`;
-    md += `**Novelty Score:** ${hypothesis.graphPath.novelty.toFixed(3)}\n\n`;
+    md += `**Novelty Score:** ${hypothesis.graphPath.novelty.toFixed(3)}\n`;
+    if (hypothesis.graphPath.seed !== undefined) {
+      md += `**Sampling Seed:** ${hypothesis.graphPath.seed}\n`;
+    }
+    md += '\n';
+    if (hypothesis.graphPath.noveltyFactors && hypothesis.graphPath.noveltyFactors.length > 0) {
+      md += '| Novelty Factor | Score | Weight |\n|---|---|---|\n';
+      hypothesis.graphPath.noveltyFactors.forEach(factor => {
+        md += `| ${factor.name} | ${factor.score.toFixed(3)} | ${factor.weight} |\n`;
+      });
+      md += '\n';
+    }
     md += '**Concepts:**\n';
     hypothesis.graphPath.nodes.forEach((node, i) => {
       md += `${i + 1}. ${node.label} (${node.type})\n`;
@@ -271,7 +924,7 @@ export class SciHypothesisAgent {
     if (hypothesis.relatedPapers.length > 0) {
       md += `## Related Papers\n\n`;
       hypothesis.relatedPapers.forEach(paper => {
-        md += `- **${paper.title}** (${paper.year})\n`;
+        md += `- **${paper.title}** (${paper.year ?? 'year unknown'})\n`;
         if (paper.authors.length > 0) {
           md += `  Authors: ${paper.authors.slice(0, 3).join(', ')}${paper.authors.length > 3 ? ', et al.' : ''}\n`;
         }
@@ -0,0 +1,62 @@
+import Graph from 'graphology';
+import { addConceptEdge, createConceptGraph } from '../graph/edges.js';
+import type { ConceptEdge, ConceptNode, Paper } from '../types/index.js';
+
+/**
+ * Concept labelled after its ID ("gut_microbiome" -> "gut microbiome"),
+ * with no papers unless given
+ */
+export function conceptNode(id: string, overrides: Partial<ConceptNode> = {}): ConceptNode {
+  return {
+    id,
+    label: id.replace(/_/g, ' '),
+    type: 'concept',
+    properties: {},
+    papers: [],
+    frequency: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * Co-occurrence edge of weight 0.5 and no evidence, unless given
+ */
+export function conceptEdge(source: string, target: string, overrides: Partial<ConceptEdge> = {}): ConceptEdge {
+  return {
+    source,
+    target,
+    type: 'relates_to',
+    weight: 0.5,
+    confidence: 1,
+    evidence: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Mixed concept graph (see `createConceptGraph`) of the given concepts,
+ * as nodes or IDs, and edges
+ */
+export function conceptGraph(nodes: (ConceptNode | string)[], edges: ConceptEdge[] = []): Graph {
+  const graph = createConceptGraph();
+  for (const item of nodes) {
+    const node = typeof item === 'string' ? conceptNode(item) : item;
+    graph.addNode(node.id, node);
+  }
+  edges.forEach(edge => addConceptEdge(graph, edge));
+  return graph;
+}
+
+/**
+ * Paper from 2020 with an empty abstract and no authors, unless given
+ */
+export function testPaper(id: string, overrides: Partial<Paper> = {}): Paper {
+  return {
+    id,
+    title: `Paper ${id}`,
+    abstract: '',
+    authors: [],
+    year: 2020,
+    ...overrides,
+  };
+}
@@ -10,12 +10,15 @@ export interface Paper {
   title: string;
   abstract: string;
   authors: string[];
-  year: number;
+  year?: number; // Unknown for some retrieved papers (written as null in JSON Lines)
   journal?: string;
   doi?: string;
   pmid?: string;
   keywords?: string[];
+  meshHeadings?: string[];
   citations?: number;
+  references?: string[]; // IDs of cited papers, when reference lists were ingested
+  source?: string; // Label of the dataset the paper was loaded from
 }
 
 /**
@@ -29,6 +32,8 @@ export interface ConceptNode {
   embedding?: number[];
   papers: string[]; // Paper IDs where this concept appears
   frequency: number;
+  yearCounts?: YearCounts; // Papers mentioning the concept, per publication year
+  sourceCounts?: SourceCounts; // Papers mentioning the concept, per source dataset
 }
 
 /**
@@ -41,8 +46,88 @@ export interface ConceptEdge {
   weight: number;
   confidence: number;
   evidence: string[]; // Paper IDs supporting this relationship
+  evidenceSentences?: string[]; // Sentences stating a typed relationship
+  weighting?: EdgeWeighting; // Scheme that produced `weight`
+  yearCounts?: YearCounts; // Supporting papers per publication year
+  sourceCounts?: SourceCounts; // Supporting papers per source dataset
+  predicted?: {
+    // Absent from the literature; proposed by link prediction
+    method: LinkPredictionMethod;
+    score: number;
+    via: string[]; // Labels of shared neighbour concepts
+  };
+}
+
+/**
+ * Link prediction scoring method
+ * adamic_adar / resource_allocation: shared neighbours, discounted by degree
+ * jaccard: shared / combined neighbours
+ * katz: damped count of short walks
+ * embedding: cosine similarity of concept embeddings
+ */
+export type LinkPredictionMethod =
+  | 'adamic_adar'
+  | 'resource_allocation'
+  | 'jaccard'
+  | 'katz'
+  | 'embedding';
+
+/**
+ * Ranking of C concepts in open ABC discovery
+ * linking_terms: number of intermediate B concepts (LTC)
+ * average_minimum_weight: mean over B of the weaker A-B / B-C weight (AMW)
+ */
+export type DiscoveryRanking = 'linking_terms' | 'average_minimum_weight';
+
+/**
+ * Node of the optional author/venue/paper layer
+ * Concept nodes appear in the layer only as targets of `mentions` edges and
+ * keep their attributes in the concept graph
+ */
+export interface EntityNode {
+  id: string; // Prefixed with the kind, e.g. "author:jane smith"
+  kind: 'paper' | 'author' | 'venue' | 'concept';
+  label: string;
+  year?: number; // Papers only
+}
+
+/**
+ * Edge of the author/venue/paper layer, always leaving a paper node
+ * (`cites` edges join two papers)
+ */
+export interface EntityEdge {
+  source: string;
+  target: string;
+  type: 'authored_by' | 'published_in' | 'mentions' | 'cites';
+}
+
+/**
+ * Histogram of paper counts keyed by publication year
+ */
+export type YearCounts = Record<number, number>;
+
+/**
+ * Paper counts keyed by source dataset label
+ */
+export type SourceCounts = Record<string, number>;
+
+/**
+ * Inclusive publication year range; an omitted bound is open
+ */
+export interface YearRange {
+  from?: number;
+  to?: number;
 }
 
+/**
+ * Co-occurrence edge weighting scheme
+ * overlap: co-occurrences / papers of the rarer concept (0-1)
+ * pmi: pointwise mutual information in bits (unbounded)
+ * npmi: normalized PMI (-1 to 1)
+ * chi_square: phi coefficient (0-1) of pairs passing a chi-square test
+ */
+export type EdgeWeighting = 'overlap' | 'pmi' | 'npmi' | 'chi_square';
+
 /**
  * Knowledge graph structure
  */
@@ -54,9 +139,40 @@ export interface KnowledgeGraph {
     conceptCount: number;
     createdAt: Date;
     lastUpdated: Date;
+    yearCounts?: YearCounts; // Papers in the corpus per publication year
+    sourceCounts?: SourceCounts; // Papers in the corpus per source dataset
+    buildSettings?: BuildSettings; // Settings the graph was built with
   };
 }
 
+/**
+ * Graph settings recorded with a knowledge graph, so that later updates
+ * weight and prune edges the same way
+ */
+export interface BuildSettings {
+  edgeWeighting: EdgeWeighting;
+  minEdgeWeight: number;
+  significanceLevel: number;
+  minDocFrequency?: number; // Statistical term extraction only
+}
+
+/**
+ * Results of graph structure analysis, keyed by concept ID
+ */
+export interface GraphAnalysis {
+  communities: Record<string, number>;
+  centrality: Record<string, number>;
+}
+
+/**
+ * Contribution of one scorer to a path's novelty
+ */
+export interface NoveltyFactor {
+  name: string;
+  score: number; // 0-1, higher = more novel
+  weight: number; // Relative weight; novelty is the weighted mean of the scores
+}
+
 /**
  * Path through knowledge graph
  */
@@ -66,6 +182,16 @@ export interface GraphPath {
   length: number;
   totalWeight: number;
   novelty: number; // How unusual this path combination is
+  noveltyFactors?: NoveltyFactor[]; // Why: the factors behind `novelty`
+  communities?: string[]; // Community label of each concept
+  seed?: number; // PRNG seed of the sampling run that produced the path
+  discovery?: {
+    // A-B-C chain from Swanson ABC discovery; A and C never co-occur
+    mode: 'open' | 'closed';
+    linkingTermCount: number;
+    averageMinimumWeight: number;
+    linking: string[]; // Labels of all B concepts, strongest first
+  };
 }
 
 /**
@@ -145,16 +271,29 @@ export interface WorkflowState {
   metadata: Record<string, unknown>;
 }
 
+/**
+ * Constraints on the concepts and relations a path may use
+ */
+export interface PathConstraints {
+  maxHops?: number; // Longest path, in edges
+  requireConceptTypes?: ConceptNode['type'][]; // Paths must visit a concept of one of these types
+  excludeConcepts?: string[]; // Concept IDs paths may not visit
+  minCommunityCrossings?: number; // Steps between communities a path must take
+  edgeTypes?: ConceptEdge['type'][]; // Relations paths may follow (default: all)
+}
+
 /**
  * Search parameters for hypothesis generation
  */
-export interface SearchParams {
+export interface SearchParams extends PathConstraints {
   keywords?: string[];
   conceptIds?: string[];
   pathLength?: number;
   minNovelty?: number;
   maxResults?: number;
   domains?: string[];
+  crossSource?: boolean; // Only paths that no single source dataset supports end to end
+  seed?: number; // PRNG seed for path sampling (random when omitted)
 }
 
 /**
@@ -184,9 +323,17 @@ export interface SystemConfig {
   dataSources: DataSource[];
   agents: Record<AgentRole, AgentConfig>;
   graphConfig: {
-    minEdgeWeight: number;
+    minEdgeWeight: number; // In the units of `edgeWeighting`
     maxPathLength: number;
     embeddingDimensions: number;
+    edgeWeighting: EdgeWeighting;
+    significanceLevel: number; // p-value cutoff for chi_square weighting
+    entityLayer: boolean; // Also build the author/venue/paper layer
+    noveltyWeights: Record<string, number>; // Path scorer name -> weight (0 disables)
+    noveltyLengthScale: number; // Path length, in concepts, that scores 1 on path_length
+    exactCentralityLimit: number; // Larger graphs get sampled (approximate) betweenness
+    centralitySamples: number; // Pivots for approximate betweenness
+    centralityWorker: boolean; // Compute betweenness in a worker thread
   };
   memoryConfig: {
     storageDir: string;
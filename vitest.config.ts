@@ -10,6 +10,7 @@ export default defineConfig({
       exclude: [
         'node_modules/',
         'dist/',
+        'src/test/',
         '**/*.test.ts',
         '**/*.config.ts',
         'examples/',